@@ -0,0 +1,72 @@
+'use client';
+
+import { useSearchParams } from 'next/navigation';
+import { Suspense } from 'react';
+import { QueryProvider } from '@/components/providers/QueryProvider';
+import { useConfirmAccountDeletion } from '@/lib/queries';
+
+// The link from the deletion email. Confirming takes a click, so mail scanners that
+// open links do not schedule the deletion.
+export default function ConfirmAccountDeletionPage() {
+  return (
+    <QueryProvider>
+      <div className="min-h-screen bg-black text-white py-12 px-6">
+        <div className="max-w-md mx-auto">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold mb-4 text-[#39FF14]">Delete Account</h1>
+          </div>
+
+          <Suspense>
+            <ConfirmDeletion />
+          </Suspense>
+        </div>
+      </div>
+    </QueryProvider>
+  );
+}
+
+function ConfirmDeletion() {
+  const token = useSearchParams().get('token');
+  const confirmDeletion = useConfirmAccountDeletion();
+  const deletion = confirmDeletion.data;
+
+  if (!token) {
+    return (
+      <div className="bg-black/90 border border-gray-800 rounded-2xl p-8 text-center text-gray-400">
+        This link is incomplete. Open the link from the email again.
+      </div>
+    );
+  }
+
+  if (deletion?.status === 'scheduled' && deletion.purge_after) {
+    return (
+      <div className="bg-black/90 border border-gray-800 rounded-2xl p-8 text-center">
+        <p className="mb-4">
+          Your account and loyalty data will be deleted on{' '}
+          {new Date(deletion.purge_after).toLocaleDateString('en-GB')}.
+        </p>
+        <p className="text-gray-400 mb-6">Changed your mind? You can cancel from your account until then.</p>
+        <a href="/account" className="text-[#39FF14] hover:text-[#32E60A]">
+          Go to My Account →
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-black/90 border border-gray-800 rounded-2xl p-8 text-center">
+      <p className="text-gray-400 mb-6">
+        Your profile, sign-in and addresses will be erased 14 days from now and your points will be lost. You can
+        cancel from your account until then.
+      </p>
+      <button
+        onClick={() => confirmDeletion.mutate(token)}
+        disabled={confirmDeletion.isPending}
+        className="w-full py-3 rounded-full font-semibold border border-red-500 text-red-400 hover:bg-red-500 hover:text-white transition-colors disabled:opacity-50"
+      >
+        {confirmDeletion.isPending ? 'Confirming...' : 'Confirm Deletion'}
+      </button>
+      {confirmDeletion.error && <p className="text-red-400 text-sm mt-4">{confirmDeletion.error.message}</p>}
+    </div>
+  );
+}
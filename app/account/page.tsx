@@ -1,53 +1,65 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { useEffect, useState } from 'react';
+import { signOut, useSession } from 'next-auth/react';
+import { useState } from 'react';
 import LoyaltyCard from '@/components/LoyaltyCard';
 import QRDisplay from '@/components/QRDisplay';
+import { AuthProvider } from '@/components/providers/AuthProvider';
+import { QueryProvider } from '@/components/providers/QueryProvider';
+import { getReferralLink } from '@/lib/loyalty';
+import { getMemberQrData } from '@/supabase/functions/_shared/loyalty-rules';
+import {
+  useAccountDeletion,
+  useCancelAccountDeletion,
+  useLoyaltyPoints,
+  useOrders,
+  usePointsExpiry,
+  useReferralSummary,
+  useRequestAccountDeletion,
+  type Order
+} from '@/lib/queries';
 
-interface Order {
-  id: string;
-  date: string;
-  total: number;
-  status: string;
-  items: Array<{
-    name: string;
-    quantity: number;
-    price: number;
-  }>;
+const STATUS_LABELS: Record<Order['status'], string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  fulfilled: 'Delivered',
+  cancelled: 'Cancelled'
+};
+
+// Webhook orders store Shopify line items (title), storefront orders the product id
+type OrderItem = { title?: string; productId?: string; quantity: number; price: number };
+
+function orderItems(order: Order): OrderItem[] {
+  return Array.isArray(order.items) ? order.items : [];
+}
+
+function orderLabel(order: Order): string {
+  return order.order_number ?? order.id.slice(0, 8).toUpperCase();
 }
 
 export default function AccountPage() {
-  const [activeTab, setActiveTab] = useState<'overview' | 'orders' | 'loyalty'>('overview');
-  const [orders, setOrders] = useState<Order[]>([]);
-
-  useEffect(() => {
-    // Mock order data
-    setOrders([
-      {
-        id: 'ORD-001',
-        date: '2024-10-14',
-        total: 119.98,
-        status: 'Delivered',
-        items: [
-          { name: 'Premium 510 Cartridge - Lavender', quantity: 1, price: 29.99 },
-          { name: 'Aromatherapy Device Pro', quantity: 1, price: 89.99 }
-        ]
-      },
-      {
-        id: 'ORD-002',
-        date: '2024-10-10',
-        total: 24.99,
-        status: 'Delivered',
-        items: [
-          { name: 'Essential Oil Blend - Relaxation', quantity: 1, price: 24.99 }
-        ]
-      }
-    ]);
-  }, []);
-
-  const totalSpent = orders.reduce((sum, order) => sum + order.total, 0);
-  const totalOrders = orders.length;
+  return (
+    <AuthProvider>
+      <QueryProvider>
+        <AccountDashboard />
+      </QueryProvider>
+    </AuthProvider>
+  );
+}
+
+function AccountDashboard() {
+  const [activeTab, setActiveTab] = useState<'overview' | 'orders' | 'loyalty' | 'privacy'>('overview');
+  // Signed out visitors are sent to /login
+  const { data: session } = useSession({ required: true });
+  const userId = session?.user.id;
+
+  const { data: orders = [] } = useOrders(userId);
+  const { data: loyalty } = useLoyaltyPoints(userId ?? '');
+
+  const completedOrders = orders.filter((order) => order.status === 'paid' || order.status === 'fulfilled');
+  const totalSpent = completedOrders.reduce((sum, order) => sum + order.total_amount, 0);
+  const totalOrders = completedOrders.length;
 
   return (
     <div className="min-h-screen bg-black text-white py-12 px-6">
@@ -55,6 +67,14 @@ export default function AccountPage() {
         <div className="text-center mb-12">
           <h1 className="text-4xl font-bold mb-4 text-[#39FF14]">My Account</h1>
           <p className="text-gray-400">Manage your orders and loyalty rewards</p>
+          {session?.user.email && (
+            <p className="text-gray-500 text-sm mt-2">
+              Signed in as {session.user.email} ·{' '}
+              <button onClick={() => signOut({ callbackUrl: '/' })} className="text-[#39FF14] hover:text-[#32E60A]">
+                Sign out
+              </button>
+            </p>
+          )}
         </div>
 
         {/* Tab Navigation */}
@@ -63,7 +83,8 @@ export default function AccountPage() {
             {[
               { id: 'overview', label: 'Overview' },
               { id: 'orders', label: 'Orders' },
-              { id: 'loyalty', label: 'Loyalty' }
+              { id: 'loyalty', label: 'Loyalty' },
+              { id: 'privacy', label: 'Privacy' }
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -101,7 +122,7 @@ export default function AccountPage() {
                     <div className="text-gray-400">Total Spent</div>
                   </div>
                   <div className="text-center">
-                    <div className="text-3xl font-bold text-[#39FF14]">{Math.floor(totalSpent * 2)}</div>
+                    <div className="text-3xl font-bold text-[#39FF14]">{(loyalty?.points ?? 0).toLocaleString()}</div>
                     <div className="text-gray-400">Loyalty Points</div>
                   </div>
                 </div>
@@ -114,12 +135,12 @@ export default function AccountPage() {
                   {orders.slice(0, 3).map((order) => (
                     <div key={order.id} className="flex justify-between items-center p-4 bg-gray-900/50 rounded-lg">
                       <div>
-                        <div className="font-semibold">Order #{order.id}</div>
-                        <div className="text-gray-400 text-sm">{order.date}</div>
+                        <div className="font-semibold">Order #{orderLabel(order)}</div>
+                        <div className="text-gray-400 text-sm">{new Date(order.created_at).toLocaleDateString('en-GB')}</div>
                       </div>
                       <div className="text-right">
-                        <div className="font-bold">€{order.total.toFixed(2)}</div>
-                        <div className="text-sm text-green-400">{order.status}</div>
+                        <div className="font-bold">€{order.total_amount.toFixed(2)}</div>
+                        <div className="text-sm text-green-400">{STATUS_LABELS[order.status]}</div>
                       </div>
                     </div>
                   ))}
@@ -135,7 +156,7 @@ export default function AccountPage() {
 
             {/* Loyalty Card */}
             <div>
-              <LoyaltyCard />
+              <LoyaltyCard userId={userId} />
             </div>
           </motion.div>
         )}
@@ -153,23 +174,23 @@ export default function AccountPage() {
                 <div key={order.id} className="border border-gray-800 rounded-xl p-6">
                   <div className="flex justify-between items-start mb-4">
                     <div>
-                      <h3 className="text-lg font-semibold">Order #{order.id}</h3>
-                      <p className="text-gray-400">Placed on {order.date}</p>
+                      <h3 className="text-lg font-semibold">Order #{orderLabel(order)}</h3>
+                      <p className="text-gray-400">Placed on {new Date(order.created_at).toLocaleDateString('en-GB')}</p>
                     </div>
                     <div className="text-right">
-                      <div className="text-xl font-bold text-[#39FF14]">€{order.total.toFixed(2)}</div>
+                      <div className="text-xl font-bold text-[#39FF14]">€{order.total_amount.toFixed(2)}</div>
                       <div className={`text-sm font-medium ${
-                        order.status === 'Delivered' ? 'text-green-400' : 'text-yellow-400'
+                        order.status === 'fulfilled' ? 'text-green-400' : 'text-yellow-400'
                       }`}>
-                        {order.status}
+                        {STATUS_LABELS[order.status]}
                       </div>
                     </div>
                   </div>
-                  
+                
                   <div className="space-y-2">
-                    {order.items.map((item, index) => (
+                    {orderItems(order).map((item, index) => (
                       <div key={index} className="flex justify-between text-sm">
-                        <span>{item.name} × {item.quantity}</span>
+                        <span>{item.title ?? item.productId} × {item.quantity}</span>
                         <span>€{item.price.toFixed(2)}</span>
                       </div>
                     ))}
@@ -196,12 +217,227 @@ export default function AccountPage() {
             animate={{ opacity: 1, y: 0 }}
             className="grid grid-cols-1 lg:grid-cols-2 gap-8"
           >
-            <LoyaltyCard />
-            <QRDisplay orderId="DEMO-ORDER-123" points={150} />
+            <div className="space-y-4">
+              <PointsExpiryNotice userId={userId} />
+              <LoyaltyCard userId={userId} />
+            </div>
+            {userId && (
+              <QRDisplay
+                data={getMemberQrData(userId)}
+                title="Member Code"
+                description="Show this code at the counter to earn points on in-store purchases"
+              />
+            )}
+            <ReferralSection userId={userId} />
           </motion.div>
         )}
+
+        {/* Privacy Tab */}
+        {activeTab === 'privacy' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="grid grid-cols-1 lg:grid-cols-2 gap-8"
+          >
+            <DataExportSection />
+            <AccountDeletionSection />
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+
+function PointsExpiryNotice({ userId }: { userId?: string }) {
+  const { data: expiry } = usePointsExpiry(userId);
+
+  if (!expiry || expiry.points <= 0 || !expiry.expires_at) return null;
+
+  return (
+    <div className="bg-black/90 border border-yellow-500/40 rounded-2xl p-4 text-yellow-300 text-sm">
+      {expiry.points.toLocaleString()} points expiring on{' '}
+      {new Date(expiry.expires_at).toLocaleDateString('en-GB')}
+    </div>
+  );
+}
+
+function ReferralSection({ userId }: { userId?: string }) {
+  const { data: summary } = useReferralSummary(userId);
+  const [copied, setCopied] = useState(false);
+
+  if (!summary) return null;
+
+  const link = getReferralLink(summary.code);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <div className="lg:col-span-2 grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
+        <h2 className="text-2xl font-bold mb-2">Refer a Friend</h2>
+        <p className="text-gray-400 mb-6">
+          Your friend gets {summary.referee_bonus} points on their first order and you get{' '}
+          {summary.referrer_bonus} points.
+        </p>
+
+        <div className="mb-6">
+          <div className="text-gray-400 text-sm mb-1">Your code</div>
+          <div className="text-3xl font-mono font-bold text-[#39FF14]">{summary.code}</div>
+        </div>
+
+        <div className="flex gap-2 mb-8">
+          <input
+            readOnly
+            value={link}
+            className="flex-1 bg-gray-900 border border-gray-800 rounded-full px-4 py-3 text-sm text-gray-300"
+          />
+          <button
+            onClick={copyLink}
+            className="px-6 py-3 rounded-full font-semibold bg-[#39FF14] text-black hover:bg-[#32E60A] transition-colors"
+          >
+            {copied ? '✓ Copied!' : 'Copy Link'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-6 mb-6">
+          <div className="text-center">
+            <div className="text-3xl font-bold text-[#39FF14]">{summary.completed}</div>
+            <div className="text-gray-400">Joined</div>
+          </div>
+          <div className="text-center">
+            <div className="text-3xl font-bold text-[#39FF14]">{summary.pending}</div>
+            <div className="text-gray-400">Pending</div>
+          </div>
+          <div className="text-center">
+            <div className="text-3xl font-bold text-[#39FF14]">{summary.points_earned}</div>
+            <div className="text-gray-400">Points Earned</div>
+          </div>
+        </div>
+
+        {summary.referrals.length > 0 && (
+          <div className="space-y-2">
+            {summary.referrals.map((referral, index) => (
+              <div key={index} className="flex justify-between p-3 bg-gray-900/50 rounded-lg text-sm">
+                <span>{referral.email}</span>
+                <span className={
+                  referral.status === 'completed'
+                    ? 'text-green-400'
+                    : referral.status === 'pending' ? 'text-yellow-400' : 'text-gray-500'
+                }>
+                  {referral.status === 'completed' ? 'Joined' : referral.status === 'pending' ? 'Pending' : 'Not eligible'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+
+      <QRDisplay
+        data={link}
+        title="Referral QR Code"
+        description="Let a friend scan this to shop with your referral code"
+      />
     </div>
   );
 }
 
+function DataExportSection() {
+  return (
+    <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
+      <h2 className="text-2xl font-bold mb-2">Your Data</h2>
+      <p className="text-gray-400 mb-6">
+        Download everything we hold about you: profile, loyalty points and history, in-store scans and orders.
+      </p>
+      <div className="flex gap-4">
+        <a
+          href="/api/account/export?format=json"
+          className="px-6 py-3 rounded-full font-semibold bg-[#39FF14] text-black hover:bg-[#32E60A] transition-colors"
+        >
+          Download JSON
+        </a>
+        <a
+          href="/api/account/export?format=csv"
+          className="px-6 py-3 rounded-full font-semibold border border-gray-700 text-white hover:border-[#39FF14] transition-colors"
+        >
+          Download CSV
+        </a>
+      </div>
+    </div>
+  );
+}
+
+function AccountDeletionSection() {
+  const { data: deletion } = useAccountDeletion();
+  const requestDeletion = useRequestAccountDeletion();
+  const cancelDeletion = useCancelAccountDeletion();
+  const error = requestDeletion.error ?? cancelDeletion.error;
+
+  return (
+    <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
+      <h2 className="text-2xl font-bold mb-2">Delete Account</h2>
+
+      {deletion?.status === 'scheduled' && deletion.purge_after ? (
+        <>
+          <p className="text-yellow-300 mb-6">
+            Your account and loyalty data will be deleted on{' '}
+            {new Date(deletion.purge_after).toLocaleDateString('en-GB')}. Until then you can change your mind.
+          </p>
+          <button
+            onClick={() => cancelDeletion.mutate()}
+            disabled={cancelDeletion.isPending}
+            className="px-6 py-3 rounded-full font-semibold bg-[#39FF14] text-black hover:bg-[#32E60A] transition-colors disabled:opacity-50"
+          >
+            Keep My Account
+          </button>
+        </>
+      ) : deletion?.status === 'pending_confirmation' ? (
+        <>
+          <p className="text-gray-400 mb-6">
+            We sent a confirmation link to your email. Nothing is deleted until you open it.
+          </p>
+          <div className="flex gap-4">
+            <button
+              onClick={() => requestDeletion.mutate()}
+              disabled={requestDeletion.isPending}
+              className="text-[#39FF14] hover:text-[#32E60A] transition-colors disabled:opacity-50"
+            >
+              Send the link again
+            </button>
+            <button
+              onClick={() => cancelDeletion.mutate()}
+              disabled={cancelDeletion.isPending}
+              className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-400 mb-6">
+            Your profile, sign-in and addresses are erased 14 days after you confirm by email. Your points are
+            lost. Order totals stay in our bookkeeping without your personal details.
+          </p>
+          <button
+            onClick={() => requestDeletion.mutate()}
+            disabled={requestDeletion.isPending}
+            className="px-6 py-3 rounded-full font-semibold border border-red-500 text-red-400 hover:bg-red-500 hover:text-white transition-colors disabled:opacity-50"
+          >
+            Delete My Account
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-4">{error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { useState } from 'react';
+import { AuthProvider } from '@/components/providers/AuthProvider';
+import { QueryProvider } from '@/components/providers/QueryProvider';
+import type { PointsAdjustment } from '@/lib/loyalty';
+import { useAdjustmentQueue, useDecideAdjustment, useRequestAdjustment } from '@/lib/queries';
+
+export default function AdjustmentsPage() {
+  return (
+    <AuthProvider>
+      <Adjustments />
+    </AuthProvider>
+  );
+}
+
+function Adjustments() {
+  return (
+    <QueryProvider>
+      <div className="min-h-screen bg-black text-white py-12 px-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold mb-4 text-[#39FF14]">Points Adjustments</h1>
+            <p className="text-gray-400">Credit or debit member points. Every change is audited.</p>
+          </div>
+
+          <AdjustmentsDashboard />
+        </div>
+      </div>
+    </QueryProvider>
+  );
+}
+
+// Staff sign in like members (signed out visitors are sent to /login); points-adjust
+// checks the session's Supabase token against staff_members
+function AdjustmentsDashboard() {
+  const { status } = useSession({ required: true });
+
+  if (status !== 'authenticated') {
+    return <div className="text-center text-gray-400">Loading…</div>;
+  }
+
+  return <AdjustmentsQueue />;
+}
+
+function AdjustmentsQueue() {
+  const { data: queue, error, isLoading } = useAdjustmentQueue();
+
+  if (isLoading) {
+    return <div className="text-center text-gray-400">Loading…</div>;
+  }
+
+  if (error || !queue) {
+    return (
+      <div className="bg-black/90 border border-red-500/40 rounded-2xl p-8 text-center text-red-400">
+        {error?.message ?? 'Staff access required'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <AdjustmentForm
+        approvalThreshold={queue.limits.approval_threshold}
+        approvalWindowHours={queue.limits.approval_window_hours}
+        maxPoints={queue.limits.max_points}
+      />
+
+      <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
+        <h2 className="text-2xl font-bold mb-2">Awaiting Approval</h2>
+        <p className="text-gray-400 mb-6">
+          {queue.staff.can_approve
+            ? 'Adjustments requested by other staff members.'
+            : 'You can view the queue but another staff member has to approve.'}
+        </p>
+
+        {queue.pending.length === 0 ? (
+          <div className="text-gray-500">Nothing to approve.</div>
+        ) : (
+          <div className="space-y-4">
+            {queue.pending.map((adjustment) => (
+              <PendingAdjustment
+                key={adjustment.id}
+                adjustment={adjustment}
+                canDecide={queue.staff.can_approve && adjustment.requester?.user_id !== queue.staff.user_id}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 bg-black/90 border border-gray-800 rounded-2xl p-8">
+        <h2 className="text-2xl font-bold mb-6">Recent Adjustments</h2>
+        <div className="space-y-2">
+          {queue.recent.map((adjustment) => (
+            <div key={adjustment.id} className="grid grid-cols-2 md:grid-cols-6 gap-2 p-3 bg-gray-900/50 rounded-lg text-sm">
+              <span>{adjustment.member?.email}</span>
+              <span className={adjustment.points > 0 ? 'text-green-400' : 'text-red-400'}>
+                {adjustment.points > 0 ? '+' : ''}{adjustment.points}
+              </span>
+              <span className="md:col-span-2 text-gray-300">{adjustment.reason} ({adjustment.ticket_ref})</span>
+              <span className="text-gray-400">
+                {adjustment.requester?.email}
+                {adjustment.approver && ` → ${adjustment.approver.email}`}
+              </span>
+              <span className={adjustment.status === 'applied' ? 'text-green-400' : 'text-gray-500'}>
+                {adjustment.status === 'applied' ? 'Applied' : 'Rejected'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function AdjustmentForm({
+  approvalThreshold,
+  approvalWindowHours,
+  maxPoints,
+}: {
+  approvalThreshold: number;
+  approvalWindowHours: number;
+  maxPoints: number;
+}) {
+  const requestAdjustment = useRequestAdjustment();
+  const [email, setEmail] = useState('');
+  const [points, setPoints] = useState('');
+  const [reason, setReason] = useState('');
+  const [ticketRef, setTicketRef] = useState('');
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    requestAdjustment.mutate(
+      { email: email.trim(), points: Number(points), reason, ticket_ref: ticketRef },
+      {
+        onSuccess: () => {
+          setPoints('');
+          setReason('');
+          setTicketRef('');
+        }
+      }
+    );
+  };
+
+  const result = requestAdjustment.data;
+  const inputClass = 'w-full bg-gray-900 border border-gray-800 rounded-lg px-4 py-3 text-white';
+
+  return (
+    <form onSubmit={submit} className="bg-black/90 border border-gray-800 rounded-2xl p-8 space-y-4">
+      <h2 className="text-2xl font-bold mb-2">New Adjustment</h2>
+      <p className="text-gray-400">
+        Use a negative number to debit. Adjustments over {approvalThreshold} points need a second approver,
+        counting your own adjustments for the same member or ticket in the last {approvalWindowHours} hours.
+      </p>
+
+      <input
+        required
+        type="email"
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+        placeholder="Member email"
+        aria-label="Member email"
+        className={inputClass}
+      />
+      <input
+        required
+        type="number"
+        step={1}
+        min={-maxPoints}
+        max={maxPoints}
+        value={points}
+        onChange={(event) => setPoints(event.target.value)}
+        placeholder="Points (e.g. 250 or -100)"
+        aria-label="Points"
+        className={inputClass}
+      />
+      <textarea
+        required
+        value={reason}
+        onChange={(event) => setReason(event.target.value)}
+        placeholder="Reason"
+        aria-label="Reason"
+        className={inputClass}
+      />
+      <input
+        required
+        value={ticketRef}
+        onChange={(event) => setTicketRef(event.target.value)}
+        placeholder="Ticket reference"
+        aria-label="Ticket reference"
+        className={inputClass}
+      />
+
+      {requestAdjustment.error && (
+        <div className="text-red-400 text-sm">{requestAdjustment.error.message}</div>
+      )}
+      {result && (
+        <div className="text-[#39FF14] text-sm">
+          {result.status === 'applied'
+            ? `Applied. New balance ${result.balance?.toLocaleString()} points.`
+            : 'Sent for approval.'}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={requestAdjustment.isPending}
+        className="px-6 py-3 rounded-full font-semibold bg-[#39FF14] text-black hover:bg-[#32E60A] transition-colors disabled:opacity-50"
+      >
+        {requestAdjustment.isPending ? 'Saving…' : 'Submit Adjustment'}
+      </button>
+    </form>
+  );
+}
+
+function PendingAdjustment({ adjustment, canDecide }: { adjustment: PointsAdjustment; canDecide: boolean }) {
+  const decideAdjustment = useDecideAdjustment();
+  const [note, setNote] = useState('');
+
+  const decide = (approve: boolean) =>
+    decideAdjustment.mutate({ adjustment_id: adjustment.id, approve, note: note || undefined });
+
+  return (
+    <div className="border border-gray-800 rounded-xl p-4 space-y-2">
+      <div className="flex justify-between">
+        <span className="font-semibold">{adjustment.member?.email}</span>
+        <span className={`font-bold ${adjustment.points > 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {adjustment.points > 0 ? '+' : ''}{adjustment.points.toLocaleString()}
+        </span>
+      </div>
+      <div className="text-sm text-gray-300">{adjustment.reason}</div>
+      <div className="text-xs text-gray-500">
+        {adjustment.ticket_ref} · requested by {adjustment.requester?.email} on{' '}
+        {new Date(adjustment.created_at).toLocaleDateString('en-GB')}
+      </div>
+
+      {canDecide && (
+        <div className="flex gap-2 pt-2">
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note (optional)"
+            aria-label="Decision note"
+            className="flex-1 bg-gray-900 border border-gray-800 rounded-full px-4 py-2 text-sm"
+          />
+          <button
+            onClick={() => decide(true)}
+            disabled={decideAdjustment.isPending}
+            className="px-4 py-2 rounded-full text-sm font-semibold bg-[#39FF14] text-black hover:bg-[#32E60A] disabled:opacity-50"
+          >
+            Approve
+          </button>
+          <button
+            onClick={() => decide(false)}
+            disabled={decideAdjustment.isPending}
+            className="px-4 py-2 rounded-full text-sm font-semibold text-gray-400 hover:text-white disabled:opacity-50"
+          >
+            Reject
+          </button>
+        </div>
+      )}
+      {decideAdjustment.error && (
+        <div className="text-red-400 text-sm">{decideAdjustment.error.message}</div>
+      )}
+    </div>
+  );
+}
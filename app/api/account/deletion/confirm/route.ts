@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { withApiErrors } from '@/lib/api'
+import { confirmAccountDeletion } from '@/lib/account-data'
+import { ConfirmAccountDeletionSchema } from '@/lib/schemas'
+
+// POST { token } from the emailed link; schedules the deletion after the cooling-off period
+export const POST = withApiErrors(async (request: Request) => {
+  const { token } = ConfirmAccountDeletionSchema.parse(await request.json())
+  return NextResponse.json(await confirmAccountDeletion(token))
+})
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireUser, withApiErrors } from '@/lib/api'
+import { cancelAccountDeletion, getAccountDeletion, requestAccountDeletion } from '@/lib/account-data'
+
+// The signed in member's open deletion request
+export const GET = withApiErrors(async () => {
+  const user = await requireUser()
+  return NextResponse.json(await getAccountDeletion(user.id))
+})
+
+// Ask for deletion; the confirmation link goes to the member's email
+export const POST = withApiErrors(async () => {
+  const user = await requireUser()
+  return NextResponse.json(await requestAccountDeletion(user), { status: 202 })
+})
+
+// Cancel during the cooling-off period
+export const DELETE = withApiErrors(async () => {
+  const user = await requireUser()
+  return NextResponse.json(await cancelAccountDeletion(user.id))
+})
@@ -0,0 +1,20 @@
+import { requireUser, withApiErrors } from '@/lib/api'
+import { exportFilename, getAccountExport, toExportCsv } from '@/lib/account-data'
+import { AccountExportQuerySchema } from '@/lib/schemas'
+
+// GET ?format=json|csv everything we hold about the signed in member, as a download
+export const GET = withApiErrors(async (request: Request) => {
+  const user = await requireUser()
+  const { format } = AccountExportQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams))
+
+  const data = await getAccountExport(user.id)
+  const body = format === 'csv' ? toExportCsv(data) : JSON.stringify(data, null, 2)
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${exportFilename(format)}"`,
+      'Cache-Control': 'no-store'
+    }
+  })
+})
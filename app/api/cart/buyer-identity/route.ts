@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { withApiErrors } from '@/lib/api'
+import { getCartId, toCart, withCartErrors } from '@/lib/cart'
+import { CartBuyerIdentitySchema } from '@/lib/schemas'
+import { updateCartBuyerIdentity } from '@/lib/shopify'
+
+// PUT { email, address, city, postalCode, countryCode, ... } sets who the cart is for and
+// where it ships. Shopify then returns delivery options and taxes for the address, and
+// prefills them at checkout.
+export const PUT = withApiErrors(async (request: Request) => {
+  const input = CartBuyerIdentitySchema.parse(await request.json())
+
+  const cartId = getCartId()
+  if (!cartId) return NextResponse.json({ error: 'Cart not found' }, { status: 404 })
+
+  const cart = await withCartErrors(
+    updateCartBuyerIdentity(cartId, {
+      email: input.email,
+      countryCode: input.countryCode,
+      deliveryAddressPreferences: [
+        {
+          deliveryAddress: {
+            firstName: input.firstName,
+            lastName: input.lastName,
+            address1: input.address,
+            city: input.city,
+            zip: input.postalCode,
+            country: input.countryCode
+          }
+        }
+      ]
+    })
+  )
+  return NextResponse.json(toCart(cart))
+})
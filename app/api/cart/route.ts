@@ -0,0 +1,57 @@
+import { getServerSession } from 'next-auth'
+import { NextResponse } from 'next/server'
+import { withApiErrors } from '@/lib/api'
+import { authOptions } from '@/lib/auth'
+import { clearCartId, getCartId, setCartId, toCart, withCartErrors } from '@/lib/cart'
+import { CartLineAddSchema, CartLineUpdateSchema } from '@/lib/schemas'
+import { addCartLines, createCart, getCart, removeCartLines, updateCartLines } from '@/lib/shopify'
+
+// The visitor's cart from the cookie, or null when there is none (or it was checked out)
+async function currentCart() {
+  const cartId = getCartId()
+  if (!cartId) return null
+
+  const cart = await getCart(cartId)
+  if (!cart) clearCartId()
+  return cart
+}
+
+export const GET = withApiErrors(async () => {
+  const cart = await currentCart()
+  return NextResponse.json(cart ? toCart(cart) : null)
+})
+
+// POST { variantId, quantity } adds to the cart, creating it on the first add
+export const POST = withApiErrors(async (request: Request) => {
+  const { variantId, quantity } = CartLineAddSchema.parse(await request.json())
+  const lines = [{ merchandiseId: variantId, quantity }]
+
+  const existing = await currentCart()
+  if (existing) {
+    const cart = await withCartErrors(addCartLines(existing.id, lines))
+    return NextResponse.json(toCart(cart))
+  }
+
+  // Signed in members check out with their own email, so the order earns them points
+  const session = await getServerSession(authOptions)
+  const email = session?.user?.email ?? undefined
+
+  const cart = await withCartErrors(createCart(lines, email ? { email } : undefined))
+  setCartId(cart.id)
+  return NextResponse.json(toCart(cart), { status: 201 })
+})
+
+// PATCH { lineId, quantity } changes a line; quantity 0 removes it
+export const PATCH = withApiErrors(async (request: Request) => {
+  const { lineId, quantity } = CartLineUpdateSchema.parse(await request.json())
+
+  const existing = await currentCart()
+  if (!existing) return NextResponse.json({ error: 'Cart not found' }, { status: 404 })
+
+  const cart = await withCartErrors(
+    quantity === 0
+      ? removeCartLines(existing.id, [lineId])
+      : updateCartLines(existing.id, [{ id: lineId, quantity }])
+  )
+  return NextResponse.json(toCart(cart))
+})
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ApiError, assertOwnEmail, assertOwnUser, getServiceClient, requireUser, withApiErrors } from '@/lib/api'
+import { AddPointsSchema } from '@/lib/schemas'
+
+// Members cannot credit points themselves: the Shopify orders/paid and Stripe
+// payment_intent.succeeded webhooks credit every paid order. This answers with the credit
+// an own order received, under the same key those webhooks use (the Shopify order id when
+// there is one, otherwise the order id).
+export const POST = withApiErrors(async (request: Request) => {
+  const user = await requireUser()
+
+  const input = AddPointsSchema.parse(await request.json())
+  assertOwnUser(user, input.userId)
+  assertOwnEmail(user, input.email)
+
+  if (!z.string().uuid().safeParse(input.orderId).success) {
+    throw new ApiError(404, 'Order not found')
+  }
+
+  const supabase = getServiceClient()
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, shopify_order_id, status')
+    .eq('id', input.orderId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (orderError) {
+    console.error('Error loading order:', orderError)
+    throw new ApiError(500, 'Failed to load order')
+  }
+  if (!order) throw new ApiError(404, 'Order not found')
+
+  const creditKeys = [order.shopify_order_id, order.id].filter((key): key is string => Boolean(key))
+
+  const [credits, summary] = await Promise.all([
+    supabase
+      .from('loyalty_transactions')
+      .select('points')
+      .eq('user_id', user.id)
+      .in('order_id', creditKeys)
+      .in('source', ['shopify', 'qr']),
+    supabase
+      .from('loyalty_points')
+      .select('points, tier')
+      .eq('user_id', user.id)
+      .maybeSingle()
+  ])
+
+  if (credits.error || summary.error) {
+    console.error('Error loading order credit:', credits.error ?? summary.error)
+    throw new ApiError(500, 'Failed to load points')
+  }
+
+  if (!credits.data?.length) {
+    throw new ApiError(409, 'Points are added automatically once the payment has been processed')
+  }
+
+  return NextResponse.json({
+    points_added: credits.data.reduce((sum, credit) => sum + credit.points, 0),
+    total_points: summary.data?.points ?? 0,
+    tier: summary.data?.tier ?? 'Bronze',
+    duplicate: true
+  })
+})
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { ApiError, assertOwnUser, getServiceClient, requireUser, withApiErrors, withoutNulls } from '@/lib/api'
+import { LoyaltyPointsSchema } from '@/lib/schemas'
+
+type Params = { params: { userId: string } }
+
+export const GET = withApiErrors(async (request: Request, { params }: Params) => {
+  const user = await requireUser()
+  assertOwnUser(user, params.userId)
+
+  const { data, error } = await getServiceClient()
+    .from('loyalty_points')
+    .select('id, user_id, points, tier, streak, total_orders, total_spent, last_order_date, tier_grace_until, created_at, updated_at')
+    .eq('user_id', params.userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading loyalty points:', error)
+    throw new ApiError(500, 'Failed to fetch loyalty points')
+  }
+  if (!data) throw new ApiError(404, 'No loyalty points yet')
+
+  return NextResponse.json(LoyaltyPointsSchema.parse(withoutNulls(data)))
+})
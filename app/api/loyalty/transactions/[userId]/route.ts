@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { assertOwnUser, fetchPage, getServiceClient, requireUser, withApiErrors, withoutNulls } from '@/lib/api'
+import { LoyaltyTransactionSchema, PageQuerySchema, pageSchema } from '@/lib/schemas'
+
+type Params = { params: { userId: string } }
+
+const TransactionPageSchema = pageSchema(LoyaltyTransactionSchema)
+
+// GET ?limit=10&cursor=... newest first; pass next_cursor back for the following page
+export const GET = withApiErrors(async (request: Request, { params }: Params) => {
+  const user = await requireUser()
+  assertOwnUser(user, params.userId)
+
+  const { limit, cursor } = PageQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams))
+
+  const query = getServiceClient()
+    .from('loyalty_transactions')
+    .select('id, user_id, order_id, shopify_order_id, points, source, amount, qr_code, items, created_at')
+    .eq('user_id', params.userId)
+
+  const { rows, next_cursor } = await fetchPage<{ id: string; created_at: string }>(query, limit, cursor)
+
+  return NextResponse.json(TransactionPageSchema.parse({ data: rows.map(withoutNulls), next_cursor }))
+})
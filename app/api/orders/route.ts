@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  ApiError,
+  assertOwnEmail,
+  assertOwnUser,
+  fetchPage,
+  getServiceClient,
+  requireUser,
+  withApiErrors,
+  withoutNulls
+} from '@/lib/api'
+import { CreateOrderSchema, OrderSchema, PageQuerySchema, pageSchema } from '@/lib/schemas'
+import { fetchProductPrices } from '@/lib/shopify'
+
+const ORDER_COLUMNS =
+  'id, user_id, shopify_order_id, order_number, email, total_amount, currency, status, items, shipping_address, billing_address, created_at, updated_at'
+
+const OrderPageSchema = pageSchema(OrderSchema)
+
+// GET ?userId=...&limit=10&cursor=... the caller's orders, newest first
+export const GET = withApiErrors(async (request: Request) => {
+  const user = await requireUser()
+
+  const searchParams = Object.fromEntries(new URL(request.url).searchParams)
+  const { limit, cursor } = PageQuerySchema.parse(searchParams)
+  const userId = z.string().uuid().optional().parse(searchParams.userId)
+  assertOwnUser(user, userId)
+
+  const query = getServiceClient()
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('user_id', user.id)
+
+  const { rows, next_cursor } = await fetchPage<{ id: string; created_at: string }>(query, limit, cursor)
+
+  return NextResponse.json(OrderPageSchema.parse({ data: rows.map(withoutNulls), next_cursor }))
+})
+
+export const POST = withApiErrors(async (request: Request) => {
+  const user = await requireUser()
+
+  const input = CreateOrderSchema.parse(await request.json())
+  assertOwnUser(user, input.userId)
+  assertOwnEmail(user, input.email)
+
+  // The PaymentIntent charges total_amount, so every line is priced from Shopify
+  const prices = await fetchProductPrices([...new Set(input.items.map((item) => item.productId))]).catch((error) => {
+    console.error('Error pricing order:', error)
+    throw new ApiError(502, 'Failed to price the order')
+  })
+
+  const items = input.items.map((item) => {
+    const product = prices.get(item.productId)
+    if (!product) throw new ApiError(400, `Product ${item.productId} is not available`)
+    return { productId: item.productId, title: product.title, quantity: item.quantity, price: product.price }
+  })
+
+  const currencies = new Set(input.items.map((item) => prices.get(item.productId)!.currencyCode))
+  if (currencies.size > 1) throw new ApiError(400, 'Products are priced in different currencies')
+
+  const itemsTotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  if (itemsTotal <= 0) throw new ApiError(400, 'Order total must be positive')
+
+  const { data, error } = await getServiceClient()
+    .from('orders')
+    .insert({
+      user_id: user.id,
+      email: input.email,
+      total_amount: Math.round(itemsTotal * 100) / 100,
+      currency: [...currencies][0],
+      status: 'pending',
+      items,
+      shipping_address: input.shippingAddress ?? null
+    })
+    .select(ORDER_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('Error creating order:', error)
+    throw new ApiError(500, 'Failed to create order')
+  }
+
+  return NextResponse.json(OrderSchema.parse(withoutNulls(data)), { status: 201 })
+})
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { ApiError, getServiceClient, requireUser, withApiErrors } from '@/lib/api'
+import { getStripe, isStripeMock, toCents } from '@/lib/payments'
+import { CreatePaymentIntentSchema, PaymentIntentSchema } from '@/lib/schemas'
+
+// POST { orderId } a PaymentIntent for one of the caller's pending orders.
+// The amount comes from the stored order; the Stripe webhook marks it paid.
+export const POST = withApiErrors(async (request: Request) => {
+  const user = await requireUser()
+  const { orderId } = CreatePaymentIntentSchema.parse(await request.json())
+
+  const supabase = getServiceClient()
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, total_amount, currency, status, stripe_payment_intent_id')
+    .eq('id', orderId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (orderError) {
+    console.error('Error loading order:', orderError)
+    throw new ApiError(500, 'Failed to load order')
+  }
+  if (!order) throw new ApiError(404, 'Order not found')
+  if (order.status !== 'pending') throw new ApiError(409, 'Order is not awaiting payment')
+
+  const stripe = getStripe()
+
+  // Paying again (e.g. after a declined card) reuses the order's intent
+  const paymentIntent = order.stripe_payment_intent_id
+    ? await stripe.paymentIntents.retrieve(order.stripe_payment_intent_id)
+    : await stripe.paymentIntents.create(
+        {
+          amount: toCents(order.total_amount),
+          currency: (order.currency ?? 'EUR').toLowerCase(),
+          automatic_payment_methods: { enabled: true },
+          receipt_email: user.email,
+          metadata: { order_id: order.id, user_id: user.id }
+        },
+        { idempotencyKey: `order-${order.id}` }
+      )
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      stripe_payment_intent_id: paymentIntent.id,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', order.id)
+
+  if (updateError) {
+    console.error('Error storing payment intent:', updateError)
+    throw new ApiError(500, 'Failed to start payment')
+  }
+
+  const mock = isStripeMock()
+
+  return NextResponse.json(
+    PaymentIntentSchema.parse({
+      payment_intent_id: paymentIntent.id,
+      client_secret: paymentIntent.client_secret,
+      amount: order.total_amount,
+      currency: order.currency ?? 'EUR',
+      publishable_key: mock ? null : process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY ?? null,
+      mock
+    })
+  )
+})
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ApiError, getServiceClient, requireUser, withApiErrors } from '@/lib/api'
+import { getStripe, isStripeMock, markOrderPaid, toCents } from '@/lib/payments'
+
+// POST { orderId } only with STRIPE_API_BASE (stripe-mock): confirms the order's intent
+// with a test card and runs the payment_intent.succeeded handling directly, because
+// Stripe.js cannot reach stripe-mock and stripe-mock sends no webhooks.
+export const POST = withApiErrors(async (request: Request) => {
+  if (!isStripeMock()) throw new ApiError(404, 'Not found')
+
+  const user = await requireUser()
+  const { orderId } = z.object({ orderId: z.string().uuid() }).parse(await request.json())
+
+  const { data: order, error: orderError } = await getServiceClient()
+    .from('orders')
+    .select('id, total_amount, currency, stripe_payment_intent_id')
+    .eq('id', orderId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (orderError) throw orderError
+  if (!order?.stripe_payment_intent_id) throw new ApiError(404, 'Order has no payment')
+
+  await getStripe().paymentIntents.confirm(order.stripe_payment_intent_id, {
+    payment_method: 'pm_card_visa'
+  })
+
+  // stripe-mock answers with fixture data, so the amount is taken from the order
+  const paid = await markOrderPaid({
+    id: order.stripe_payment_intent_id,
+    amount_received: toCents(order.total_amount),
+    currency: order.currency ?? 'EUR'
+  })
+
+  return NextResponse.json(paid)
+})
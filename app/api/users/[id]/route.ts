@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { ApiError, assertOwnUser, getServiceClient, requireUser, withApiErrors, withoutNulls } from '@/lib/api'
+import { UserSchema, UserUpdateSchema } from '@/lib/schemas'
+
+const USER_COLUMNS = 'id, email, name, birth_date, created_at, updated_at'
+
+type Params = { params: { id: string } }
+
+export const GET = withApiErrors(async (request: Request, { params }: Params) => {
+  const user = await requireUser()
+  assertOwnUser(user, params.id)
+
+  const { data, error } = await getServiceClient()
+    .from('users')
+    .select(USER_COLUMNS)
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading user:', error)
+    throw new ApiError(500, 'Failed to fetch user')
+  }
+  if (!data) throw new ApiError(404, 'User not found')
+
+  return NextResponse.json(UserSchema.parse(withoutNulls(data)))
+})
+
+export const PATCH = withApiErrors(async (request: Request, { params }: Params) => {
+  const user = await requireUser()
+  assertOwnUser(user, params.id)
+
+  // Only profile fields; email and ids follow the auth identity
+  const updates = UserUpdateSchema.parse(await request.json())
+
+  if (updates.birth_date && new Date(updates.birth_date) > new Date()) {
+    throw new ApiError(400, 'Birth date cannot be in the future')
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('users')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', params.id)
+    .select(USER_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating user:', error)
+    throw new ApiError(500, 'Failed to update user profile')
+  }
+  if (!data) throw new ApiError(404, 'User not found')
+
+  return NextResponse.json(UserSchema.parse(withoutNulls(data)))
+})
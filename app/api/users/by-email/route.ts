@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ApiError, assertOwnEmail, getServiceClient, requireUser, withApiErrors, withoutNulls } from '@/lib/api'
+import { UserSchema } from '@/lib/schemas'
+
+export const GET = withApiErrors(async (request: Request) => {
+  const user = await requireUser()
+
+  const email = z.string().email().parse(new URL(request.url).searchParams.get('email'))
+  assertOwnEmail(user, email)
+
+  // The address is the caller's own, so their auth id is the row to return
+  const { data, error } = await getServiceClient()
+    .from('users')
+    .select('id, email, name, birth_date, created_at, updated_at')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading user by email:', error)
+    throw new ApiError(500, 'Failed to fetch user by email')
+  }
+  if (!data) throw new ApiError(404, 'User not found')
+
+  return NextResponse.json(UserSchema.parse(withoutNulls(data)))
+})
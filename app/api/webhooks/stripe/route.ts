@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import type Stripe from 'stripe'
+import { ApiError, getServiceClient } from '@/lib/api'
+import { getStripe, markOrderPaid } from '@/lib/payments'
+
+// Stripe webhook (payment_intent.succeeded / payment_intent.payment_failed).
+// Register https://<site>/api/webhooks/stripe in the Stripe dashboard and set
+// STRIPE_WEBHOOK_SECRET to its signing secret.
+export async function POST(request: Request) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set')
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 })
+  }
+
+  // The signature covers the raw body, so it is read as text before parsing
+  const payload = await request.text()
+  let event: Stripe.Event
+  try {
+    event = getStripe().webhooks.constructEvent(payload, request.headers.get('stripe-signature') ?? '', secret)
+  } catch (error) {
+    console.error('Invalid Stripe signature:', error)
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  if (event.type !== 'payment_intent.succeeded' && event.type !== 'payment_intent.payment_failed') {
+    return NextResponse.json({ received: true, ignored: event.type })
+  }
+
+  const paymentIntent = event.data.object as Stripe.PaymentIntent
+  const orderId = paymentIntent.metadata?.order_id ?? null
+
+  let pointsAdded = 0
+  let errorMessage: string | null = null
+  let status = 200
+
+  if (event.type === 'payment_intent.succeeded') {
+    try {
+      pointsAdded = (await markOrderPaid(paymentIntent)).points_added
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`Error handling ${event.id}:`, error)
+      // A payment that does not match its order will not match on a retry either
+      status = error instanceof ApiError ? 200 : 500
+    }
+  } else {
+    errorMessage = paymentIntent.last_payment_error?.message ?? 'payment_failed'
+  }
+
+  await getServiceClient()
+    .from('webhook_logs')
+    .insert([
+      {
+        webhook_type: `stripe/${event.type}`,
+        processed_at: new Date().toISOString(),
+        success: !errorMessage,
+        points_added: pointsAdded,
+        error_message: errorMessage,
+        request_data: { event_id: event.id, payment_intent: paymentIntent.id, order_id: orderId }
+      }
+    ])
+
+  // Non-2xx makes Stripe retry the event
+  return NextResponse.json({ received: true, order_id: orderId, points_added: pointsAdded }, { status })
+}
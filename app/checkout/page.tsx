@@ -1,11 +1,28 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { QueryProvider } from '@/components/providers/QueryProvider';
+import { useCart, useUpdateCartBuyerIdentity, useUpdateCartLine } from '@/lib/queries';
+import type { CartBuyerIdentityInput } from '@/lib/schemas';
+
+type CountryCode = CartBuyerIdentityInput['countryCode'];
 
 export default function CheckoutPage() {
-  const [step, setStep] = useState<'details' | 'payment' | 'success'>('details');
+  return (
+    <QueryProvider>
+      <Checkout />
+    </QueryProvider>
+  );
+}
+
+function formatEuro(amount: number) {
+  return `€${amount.toFixed(2)}`;
+}
+
+function Checkout() {
+  const [step, setStep] = useState<'details' | 'review'>('details');
   const [formData, setFormData] = useState({
     email: '',
     firstName: '',
@@ -13,30 +30,62 @@ export default function CheckoutPage() {
     address: '',
     city: '',
     postalCode: '',
-    country: 'Finland'
+    countryCode: 'FI' as CountryCode
   });
-  const [loading, setLoading] = useState(false);
   const router = useRouter();
 
+  const { data: cart, isLoading, error } = useCart();
+  const updateLine = useUpdateCartLine();
+  const updateBuyerIdentity = useUpdateCartBuyerIdentity();
+
+  // Carts created by signed in members already carry their email
+  const cartEmail = cart?.email;
+  useEffect(() => {
+    if (cartEmail) setFormData((data) => (data.email ? data : { ...data, email: cartEmail }));
+  }, [cartEmail]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
 
-    // Simulate payment processing
-    setTimeout(() => {
-      setStep('success');
-      setLoading(false);
-    }, 2000);
+    // Shopify prices shipping and taxes for the address; checkout is prefilled with it
+    updateBuyerIdentity.mutate(formData, {
+      onSuccess: () => setStep('review')
+    });
   };
 
-  const mockCart = [
-    { id: '1', name: 'Premium 510 Cartridge - Lavender', price: 29.99, quantity: 1 },
-    { id: '2', name: 'Aromatherapy Device Pro', price: 89.99, quantity: 1 }
-  ];
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-black text-white py-12 px-6 text-center text-gray-400">
+        Loading cart...
+      </div>
+    );
+  }
 
-  const subtotal = mockCart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const shipping = subtotal > 50 ? 0 : 9.99;
-  const total = subtotal + shipping;
+  if (error || !cart || cart.lines.length === 0) {
+    return (
+      <div className="min-h-screen bg-black text-white py-12 px-6">
+        <div className="max-w-2xl mx-auto text-center bg-black/90 border border-gray-800 rounded-2xl p-12">
+          <h1 className="text-3xl font-bold mb-4 text-[#39FF14]">
+            {error ? 'Cart unavailable' : 'Your cart is empty'}
+          </h1>
+          <p className="text-gray-400 mb-8">
+            {error ? error.message : 'Add products to your cart to check out.'}
+          </p>
+          <button
+            onClick={() => router.push('/')}
+            className="bg-[#39FF14] text-black px-8 py-4 rounded-full font-bold hover:bg-[#32E60A] transition-colors"
+          >
+            Continue Shopping
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Delivery options are only known once the cart has an address
+  const selectedDelivery = cart.delivery_options.find((option) => option.selected);
+  const cheapestDelivery = [...cart.delivery_options].sort((a, b) => a.cost - b.cost)[0];
+  const shipping = selectedDelivery ?? cheapestDelivery;
 
   return (
     <div className="min-h-screen bg-black text-white py-12 px-6">
@@ -46,16 +95,15 @@ export default function CheckoutPage() {
           <p className="text-gray-400">Complete your order securely</p>
         </div>
 
-        {step === 'details' && (
-          <motion.div
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            className="grid grid-cols-1 lg:grid-cols-2 gap-12"
-          >
-            {/* Order Form */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="grid grid-cols-1 lg:grid-cols-2 gap-12"
+        >
+          {step === 'details' ? (
             <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
-              <h2 className="text-2xl font-bold mb-6">Order Details</h2>
-              
+              <h2 className="text-2xl font-bold mb-6">Delivery Details</h2>
+
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
@@ -128,119 +176,140 @@ export default function CheckoutPage() {
                 <div>
                   <label className="block text-sm font-medium mb-2">Country</label>
                   <select
-                    value={formData.country}
-                    onChange={(e) => setFormData({...formData, country: e.target.value})}
+                    value={formData.countryCode}
+                    onChange={(e) => setFormData({...formData, countryCode: e.target.value as CountryCode})}
                     className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg focus:border-[#39FF14] focus:outline-none"
                   >
-                    <option value="Finland">Finland</option>
-                    <option value="Sweden">Sweden</option>
-                    <option value="Norway">Norway</option>
-                    <option value="Denmark">Denmark</option>
+                    <option value="FI">Finland</option>
+                    <option value="SE">Sweden</option>
+                    <option value="NO">Norway</option>
+                    <option value="DK">Denmark</option>
                   </select>
                 </div>
 
+                {updateBuyerIdentity.error && (
+                  <p className="text-red-400 text-sm">{updateBuyerIdentity.error.message}</p>
+                )}
+
                 <motion.button
                   type="submit"
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  disabled={loading}
+                  disabled={updateBuyerIdentity.isPending}
                   className="w-full bg-[#39FF14] text-black py-4 rounded-lg font-bold text-lg hover:bg-[#32E60A] transition-colors disabled:opacity-50"
                 >
-                  {loading ? 'Processing...' : 'Proceed to Payment'}
+                  {updateBuyerIdentity.isPending ? 'Calculating shipping...' : 'Continue'}
                 </motion.button>
               </form>
             </div>
-
-            {/* Order Summary */}
+          ) : (
             <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
-              <h2 className="text-2xl font-bold mb-6">Order Summary</h2>
-              
-              <div className="space-y-4 mb-6">
-                {mockCart.map((item) => (
-                  <div key={item.id} className="flex justify-between items-center">
-                    <div>
-                      <h3 className="font-medium">{item.name}</h3>
-                      <p className="text-gray-400 text-sm">Qty: {item.quantity}</p>
-                    </div>
-                    <span className="font-bold">€{item.price.toFixed(2)}</span>
-                  </div>
-                ))}
-              </div>
+              <h2 className="text-2xl font-bold mb-6">Shipping</h2>
 
-              <div className="border-t border-gray-800 pt-4 space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal</span>
-                  <span>€{subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Shipping</span>
-                  <span>{shipping === 0 ? 'FREE' : `€${shipping.toFixed(2)}`}</span>
-                </div>
-                <div className="flex justify-between text-lg font-bold text-[#39FF14]">
-                  <span>Total</span>
-                  <span>€{total.toFixed(2)}</span>
-                </div>
-              </div>
+              {cart.delivery_options.length > 0 ? (
+                <ul className="space-y-3 mb-6">
+                  {cart.delivery_options.map((option) => (
+                    <li key={option.handle} className="flex justify-between">
+                      <span>{option.title}</span>
+                      <span>{option.cost === 0 ? 'FREE' : formatEuro(option.cost)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-400 mb-6">Shipping options are shown at checkout.</p>
+              )}
+
+              <p className="text-gray-400 text-sm mb-6">
+                You choose the shipping method and pay on Shopify&apos;s secure checkout.
+              </p>
+
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => window.location.assign(cart.checkout_url)}
+                className="w-full bg-[#39FF14] text-black py-4 rounded-lg font-bold text-lg hover:bg-[#32E60A] transition-colors"
+              >
+                Proceed to Payment
+              </motion.button>
+              <button
+                onClick={() => setStep('details')}
+                className="w-full mt-4 text-gray-400 hover:text-white text-sm"
+              >
+                Edit delivery details
+              </button>
+            </div>
+          )}
+
+          {/* Order Summary */}
+          <div className="bg-black/90 border border-gray-800 rounded-2xl p-8">
+            <h2 className="text-2xl font-bold mb-6">Order Summary</h2>
 
-              {subtotal < 50 && (
-                <div className="mt-4 p-3 bg-[#39FF14]/10 border border-[#39FF14]/30 rounded-lg">
-                  <p className="text-sm text-[#39FF14]">
-                    Add €{(50 - subtotal).toFixed(2)} more for free shipping!
-                  </p>
+            <div className="space-y-4 mb-6">
+              {cart.lines.map((line) => (
+                <div key={line.id} className="flex justify-between items-center">
+                  <div>
+                    <h3 className="font-medium">{line.product_title}</h3>
+                    {line.variant_title !== 'Default Title' && (
+                      <p className="text-gray-400 text-sm">{line.variant_title}</p>
+                    )}
+                    <div className="flex items-center gap-3 text-gray-400 text-sm mt-1">
+                      <button
+                        aria-label="Decrease quantity"
+                        disabled={updateLine.isPending}
+                        onClick={() => updateLine.mutate({ lineId: line.id, quantity: line.quantity - 1 })}
+                        className="hover:text-white disabled:opacity-50"
+                      >
+                        −
+                      </button>
+                      <span>Qty: {line.quantity}</span>
+                      <button
+                        aria-label="Increase quantity"
+                        disabled={updateLine.isPending}
+                        onClick={() => updateLine.mutate({ lineId: line.id, quantity: line.quantity + 1 })}
+                        className="hover:text-white disabled:opacity-50"
+                      >
+                        +
+                      </button>
+                    </div>
+                  </div>
+                  <span className="font-bold">{formatEuro(line.total)}</span>
                 </div>
-              )}
+              ))}
             </div>
-          </motion.div>
-        )}
-
-        {step === 'success' && (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="text-center max-w-2xl mx-auto"
-          >
-            <div className="bg-black/90 border border-gray-800 rounded-2xl p-12">
-              <div className="w-20 h-20 bg-[#39FF14] rounded-full flex items-center justify-center mx-auto mb-6">
-                <span className="text-4xl">✓</span>
-              </div>
-              
-              <h2 className="text-3xl font-bold mb-4 text-[#39FF14]">
-                Payment Successful!
-              </h2>
-              
-              <p className="text-gray-400 mb-8">
-                Your order has been processed and you'll receive a confirmation email shortly.
-              </p>
 
-              <div className="bg-[#39FF14]/10 border border-[#39FF14]/30 rounded-xl p-6 mb-8">
-                <h3 className="font-bold mb-2">Loyalty Points Earned!</h3>
-                <p className="text-[#39FF14] text-xl font-bold">
-                  +{Math.floor(total * 2)} Points
-                </p>
-                <p className="text-sm text-gray-400 mt-2">
-                  Points will be added to your account within 24 hours
-                </p>
-              </div>
+            {updateLine.error && (
+              <p className="text-red-400 text-sm mb-4">{updateLine.error.message}</p>
+            )}
 
-              <div className="flex flex-col sm:flex-row gap-4 justify-center">
-                <button
-                  onClick={() => router.push('/account')}
-                  className="bg-[#39FF14] text-black px-8 py-4 rounded-full font-bold hover:bg-[#32E60A] transition-colors"
-                >
-                  View Account
-                </button>
-                <button
-                  onClick={() => router.push('/')}
-                  className="border border-[#39FF14] text-[#39FF14] px-8 py-4 rounded-full font-bold hover:bg-[#39FF14] hover:text-black transition-colors"
-                >
-                  Continue Shopping
-                </button>
+            <div className="border-t border-gray-800 pt-4 space-y-2">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatEuro(cart.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Shipping</span>
+                <span>
+                  {!shipping
+                    ? 'Calculated at checkout'
+                    : shipping.cost === 0
+                      ? 'FREE'
+                      : `${selectedDelivery ? '' : 'from '}${formatEuro(shipping.cost)}`}
+                </span>
+              </div>
+              {cart.tax !== null && cart.tax > 0 && (
+                <div className="flex justify-between text-gray-400 text-sm">
+                  <span>Taxes</span>
+                  <span>{formatEuro(cart.tax)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-bold text-[#39FF14]">
+                <span>Total</span>
+                <span>{formatEuro(cart.total)}</span>
               </div>
             </div>
-          </motion.div>
-        )}
+          </div>
+        </motion.div>
       </div>
     </div>
   );
 }
-
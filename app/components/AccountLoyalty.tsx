@@ -0,0 +1,61 @@
+import type {LoyaltySummary} from '~/lib/loyalty.server';
+import {Link} from '~/components/Link';
+
+export function LoyaltyTierProgress({summary}: {summary: LoyaltySummary}) {
+  const unit = summary.basis === 'spend' ? '€' : 'points';
+
+  return (
+    <div>
+      <div className="h-2 w-full rounded bg-primary/10">
+        <div
+          className="h-2 rounded bg-primary"
+          style={{width: `${Math.round(summary.progress * 100)}%`}}
+        />
+      </div>
+      <p className="mt-2 text-sm text-primary/50">
+        {summary.next_tier
+          ? `${summary.to_next_tier} ${unit} to ${summary.next_tier} (last ${summary.window_months} months)`
+          : 'You have reached the highest tier.'}
+      </p>
+      {summary.grace_until && (
+        <p className="mt-1 text-sm text-primary/50">
+          Your {summary.tier} tier is kept until{' '}
+          {new Date(summary.grace_until).toLocaleDateString()}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function AccountLoyalty({summary}: {summary: LoyaltySummary | null}) {
+  return (
+    <div className="grid w-full gap-4 p-4 py-6 md:gap-8 md:p-8 lg:p-12">
+      <h3 className="font-bold text-lead">Loyalty</h3>
+      <div className="lg:p-8 p-6 border border-gray-200 rounded">
+        {summary ? (
+          <>
+            <div className="flex">
+              <h3 className="font-bold text-base flex-1">
+                {summary.points} points
+              </h3>
+              <Link
+                prefetch="intent"
+                className="underline text-sm font-normal"
+                to="/account/loyalty"
+              >
+                History and member code
+              </Link>
+            </div>
+            <div className="mt-4 text-sm text-primary/50">Tier</div>
+            <p className="mt-1 mb-2 capitalize">{summary.tier}</p>
+            <LoyaltyTierProgress summary={summary} />
+          </>
+        ) : (
+          <p className="text-sm text-primary/50">
+            Earn points with your first order.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import clsx from 'clsx';
-import {useRef} from 'react';
+import {useEffect, useRef} from 'react';
+import {useFetcher} from '@remix-run/react';
 import useScroll from 'react-use/esm/useScroll';
 import {
   flattenConnection,
@@ -22,7 +23,8 @@ import {Text, Heading} from '~/components/Text';
 import {Link} from '~/components/Link';
 import {IconRemove} from '~/components/Icon';
 import {FeaturedProducts} from '~/components/FeaturedProducts';
-import {getInputStyleClasses} from '~/lib/utils';
+import {getInputStyleClasses, usePrefixPathWithLocale} from '~/lib/utils';
+import type {LoyaltyQuote} from '~/lib/loyalty.server';
 
 type Layouts = 'page' | 'drawer';
 
@@ -126,10 +128,94 @@ function CartDiscounts({
           </button>
         </div>
       </UpdateDiscountForm>
+
+      <CartLoyaltyPoints discountCodes={codes} />
     </>
   );
 }
 
+/**
+ * "Use my points" control for signed in loyalty members
+ * Redeems points for a single-use code through the DiscountCodesUpdate cart action
+ * @param discountCodes the current discount codes, kept when the new code is applied
+ */
+function CartLoyaltyPoints({discountCodes}: {discountCodes: string[]}) {
+  const {load, data} = useFetcher<{quote: LoyaltyQuote | null}>();
+  const loyaltyApiPath = usePrefixPathWithLocale('/api/loyalty');
+  const appliedCodes = discountCodes.join(',');
+
+  // Reload the balance whenever the applied codes change, e.g. after redeeming
+  useEffect(() => {
+    load(loyaltyApiPath);
+  }, [load, loyaltyApiPath, appliedCodes]);
+
+  const quote = data?.quote;
+  if (!quote || quote.balance <= 0) return null;
+
+  const toEuro = (points: number) => ({
+    amount: (Math.floor((points / quote.points_per_euro) * 100) / 100).toFixed(
+      2,
+    ),
+    currencyCode: 'EUR' as const,
+  });
+
+  return (
+    <CartForm
+      route="/cart"
+      action={CartForm.ACTIONS.DiscountCodesUpdate}
+      inputs={{discountCodes}}
+    >
+      {(fetcher) => (
+        <div className="grid gap-2">
+          <div className="flex items-center justify-between font-medium">
+            <Text as="span">Loyalty points</Text>
+            <Text as="span" data-test="loyalty-balance">
+              {quote.balance} pts ={' '}
+              <Money as="span" data={toEuro(quote.balance)} />
+            </Text>
+          </div>
+          {quote.options.length > 0 ? (
+            <div className="flex items-center gap-4 justify-between text-copy">
+              <select
+                className={getInputStyleClasses()}
+                name="redeemPoints"
+                defaultValue={quote.redeemable_points}
+                aria-label="Points to redeem"
+              >
+                {quote.options.map((points) => (
+                  <option key={points} value={points}>
+                    {points} pts = €{toEuro(points).amount}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="flex justify-end font-medium whitespace-nowrap"
+                disabled={fetcher.state !== 'idle'}
+              >
+                Use my points
+              </button>
+            </div>
+          ) : (
+            <Text size="fine" color="subtle">
+              Collect {quote.min_points} points to redeem a discount
+            </Text>
+          )}
+          {fetcher.data?.loyaltyError && (
+            <Text size="fine" color="notice">
+              {fetcher.data.loyaltyError}
+            </Text>
+          )}
+          {fetcher.data?.redeemedCode && (
+            <Text as="span" className="font-medium" data-test="loyalty-code">
+              {fetcher.data.redeemedCode}
+            </Text>
+          )}
+        </div>
+      )}
+    </CartForm>
+  );
+}
+
 function UpdateDiscountForm({
   discountCodes,
   children,
@@ -0,0 +1,12 @@
+// Minimal customer lookup used to match a Customer Account to its loyalty member.
+// NOTE: https://shopify.dev/docs/api/customer/latest/queries/customer
+export const CUSTOMER_LOYALTY_IDENTITY_QUERY = `#graphql
+  query CustomerLoyaltyIdentity {
+    customer {
+      id
+      emailAddress {
+        emailAddress
+      }
+    }
+  }
+` as const;
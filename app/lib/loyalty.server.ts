@@ -0,0 +1,392 @@
+import {parseGid} from '@shopify/hydrogen';
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+import {CUSTOMER_LOYALTY_IDENTITY_QUERY} from '~/graphql/customer-account/CustomerLoyaltyIdentityQuery';
+
+import {
+  getMemberQrData,
+  getTierProgress,
+  getTierThreshold,
+  parseLoyaltyRules,
+} from '../../supabase/functions/_shared/loyalty-rules';
+
+/**
+ * Points balance of the signed in customer and what it is worth as a discount.
+ * Returned by the `points-redeem` edge function.
+ */
+export type LoyaltyQuote = {
+  user_id: string | null;
+  balance: number;
+  redeemable_points: number;
+  euro_value: number;
+  options: number[];
+  min_points: number;
+  points_per_euro: number;
+};
+
+export type LoyaltyRedemption = {
+  discount_code: string;
+  points_redeemed: number;
+  value: number;
+  balance: number;
+  expires_at: string;
+};
+
+/**
+ * Balance and tier of the signed in customer's loyalty member, the same values the
+ * Next.js account page shows.
+ */
+export type LoyaltySummary = {
+  user_id: string;
+  points: number;
+  tier: string;
+  streak: number;
+  /** Points (or € with a spend basis) earned in the qualification window */
+  qualifying_value: number;
+  basis: 'points' | 'spend';
+  window_months: number;
+  grace_until: string | null;
+  next_tier: string | null;
+  next_tier_threshold: number | null;
+  to_next_tier: number;
+  progress: number;
+  qr_data: string;
+};
+
+export type LoyaltyLedgerEntry = {
+  id: string;
+  order_id: string;
+  points: number;
+  source: string;
+  amount: number;
+  created_at: string;
+};
+
+export type LoyaltyLedgerPage = {
+  entries: LoyaltyLedgerEntry[];
+  /** created_at of the last entry when there are older ones */
+  next_before: string | null;
+};
+
+type PointsRedeemRequest =
+  | {method: 'GET'; params: Record<string, string>}
+  | {method: 'POST'; body: Record<string, unknown>};
+
+export class LoyaltyError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+type CustomerIdentity = {
+  email: string | null;
+  /** Numeric customer id, the same one order webhooks carry */
+  shopifyCustomerId: string;
+};
+
+/**
+ * Resolve the signed in Customer Account, or null for guests.
+ */
+async function getCustomerIdentity(
+  context: AppLoadContext,
+): Promise<CustomerIdentity | null> {
+  if (!(await context.customerAccount.isLoggedIn())) return null;
+
+  const {data} = await context.customerAccount.query(
+    CUSTOMER_LOYALTY_IDENTITY_QUERY,
+  );
+  if (!data?.customer) return null;
+
+  return {
+    email: data.customer.emailAddress?.emailAddress ?? null,
+    shopifyCustomerId: parseGid(data.customer.id).id,
+  };
+}
+
+async function callPointsRedeem<T>(
+  env: Env,
+  init: PointsRedeemRequest,
+): Promise<T> {
+  const url = new URL(`${env.SUPABASE_URL}/functions/v1/points-redeem`);
+  if (init.method === 'GET') {
+    Object.entries(init.params).forEach(([key, value]) =>
+      url.searchParams.set(key, value),
+    );
+  }
+
+  const response = await fetch(url, {
+    method: init.method,
+    headers: {
+      Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: init.method === 'POST' ? JSON.stringify(init.body) : undefined,
+  });
+
+  const result = (await response.json()) as T & {error?: string};
+  if (!response.ok) {
+    throw new LoyaltyError(
+      result.error ?? 'Loyalty service error',
+      response.status,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Live balance for the cart drawer. Guests and misconfigured shops get null.
+ */
+export async function getLoyaltyQuote(
+  context: AppLoadContext,
+): Promise<LoyaltyQuote | null> {
+  if (!context.env.SUPABASE_URL) return null;
+
+  const customer = await getCustomerIdentity(context);
+  if (!customer) return null;
+
+  return callPointsRedeem<LoyaltyQuote>(context.env, {
+    method: 'GET',
+    params: {
+      shopify_customer_id: customer.shopifyCustomerId,
+      ...(customer.email && {email: customer.email}),
+    },
+  });
+}
+
+/**
+ * Exchange points for a single-use discount code.
+ */
+export async function redeemLoyaltyPoints(
+  context: AppLoadContext,
+  points: number,
+): Promise<LoyaltyRedemption> {
+  const customer = await getCustomerIdentity(context);
+  if (!customer) {
+    throw new LoyaltyError('Sign in to use your loyalty points', 401);
+  }
+
+  return callPointsRedeem<LoyaltyRedemption>(context.env, {
+    method: 'POST',
+    body: {
+      shopify_customer_id: customer.shopifyCustomerId,
+      email: customer.email,
+      points,
+    },
+  });
+}
+
+async function callSupabaseRest<T>(
+  env: Env,
+  path: string,
+  init: {method: 'GET' | 'POST'; body?: Record<string, unknown>},
+): Promise<T> {
+  const response = await fetch(`${env.SUPABASE_URL}/rest/v1/${path}`, {
+    method: init.method,
+    headers: {
+      apikey: env.SUPABASE_SERVICE_ROLE_KEY,
+      Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+
+  const result = (await response.json()) as T & {message?: string};
+  if (!response.ok) {
+    throw new LoyaltyError(
+      result.message ?? 'Loyalty service error',
+      response.status,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Birth date (YYYY-MM-DD) stored for the signed in customer's birthday bonus.
+ */
+export async function getMemberBirthDate(
+  context: AppLoadContext,
+): Promise<string | null> {
+  const userId = await findLoyaltyMemberId(context);
+  if (!userId) return null;
+
+  const rows = await callSupabaseRest<Array<{birth_date: string | null}>>(
+    context.env,
+    `users?id=eq.${userId}&select=birth_date`,
+    {method: 'GET'},
+  );
+
+  return rows[0]?.birth_date ?? null;
+}
+
+/**
+ * Store (or clear with null) the signed in customer's birth date, on the member linked
+ * to their customer id (created on first use, as at sign-in).
+ */
+export async function updateMemberBirthDate(
+  context: AppLoadContext,
+  birthDate: string | null,
+): Promise<void> {
+  const customer = await getCustomerIdentity(context);
+  if (!customer) {
+    throw new LoyaltyError('Sign in to update your birthday', 401);
+  }
+
+  const userId = await callSupabaseRest<string | null>(
+    context.env,
+    'rpc/resolve_loyalty_member',
+    {
+      method: 'POST',
+      body: {
+        p_customer_id: customer.shopifyCustomerId,
+        p_email: customer.email,
+      },
+    },
+  );
+  if (!userId) {
+    throw new LoyaltyError('No loyalty membership for this account', 404);
+  }
+
+  await callSupabaseRest<string | null>(
+    context.env,
+    'rpc/set_member_birth_date',
+    {method: 'POST', body: {p_user_id: userId, p_birth_date: birthDate}},
+  );
+}
+
+/**
+ * Link the signed in customer to their loyalty member (creating it on first sign-in),
+ * so orders and point lookups match by customer id even after an email change.
+ */
+export async function linkLoyaltyMember(context: AppLoadContext): Promise<void> {
+  if (!context.env.SUPABASE_URL) return;
+
+  const customer = await getCustomerIdentity(context);
+  if (!customer?.email) return;
+
+  await callSupabaseRest<string | null>(
+    context.env,
+    'rpc/resolve_loyalty_member',
+    {
+      method: 'POST',
+      body: {
+        p_customer_id: customer.shopifyCustomerId,
+        p_email: customer.email,
+      },
+    },
+  );
+}
+
+/**
+ * Loyalty member of the signed in customer: Customer Account id first, then email.
+ * Null for guests and for customers who have not earned anything yet.
+ */
+async function findLoyaltyMemberId(
+  context: AppLoadContext,
+): Promise<string | null> {
+  if (!context.env.SUPABASE_URL) return null;
+
+  const customer = await getCustomerIdentity(context);
+  if (!customer) return null;
+
+  return callSupabaseRest<string | null>(
+    context.env,
+    'rpc/find_loyalty_member',
+    {
+      method: 'POST',
+      body: {
+        p_customer_id: customer.shopifyCustomerId,
+        p_email: customer.email,
+      },
+    },
+  );
+}
+
+export async function getLoyaltySummary(
+  context: AppLoadContext,
+): Promise<LoyaltySummary | null> {
+  const userId = await findLoyaltyMemberId(context);
+  if (!userId) return null;
+
+  const [rows, tierStatus, rulesData] = await Promise.all([
+    callSupabaseRest<Array<{points: number; tier: string; streak: number}>>(
+      context.env,
+      `loyalty_points?user_id=eq.${userId}&select=points,tier,streak`,
+      {method: 'GET'},
+    ),
+    callSupabaseRest<{
+      tier: string;
+      qualifying_value: number;
+      basis: 'points' | 'spend';
+      window_months: number;
+      grace_until: string | null;
+    }>(context.env, 'rpc/get_tier_status', {
+      method: 'POST',
+      body: {p_user_id: userId},
+    }),
+    callSupabaseRest<unknown>(context.env, 'rpc/get_loyalty_rules', {
+      method: 'POST',
+      body: {},
+    }),
+  ]);
+
+  // Tier progress is measured on the rolling qualification window, not the balance
+  const rules = parseLoyaltyRules(rulesData);
+  const qualifyingValue = Number(tierStatus.qualifying_value ?? 0);
+  const progress = getTierProgress(rules, qualifyingValue);
+
+  return {
+    user_id: userId,
+    points: rows[0]?.points ?? 0,
+    tier: tierStatus.tier,
+    streak: rows[0]?.streak ?? 0,
+    qualifying_value: qualifyingValue,
+    basis: tierStatus.basis,
+    window_months: tierStatus.window_months,
+    grace_until: tierStatus.grace_until,
+    next_tier: progress.nextTier?.name ?? null,
+    next_tier_threshold: progress.nextTier
+      ? getTierThreshold(rules, progress.nextTier)
+      : null,
+    to_next_tier: progress.pointsToNext,
+    progress: progress.progress,
+    qr_data: getMemberQrData(userId),
+  };
+}
+
+/**
+ * One page of the member's points ledger, newest first. Pass the previous page's
+ * next_before to continue.
+ */
+export async function getLoyaltyLedger(
+  context: AppLoadContext,
+  userId: string,
+  {limit = 20, before}: {limit?: number; before?: string | null} = {},
+): Promise<LoyaltyLedgerPage> {
+  const params = new URLSearchParams({
+    user_id: `eq.${userId}`,
+    select: 'id,order_id,points,source,amount,created_at',
+    order: 'created_at.desc,id.desc',
+    limit: String(limit + 1),
+  });
+  if (before && !Number.isNaN(Date.parse(before))) {
+    params.set('created_at', `lt.${before}`);
+  }
+
+  const rows = await callSupabaseRest<LoyaltyLedgerEntry[]>(
+    context.env,
+    `loyalty_transactions?${params}`,
+    {method: 'GET'},
+  );
+
+  const entries = rows.slice(0, limit);
+  return {
+    entries,
+    next_before:
+      rows.length > limit ? entries[entries.length - 1].created_at : null,
+  };
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { signIn } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
+import { Suspense, useState } from 'react';
+
+// next-auth redirects here with ?error=<code> when a sign-in fails
+const ERROR_MESSAGES: Record<string, string> = {
+  Verification: 'The sign-in link has expired or was already used. Request a new one.',
+  OAuthAccountNotLinked: 'This email is already linked to another sign-in method.',
+  EmailSignin: 'We could not send the sign-in email. Please try again.'
+};
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-black text-white py-12 px-6">
+      <div className="max-w-md mx-auto">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-4 text-[#39FF14]">Sign In</h1>
+          <p className="text-gray-400">See your orders and loyalty points</p>
+        </div>
+
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams.get('callbackUrl') ?? '/account';
+  const error = searchParams.get('error');
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  if (searchParams.get('check-email')) {
+    return (
+      <div className="bg-black/90 border border-gray-800 rounded-2xl p-8 text-center">
+        <h2 className="text-2xl font-bold mb-2">Check your email</h2>
+        <p className="text-gray-400">We sent you a sign-in link. It is valid for 15 minutes.</p>
+      </div>
+    );
+  }
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    signIn('email', { email: email.trim(), callbackUrl });
+  };
+
+  return (
+    <div className="bg-black/90 border border-gray-800 rounded-2xl p-8 space-y-6">
+      {error && (
+        <div className="text-red-400 text-sm">{ERROR_MESSAGES[error] ?? 'Sign-in failed. Please try again.'}</div>
+      )}
+
+      <form onSubmit={submit} className="space-y-4">
+        <input
+          required
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="Email address"
+          aria-label="Email address"
+          className="w-full bg-gray-900 border border-gray-800 rounded-lg px-4 py-3 text-white"
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-6 py-3 rounded-full font-semibold bg-[#39FF14] text-black hover:bg-[#32E60A] transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Sending…' : 'Email me a sign-in link'}
+        </button>
+      </form>
+
+      <div className="text-center text-gray-500 text-sm">or</div>
+
+      <button
+        onClick={() => signIn('shopify', { callbackUrl })}
+        className="w-full px-6 py-3 rounded-full font-semibold border border-gray-700 text-white hover:border-[#39FF14] transition-colors"
+      >
+        Sign in with Shopify
+      </button>
+    </div>
+  );
+}
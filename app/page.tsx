@@ -4,21 +4,38 @@ import React, { Suspense } from 'react';
 import { motion } from 'framer-motion';
 import ProductCard from '@/components/ProductCard';
 import LoyaltyCard from '@/components/LoyaltyCard';
-import { shopify, GET_PRODUCTS_QUERY, mockProducts } from '@/lib/shopify';
+import { useRouter } from 'next/navigation';
+import { QueryProvider } from '@/components/providers/QueryProvider';
+import { useAddToCart } from '@/lib/queries';
+import { fetchProducts, mockProducts } from '@/lib/shopify';
 
 export default function HomePage() {
+  return (
+    <QueryProvider>
+      <Home />
+    </QueryProvider>
+  );
+}
+
+function Home() {
   const [products, setProducts] = React.useState<any[]>(mockProducts);
   const [error, setError] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(true);
+  const router = useRouter();
+  const addToCart = useAddToCart();
+
+  const handleAddToCart = (product: any) => {
+    const variantId = product.variants?.edges?.[0]?.node?.id;
+    addToCart.mutate(
+      { variantId, quantity: 1 },
+      { onSuccess: () => router.push('/checkout') }
+    );
+  };
 
   React.useEffect(() => {
     async function fetchProductsData() {
       try {
-        const { data } = await shopify.query({
-          query: GET_PRODUCTS_QUERY,
-          variables: { first: 6 }
-        });
-        const fetchedProducts = data?.products?.edges?.map((edge: any) => edge.node) || [];
+        const { products: fetchedProducts } = await fetchProducts(6);
         setProducts(fetchedProducts);
       } catch (err) {
         console.error('Error fetching products:', err);
@@ -69,6 +86,12 @@ export default function HomePage() {
             </p>
           </div>
 
+          {addToCart.error && (
+            <div className="bg-red-900/20 border border-red-600/30 rounded-xl p-4 mb-8 text-center">
+              <p className="text-red-400">{addToCart.error.message}</p>
+            </div>
+          )}
+
           {error && (
             <div className="bg-yellow-900/20 border border-yellow-600/30 rounded-xl p-4 mb-8 text-center">
               <p className="text-yellow-400">
@@ -90,7 +113,7 @@ export default function HomePage() {
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
               {products.map((product) => (
-                <ProductCard key={product.id} product={product} />
+                <ProductCard key={product.id} product={product} onAddToCart={handleAddToCart} />
               ))}
             </div>
           )}
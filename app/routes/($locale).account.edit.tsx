@@ -1,6 +1,12 @@
-import {json, redirect, type ActionFunction} from '@shopify/remix-oxygen';
+import {
+  json,
+  redirect,
+  type ActionFunction,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
 import {
   useActionData,
+  useLoaderData,
   Form,
   useOutletContext,
   useNavigation,
@@ -15,6 +21,10 @@ import {Button} from '~/components/Button';
 import {Text} from '~/components/Text';
 import {getInputStyleClasses} from '~/lib/utils';
 import {CUSTOMER_UPDATE_MUTATION} from '~/graphql/customer-account/CustomerUpdateMutation';
+import {
+  getMemberBirthDate,
+  updateMemberBirthDate,
+} from '~/lib/loyalty.server';
 
 import {doLogout} from './($locale).account_.logout';
 
@@ -33,6 +43,7 @@ export interface ActionData {
     currentPassword?: string;
     newPassword?: string;
     newPassword2?: string;
+    birthDate?: string;
   };
 }
 
@@ -47,6 +58,34 @@ export const handle = {
   renderInModal: true,
 };
 
+/**
+ * Validate the `birthDate` form field: a YYYY-MM-DD date that is not in the future.
+ * Returns null when the field was left empty (clears the stored date).
+ */
+const parseBirthDate = (value: string) => {
+  if (!value) return null;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(date.getTime()) ||
+    date.getUTCFullYear() < 1900 ||
+    date > new Date()
+  ) {
+    throw new Error('Enter a valid birth date');
+  }
+
+  return value;
+};
+
+export async function loader({context}: LoaderFunctionArgs) {
+  // The birth date lives in Supabase (birthday bonus), not on the Shopify customer
+  return json({
+    birthdayEnabled: Boolean(context.env.SUPABASE_URL),
+    birthDate: await getMemberBirthDate(context).catch(() => null),
+  });
+}
+
 export const action: ActionFunction = async ({request, context, params}) => {
   const formData = await request.formData();
 
@@ -56,6 +95,20 @@ export const action: ActionFunction = async ({request, context, params}) => {
     throw await doLogout(context);
   }
 
+  if (formData.has('birthDate') && context.env.SUPABASE_URL) {
+    try {
+      const birthDate = parseBirthDate(formData.get('birthDate') as string);
+      await updateMemberBirthDate(context, birthDate);
+    } catch (error: any) {
+      return json(
+        {fieldErrors: {birthDate: error?.message}},
+        {
+          status: 400,
+        },
+      );
+    }
+  }
+
   try {
     const customer: CustomerUpdateInput = {};
 
@@ -103,6 +156,7 @@ export const action: ActionFunction = async ({request, context, params}) => {
  */
 export default function AccountDetailsEdit() {
   const actionData = useActionData<ActionData>();
+  const {birthdayEnabled, birthDate} = useLoaderData<typeof loader>();
   const {customer} = useOutletContext<AccountOutletContext>();
   const {state} = useNavigation();
 
@@ -141,6 +195,30 @@ export default function AccountDetailsEdit() {
             defaultValue={customer.lastName ?? ''}
           />
         </div>
+        {birthdayEnabled && (
+          <div className="mt-3">
+            <label className="text-sm text-primary/50" htmlFor="birthDate">
+              Birthday (for your birthday bonus points)
+            </label>
+            <input
+              className={getInputStyleClasses(
+                actionData?.fieldErrors?.birthDate,
+              )}
+              id="birthDate"
+              name="birthDate"
+              type="date"
+              autoComplete="bday"
+              aria-label="Birthday"
+              max={new Date().toISOString().slice(0, 10)}
+              defaultValue={birthDate ?? ''}
+            />
+            {actionData?.fieldErrors?.birthDate && (
+              <p className="text-red-500 text-xs">
+                {actionData.fieldErrors.birthDate}
+              </p>
+            )}
+          </div>
+        )}
         <div className="mt-6">
           <Button
             className="text-sm mb-2"
@@ -0,0 +1,149 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {useLoaderData, type MetaFunction} from '@remix-run/react';
+import {QRCodeSVG} from 'qrcode.react';
+
+import {Link} from '~/components/Link';
+import {PageHeader, Text} from '~/components/Text';
+import {LoyaltyTierProgress} from '~/components/AccountLoyalty';
+import {CACHE_NONE} from '~/data/cache';
+import {
+  getLoyaltyLedger,
+  getLoyaltySummary,
+  type LoyaltyLedgerEntry,
+} from '~/lib/loyalty.server';
+
+import {doLogout} from './($locale).account_.logout';
+
+const SOURCE_LABELS: Record<string, string> = {
+  shopify: 'Order',
+  qr: 'In-store purchase',
+  manual: 'Adjustment',
+  bonus: 'Bonus',
+  redemption: 'Redeemed',
+  reversal: 'Refund',
+  expiry: 'Expired',
+};
+
+export const meta: MetaFunction = () => {
+  return [{title: 'Loyalty'}];
+};
+
+export async function loader({request, context}: LoaderFunctionArgs) {
+  if (!(await context.customerAccount.isLoggedIn())) {
+    throw await doLogout(context);
+  }
+
+  // Same member as the Next.js account page: looked up by Customer Account id
+  const summary = await getLoyaltySummary(context);
+  const before = new URL(request.url).searchParams.get('before');
+  const ledger = summary
+    ? await getLoyaltyLedger(context, summary.user_id, {before})
+    : {entries: [], next_before: null};
+
+  return json(
+    {summary, ledger, isFirstPage: !before},
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+export default function AccountLoyaltyRoute() {
+  const {summary, ledger, isFirstPage} = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <PageHeader heading="Loyalty">
+        <Link to="/account">Return to Account Overview</Link>
+      </PageHeader>
+      <div className="grid w-full gap-8 p-4 py-6 md:p-8 lg:p-12 lg:grid-cols-3">
+        {summary ? (
+          <>
+            <div className="lg:col-span-2">
+              <Text as="p" size="lead" className="font-bold">
+                {summary.points} points
+              </Text>
+              <Text as="p" className="mt-1 mb-4 capitalize">
+                {summary.tier}
+                {summary.streak > 1 &&
+                  ` · ${summary.streak} month purchase streak`}
+              </Text>
+              <LoyaltyTierProgress summary={summary} />
+              <h3 className="mt-10 mb-4 font-bold text-lead">History</h3>
+              <LoyaltyLedger entries={ledger.entries} />
+              <div className="flex gap-6 mt-6 text-sm">
+                {!isFirstPage && (
+                  <Link className="underline" to="/account/loyalty">
+                    Newest
+                  </Link>
+                )}
+                {ledger.next_before && (
+                  <Link
+                    className="underline"
+                    to={`/account/loyalty?before=${encodeURIComponent(
+                      ledger.next_before,
+                    )}`}
+                  >
+                    Older
+                  </Link>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-col items-center p-6 border border-gray-200 rounded self-start">
+              <QRCodeSVG value={summary.qr_data} size={192} />
+              <Text as="p" size="fine" className="mt-4 text-center">
+                Show this code at the counter to earn points on in-store
+                purchases.
+              </Text>
+            </div>
+          </>
+        ) : (
+          <Text as="p" className="text-primary/50">
+            You don&apos;t have loyalty points yet. You earn points with your
+            first order.
+          </Text>
+        )}
+      </div>
+    </>
+  );
+}
+
+function LoyaltyLedger({entries}: {entries: LoyaltyLedgerEntry[]}) {
+  if (!entries.length) {
+    return (
+      <Text as="p" size="fine" className="text-primary/50">
+        No transactions yet.
+      </Text>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-primary/50 border-b border-primary/10">
+          <th className="py-2 font-normal">Date</th>
+          <th className="py-2 font-normal">Description</th>
+          <th className="py-2 font-normal text-right">Points</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.id} className="border-b border-primary/10">
+            <td className="py-2">
+              {new Date(entry.created_at).toLocaleDateString()}
+            </td>
+            <td className="py-2">
+              {SOURCE_LABELS[entry.source] ?? entry.source}
+              {entry.source === 'shopify' && ` ${entry.order_id}`}
+            </td>
+            <td className="py-2 text-right">
+              {entry.points > 0 ? `+${entry.points}` : entry.points}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
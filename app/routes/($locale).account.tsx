@@ -18,6 +18,7 @@ import {PageHeader, Text} from '~/components/Text';
 import {Button} from '~/components/Button';
 import {OrderCard} from '~/components/OrderCard';
 import {AccountDetails} from '~/components/AccountDetails';
+import {AccountLoyalty} from '~/components/AccountLoyalty';
 import {AccountAddressBook} from '~/components/AccountAddressBook';
 import {Modal} from '~/components/Modal';
 import {ProductSwimlane} from '~/components/ProductSwimlane';
@@ -25,6 +26,7 @@ import {FeaturedCollections} from '~/components/FeaturedCollections';
 import {usePrefixPathWithLocale} from '~/lib/utils';
 import {CACHE_NONE, routeHeaders} from '~/data/cache';
 import {CUSTOMER_DETAILS_QUERY} from '~/graphql/customer-account/CustomerDetailsQuery';
+import {getLoyaltySummary, type LoyaltySummary} from '~/lib/loyalty.server';
 
 import {doLogout} from './($locale).account_.logout';
 import {
@@ -59,6 +61,8 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
       customer,
       heading,
       featuredDataPromise: getFeaturedData(context.storefront),
+      // The account page still renders when the loyalty service is down
+      loyaltyPromise: getLoyaltySummary(context).catch(() => null),
     },
     {
       headers: {
@@ -100,10 +104,16 @@ export default function Authenticated() {
 interface AccountType {
   customer: CustomerDetailsFragment;
   featuredDataPromise: Promise<FeaturedData>;
+  loyaltyPromise: Promise<LoyaltySummary | null>;
   heading: string;
 }
 
-function Account({customer, heading, featuredDataPromise}: AccountType) {
+function Account({
+  customer,
+  heading,
+  featuredDataPromise,
+  loyaltyPromise,
+}: AccountType) {
   const orders = flattenConnection(customer.orders);
   const addresses = flattenConnection(customer.addresses);
 
@@ -117,6 +127,11 @@ function Account({customer, heading, featuredDataPromise}: AccountType) {
         </Form>
       </PageHeader>
       {orders && <AccountOrderHistory orders={orders} />}
+      <Suspense>
+        <Await resolve={loyaltyPromise} errorElement={null}>
+          {(summary) => <AccountLoyalty summary={summary} />}
+        </Await>
+      </Suspense>
       <AccountDetails customer={customer} />
       <AccountAddressBook addresses={addresses} customer={customer} />
       {!orders.length && (
@@ -1,5 +1,14 @@
 import type {LoaderFunctionArgs} from '@shopify/remix-oxygen';
 
+import {linkLoyaltyMember} from '~/lib/loyalty.server';
+
 export async function loader({context, params}: LoaderFunctionArgs) {
-  return context.customerAccount.authorize();
+  const response = await context.customerAccount.authorize();
+
+  // A loyalty outage must not block sign-in; the next order webhook links the member too
+  await linkLoyaltyMember(context).catch((error) =>
+    console.error('Failed to link loyalty member', error),
+  );
+
+  return response;
 }
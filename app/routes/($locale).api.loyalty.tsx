@@ -0,0 +1,33 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {getLoyaltyQuote} from '~/lib/loyalty.server';
+
+/**
+ * Loyalty balance of the signed in customer, used by the cart drawer.
+ * Responds with `{quote: null}` for guests or when the loyalty service is unavailable.
+ */
+export async function loader({context}: LoaderFunctionArgs) {
+  let quote = null;
+
+  try {
+    quote = await getLoyaltyQuote(context);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(error);
+  }
+
+  return json(
+    {quote},
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+// no-op
+export default function LoyaltyApiRoute() {
+  return null;
+}
@@ -8,6 +8,11 @@ import {
 import {CartForm, type CartQueryDataReturn, Analytics} from '@shopify/hydrogen';
 
 import {isLocalPath} from '~/lib/utils';
+import {
+  LoyaltyError,
+  type LoyaltyRedemption,
+  redeemLoyaltyPoints,
+} from '~/lib/loyalty.server';
 import {Cart} from '~/components/Cart';
 
 export async function action({request, context}: ActionFunctionArgs) {
@@ -20,6 +25,10 @@ export async function action({request, context}: ActionFunctionArgs) {
 
   let status = 200;
   let result: CartQueryDataReturn;
+  let loyaltyError: string | undefined;
+  let redemption: LoyaltyRedemption | undefined;
+  /** Redeemed code that could not be added to the cart, shown to the member instead */
+  let redeemedCode: string | undefined;
 
   switch (action) {
     case CartForm.ACTIONS.LinesAdd:
@@ -39,10 +48,49 @@ export async function action({request, context}: ActionFunctionArgs) {
         formDiscountCode ? [formDiscountCode] : []
       ) as string[];
 
+      // Loyalty points exchanged for a single-use discount code
+      const redeemPoints = Number(inputs.redeemPoints ?? 0);
+      if (redeemPoints > 0) {
+        try {
+          redemption = await redeemLoyaltyPoints(context, redeemPoints);
+          discountCodes.push(redemption.discount_code);
+        } catch (error) {
+          loyaltyError =
+            error instanceof LoyaltyError
+              ? error.message
+              : 'Your points could not be redeemed. Please try again.';
+        }
+      }
+
       // Combine discount codes already applied on cart
       discountCodes.push(...inputs.discountCodes);
 
-      result = await cart.updateDiscountCodes(discountCodes);
+      try {
+        result = await cart.updateDiscountCodes(discountCodes);
+      } catch (error) {
+        if (!redemption) throw error;
+        // The points are already spent, so the member must still get the code
+        return json(
+          {
+            cart: null,
+            userErrors: [],
+            errors: [],
+            loyaltyError: unappliedCodeMessage(redemption),
+            redeemedCode: redemption.discount_code,
+          },
+          {status: 502},
+        );
+      }
+
+      if (
+        redemption &&
+        !result.cart?.discountCodes?.some(
+          ({code}) => code === redemption?.discount_code,
+        )
+      ) {
+        loyaltyError = unappliedCodeMessage(redemption);
+        redeemedCode = redemption.discount_code;
+      }
       break;
     case CartForm.ACTIONS.BuyerIdentityUpdate:
       result = await cart.updateBuyerIdentity({
@@ -72,11 +120,18 @@ export async function action({request, context}: ActionFunctionArgs) {
       cart: cartResult,
       userErrors,
       errors,
+      loyaltyError,
+      redeemedCode,
     },
     {status, headers},
   );
 }
 
+function unappliedCodeMessage(redemption: LoyaltyRedemption) {
+  const validUntil = new Date(redemption.expires_at).toLocaleDateString();
+  return `Your points were redeemed as ${redemption.discount_code}, but the code could not be added to your cart. Enter it at checkout before ${validUntil}.`;
+}
+
 export async function loader({context}: LoaderFunctionArgs) {
   const {cart} = context;
   return json(await cart.get());
@@ -0,0 +1,38 @@
+import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+/**
+ * Referral links shared by loyalty members
+ * Stores the code as the cart attribute `referral_code`; Shopify copies it to the order's
+ * note_attributes and the orders/paid webhook awards the referral bonuses
+ * @param ?redirect an optional path to return to otherwise return to the home page
+ * @example
+ * ```ts
+ * /ref/3FA9B21C?redirect=/collections/all
+ * ```
+ */
+export async function loader({request, context, params}: LoaderFunctionArgs) {
+  const {cart} = context;
+  const {code} = params;
+
+  const url = new URL(request.url);
+  let redirectParam = url.searchParams.get('redirect') || '/';
+
+  if (redirectParam.includes('//')) {
+    // Avoid redirecting to external URLs to prevent phishing attacks
+    redirectParam = '/';
+  }
+
+  if (!code || !/^[A-Za-z0-9]{4,16}$/.test(code)) {
+    return redirect(redirectParam);
+  }
+
+  const result = await cart.updateAttributes([
+    {key: 'referral_code', value: code.toUpperCase()},
+  ]);
+  const headers = cart.setCartId(result.cart.id);
+
+  return redirect(redirectParam, {
+    status: 303,
+    headers,
+  });
+}
@@ -2,48 +2,60 @@
 
 import React from 'react'
 import { motion } from 'framer-motion'
-import { formatCurrency, getTierFromPoints } from '@/lib/utils'
+import { formatCurrency, formatNumber, getTierFromPoints } from '@/lib/utils'
+import { useLoyaltyRules, usePointsExpiry, useTierStatus } from '@/lib/queries'
+import { DEFAULT_LOYALTY_RULES } from '@/lib/loyalty'
+import { getNextStreakMilestone, getPointsPerEuro, getTierRule } from '@/supabase/functions/_shared/loyalty-rules'
 
 interface LoyaltyCardProps {
   points?: number
   tier?: 'Bronze' | 'Silver' | 'Gold' | 'VIP'
+  streak?: number
+  userId?: string
   className?: string
 }
 
 export default function LoyaltyCard({ 
   points = 750, 
   tier = 'Silver',
+  streak = 3,
+  userId,
   className 
 }: LoyaltyCardProps) {
-  // Calculate tier info based on points
-  const tierInfo = getTierFromPoints(points)
-  const currentTier = tier || tierInfo.tier
+  // Earn rates and thresholds come from the active loyalty rules
+  const { data: rules = DEFAULT_LOYALTY_RULES } = useLoyaltyRules()
+  const { data: expiry } = usePointsExpiry(userId)
+  const { data: tierStatus } = useTierStatus(userId)
+
+  // Tiers are qualified on the rolling window, not on the balance
+  const qualifyingValue = tierStatus?.qualifying_value ?? points
+  const tierInfo = getTierFromPoints(qualifyingValue, rules)
+  const currentTier = (tierStatus?.tier as LoyaltyCardProps['tier']) || tier || tierInfo.tier
+  const isSpendBasis = rules.qualification.basis === 'spend'
+  const earnRate = `${formatNumber(getPointsPerEuro(rules, currentTier))} pistettä per €1`
+  const nextMilestone = getNextStreakMilestone(rules, streak)
   
   // Tier configurations
   const tierConfig = {
     Bronze: {
-      color: '#CD7F32',
       icon: '🥉',
-      benefits: ['2 pistettä per €1', 'Ilmainen toimitus yli 50€']
+      benefits: [earnRate, 'Ilmainen toimitus yli 50€']
     },
     Silver: {
-      color: '#C0C0C0',
       icon: '🥈',
-      benefits: ['2.5 pistettä per €1', 'Ilmainen toimitus yli 40€', 'Erikoistarjoukset']
+      benefits: [earnRate, 'Ilmainen toimitus yli 40€', 'Erikoistarjoukset']
     },
     Gold: {
-      color: '#FFD700',
       icon: '🥇',
-      benefits: ['3 pistettä per €1', 'Ilmainen toimitus yli 30€', 'Varhainen pääsy tuotteisiin']
+      benefits: [earnRate, 'Ilmainen toimitus yli 30€', 'Varhainen pääsy tuotteisiin']
     },
     VIP: {
-      color: '#66e3a7',
       icon: '💎',
-      benefits: ['4 pistettä per €1', 'Ilmainen toimitus', 'Henkilökohtainen asiakaspalvelu']
+      benefits: [earnRate, 'Ilmainen toimitus', 'Henkilökohtainen asiakaspalvelu']
     }
   }
 
-  const config = tierConfig[currentTier]
+  const config = { ...tierConfig[currentTier], color: getTierRule(rules, currentTier).color }
 
   return (
     <motion.div
@@ -85,6 +97,11 @@ export default function LoyaltyCard({
           <div className="text-[var(--color-fg-secondary)] text-sm">
             pistettä
           </div>
+          {expiry && expiry.points > 0 && expiry.expires_at && (
+            <div className="text-xs text-[var(--color-fg-muted)] mt-1">
+              {formatNumber(expiry.points)} pistettä vanhenee {new Date(expiry.expires_at).toLocaleDateString('fi-FI')}
+            </div>
+          )}
         </div>
       </div>
 
@@ -112,7 +129,14 @@ export default function LoyaltyCard({
         
         {tierInfo.pointsToNext > 0 && (
           <p className="text-xs text-[var(--color-fg-muted)] mt-2">
-            {tierInfo.pointsToNext} pistettä seuraavaan tasoon
+            {isSpendBasis ? formatCurrency(tierInfo.pointsToNext) : `${tierInfo.pointsToNext} pistettä`} seuraavaan tasoon
+            {' '}({rules.qualification.window_months} kk aikana)
+          </p>
+        )}
+
+        {tierStatus?.grace_until && (
+          <p className="text-xs text-[var(--color-fg-muted)] mt-1">
+            {currentTier}-taso voimassa {new Date(tierStatus.grace_until).toLocaleDateString('fi-FI')} asti
           </p>
         )}
       </div>
@@ -136,11 +160,16 @@ export default function LoyaltyCard({
             className="text-lg font-bold"
             style={{ color: config.color }}
           >
-            3
+            {streak}
           </div>
           <div className="text-xs text-[var(--color-fg-secondary)]">
             Streak
           </div>
+          {nextMilestone && (
+            <div className="text-[10px] text-[var(--color-fg-muted)] mt-1">
+              {nextMilestone.streak}: +{formatNumber(nextMilestone.bonus_points)}
+            </div>
+          )}
         </div>
         
         <div className="text-center">
@@ -6,17 +6,27 @@ import { useEffect, useState } from 'react';
 interface QRDisplayProps {
   orderId?: string;
   points?: number;
+  data?: string; // encode this instead of an order/points link, e.g. a referral link
+  title?: string;
+  description?: string;
   className?: string;
 }
 
-export default function QRDisplay({ orderId, points = 0, className = '' }: QRDisplayProps) {
+export default function QRDisplay({
+  orderId,
+  points = 0,
+  data,
+  title = 'QR Code',
+  description = 'Show this QR code to earn loyalty points',
+  className = ''
+}: QRDisplayProps) {
   const [qrCode, setQrCode] = useState<string>('');
   const [copied, setCopied] = useState(false);
 
   // Generate QR code data
-  const qrData = orderId ? 
+  const qrData = data ?? (orderId ? 
     `herbspot://order/${orderId}?points=${points}` : 
-    `herbspot://loyalty/demo?points=${points}`;
+    `herbspot://loyalty/demo?points=${points}`);
 
   useEffect(() => {
     // Simple QR code generation using a placeholder service
@@ -67,7 +77,7 @@ export default function QRDisplay({ orderId, points = 0, className = '' }: QRDis
     };
 
     generateQR();
-  }, [orderId, points]);
+  }, [qrData]);
 
   const copyToClipboard = async () => {
     try {
@@ -86,9 +96,9 @@ export default function QRDisplay({ orderId, points = 0, className = '' }: QRDis
       className={`bg-black/90 border border-gray-800 rounded-2xl p-6 backdrop-blur-sm ${className}`}
     >
       <div className="text-center">
-        <h3 className="text-xl font-bold text-white mb-2">QR Code</h3>
+        <h3 className="text-xl font-bold text-white mb-2">{title}</h3>
         <p className="text-gray-400 text-sm mb-6">
-          Show this QR code to earn loyalty points
+          {description}
         </p>
 
         {/* QR Code */}
@@ -109,14 +119,16 @@ export default function QRDisplay({ orderId, points = 0, className = '' }: QRDis
         </div>
 
         {/* Points Info */}
-        <div className="bg-[#39FF14]/10 border border-[#39FF14]/30 rounded-xl p-4 mb-6">
-          <div className="text-[#39FF14] font-bold text-lg">
-            +{points} Points Available
+        {!data && (
+          <div className="bg-[#39FF14]/10 border border-[#39FF14]/30 rounded-xl p-4 mb-6">
+            <div className="text-[#39FF14] font-bold text-lg">
+              +{points} Points Available
+            </div>
+            <div className="text-gray-400 text-sm">
+              Scan to claim your rewards
+            </div>
           </div>
-          <div className="text-gray-400 text-sm">
-            Scan to claim your rewards
-          </div>
-        </div>
+        )}
 
         {/* Copy Button */}
         <motion.button
@@ -129,19 +141,21 @@ export default function QRDisplay({ orderId, points = 0, className = '' }: QRDis
               : 'bg-[#39FF14] text-black hover:bg-[#32E60A]'
           }`}
         >
-          {copied ? '✓ Copied!' : 'Copy QR Data'}
+          {copied ? '✓ Copied!' : data ? 'Copy Link' : 'Copy QR Data'}
         </motion.button>
 
         {/* Instructions */}
-        <div className="mt-6 text-left">
-          <h4 className="text-sm font-semibold text-white mb-2">How to use:</h4>
-          <ul className="text-xs text-gray-400 space-y-1">
-            <li>• Show QR code at checkout</li>
-            <li>• Staff will scan to add points</li>
-            <li>• Points appear instantly in your account</li>
-            <li>• Redeem points for discounts</li>
-          </ul>
-        </div>
+        {!data && (
+          <div className="mt-6 text-left">
+            <h4 className="text-sm font-semibold text-white mb-2">How to use:</h4>
+            <ul className="text-xs text-gray-400 space-y-1">
+              <li>• Show QR code at checkout</li>
+              <li>• Staff will scan to add points</li>
+              <li>• Points appear instantly in your account</li>
+              <li>• Redeem points for discounts</li>
+            </ul>
+          </div>
+        )}
       </div>
     </motion.div>
   );
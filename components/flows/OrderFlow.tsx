@@ -1,12 +1,19 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Button } from '@/components/ui/Button'
 import { Skeleton, ProductCardSkeleton } from '@/components/ui/Skeleton'
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary'
 import { OrderForm } from '@/components/forms/OrderForm'
-import { useProducts, useAddPoints } from '@/lib/queries'
+import {
+  useConfirmMockPayment,
+  useCreateOrder,
+  useCreatePaymentIntent,
+  useLoyaltyRules,
+  useProducts
+} from '@/lib/queries'
+import { getStripeJs, type StripeElements, type StripeJs } from '@/lib/stripe-js'
 import { formatCurrency, calculatePoints } from '@/lib/utils'
 
 // Flow steps
@@ -25,17 +32,18 @@ export function OrderFlow({ initialStep = 'products', onComplete, className }: O
     quantity: number
     price: number
   }>>([])
-  const [qrCode, setQrCode] = useState<string>('')
-  const [completedOrderId, setCompletedOrderId] = useState<string>('')
+  const [orderId, setOrderId] = useState<string>('')
+  const [pointsEarned, setPointsEarned] = useState<number | null>(null)
 
   const productsQuery = useProducts(20)
-  const addPointsMutation = useAddPoints()
+  const createOrderMutation = useCreateOrder()
+  const rulesQuery = useLoyaltyRules()
 
   // Calculate total amount
   const totalAmount = selectedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0)
 
-  // Calculate estimated points
-  const estimatedPoints = calculatePoints(totalAmount, 'Bronze', !!qrCode)
+  // Calculate estimated points; orders paid here earn the base rate, without a QR bonus
+  const estimatedPoints = calculatePoints(totalAmount, 'Bronze', false, rulesQuery.data)
 
   const handleProductSelect = (productId: string, price: number) => {
     setSelectedItems(prev => {
@@ -63,34 +71,23 @@ export function OrderFlow({ initialStep = 'products', onComplete, className }: O
     }
   }
 
+  // The order is stored as pending and priced by the server; points are credited once
+  // Stripe confirms the payment. Errors are shown by OrderForm.
   const handleOrderSubmit = async (orderData: any) => {
-    try {
-      // Simulate order creation (in real app, this would call your API)
-      const mockOrderId = `ORD-${Date.now()}`
-      
-      // Add loyalty points if QR code provided
-      if (qrCode) {
-        await addPointsMutation.mutateAsync({
-          orderId: mockOrderId,
-          email: orderData.email,
-          amount: totalAmount,
-          qrCode: qrCode,
-          source: 'qr'
-        })
-      }
+    const order = await createOrderMutation.mutateAsync({
+      email: orderData.email,
+      items: selectedItems.map(({ productId, quantity }) => ({ productId, quantity })),
+      shippingAddress: orderData.shippingAddress
+    })
 
-      setCompletedOrderId(mockOrderId)
-      setCurrentStep('confirmation')
-      onComplete?.(mockOrderId)
-    } catch (error) {
-      console.error('Order submission error:', error)
-    }
+    setOrderId(order.id)
+    setCurrentStep('payment')
   }
 
-  const handleQRScan = () => {
-    // Simulate QR code scanning
-    const mockQRCode = `herbspot://qr/${Math.random().toString(36).substr(2, 9)}`
-    setQrCode(mockQRCode)
+  const handlePaymentComplete = (points: number | null) => {
+    setPointsEarned(points)
+    setCurrentStep('confirmation')
+    onComplete?.(orderId)
   }
 
   const flowSteps = [
@@ -169,33 +166,31 @@ export function OrderFlow({ initialStep = 'products', onComplete, className }: O
               <OrderStep
                 selectedItems={selectedItems}
                 totalAmount={totalAmount}
-                qrCode={qrCode}
-                onQRScan={handleQRScan}
                 onOrderSubmit={handleOrderSubmit}
                 onBack={() => setCurrentStep('products')}
-                estimatedPoints={estimatedPoints}
               />
             )}
 
             {currentStep === 'payment' && (
               <PaymentStep
+                orderId={orderId}
                 totalAmount={totalAmount}
-                onPaymentComplete={() => setCurrentStep('confirmation')}
+                onPaymentComplete={handlePaymentComplete}
                 onBack={() => setCurrentStep('order')}
               />
             )}
 
             {currentStep === 'confirmation' && (
               <ConfirmationStep
-                orderId={completedOrderId}
+                orderId={orderId}
                 totalAmount={totalAmount}
-                pointsEarned={estimatedPoints}
-                qrCode={qrCode}
+                pointsEarned={pointsEarned ?? estimatedPoints}
+                pointsPending={pointsEarned === null}
                 onNewOrder={() => {
                   setCurrentStep('products')
                   setSelectedItems([])
-                  setQrCode('')
-                  setCompletedOrderId('')
+                  setOrderId('')
+                  setPointsEarned(null)
                 }}
               />
             )}
@@ -356,21 +351,15 @@ function ProductsStep({
 interface OrderStepProps {
   selectedItems: Array<{ productId: string; quantity: number; price: number }>
   totalAmount: number
-  qrCode: string
-  onQRScan: () => void
-  onOrderSubmit: (data: any) => void
+  onOrderSubmit: (data: any) => Promise<void>
   onBack: () => void
-  estimatedPoints: number
 }
 
 function OrderStep({
   selectedItems,
   totalAmount,
-  qrCode,
-  onQRScan,
   onOrderSubmit,
-  onBack,
-  estimatedPoints
+  onBack
 }: OrderStepProps) {
   return (
     <div className="space-y-8">
@@ -383,34 +372,6 @@ function OrderStep({
         </p>
       </div>
 
-      {/* QR Code Section */}
-      <div className="card-base p-6">
-        <div className="flex items-center justify-between mb-4">
-          <div>
-            <h3 className="font-semibold text-[var(--color-fg)]">
-              Skannaa QR-koodi bonus-pisteitä varten
-            </h3>
-            <p className="text-sm text-[var(--color-fg-secondary)]">
-              Saat 1.5x bonus-pisteitä QR-koodin skannaamalla
-            </p>
-          </div>
-          <Button
-            variant={qrCode ? 'primary' : 'outline'}
-            onClick={onQRScan}
-          >
-            {qrCode ? 'QR-koodi skannattu ✓' : 'Skannaa QR-koodi'}
-          </Button>
-        </div>
-        
-        {qrCode && (
-          <div className="p-3 bg-[var(--color-accent-muted)] rounded-lg">
-            <p className="text-sm text-[var(--color-accent)] font-medium">
-              🎉 Saat {estimatedPoints} bonus-pistettä! (normaali: {Math.floor(totalAmount * 2)})
-            </p>
-          </div>
-        )}
-      </div>
-
       {/* Order Summary */}
       <div className="card-base p-6">
         <h3 className="font-semibold text-[var(--color-fg)] mb-4">
@@ -439,8 +400,7 @@ function OrderStep({
       {/* Order Form */}
       <OrderForm
         initialData={{
-          items: selectedItems,
-          qrCode: qrCode
+          items: selectedItems
         }}
         onSubmit={onOrderSubmit}
         onSuccess={(orderId) => {
@@ -457,25 +417,79 @@ function OrderStep({
   )
 }
 
-// Payment Step (Mock)
+// Payment Step
 interface PaymentStepProps {
+  orderId: string
   totalAmount: number
-  onPaymentComplete: () => void
+  // Points credited, or null when the Stripe webhook credits them later
+  onPaymentComplete: (pointsEarned: number | null) => void
   onBack: () => void
 }
 
-function PaymentStep({ totalAmount, onPaymentComplete, onBack }: PaymentStepProps) {
+function PaymentStep({ orderId, totalAmount, onPaymentComplete, onBack }: PaymentStepProps) {
+  const createIntent = useCreatePaymentIntent()
+  const confirmMock = useConfirmMockPayment()
+  const paymentElementRef = useRef<HTMLDivElement>(null)
+  const [stripeJs, setStripeJs] = useState<{ stripe: StripeJs; elements: StripeElements } | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [paymentError, setPaymentError] = useState<string | null>(null)
+
+  const intent = createIntent.data
+  // mutate keeps its identity across renders, unlike the mutation result
+  const { mutate: startPayment } = createIntent
+
+  useEffect(() => {
+    startPayment({ orderId })
+  }, [startPayment, orderId])
+
+  // Card details are entered in Stripe's Payment Element, never on our page
+  useEffect(() => {
+    if (!intent?.publishable_key || !paymentElementRef.current) return
+
+    const container = paymentElementRef.current
+    let paymentElement: ReturnType<StripeElements['create']> | undefined
+    getStripeJs(intent.publishable_key)
+      .then((stripe) => {
+        const elements = stripe.elements({ clientSecret: intent.client_secret, appearance: { theme: 'night' } })
+        paymentElement = elements.create('payment')
+        paymentElement.mount(container)
+        setStripeJs({ stripe, elements })
+      })
+      .catch((error) => setPaymentError(error.message))
+
+    return () => paymentElement?.destroy()
+  }, [intent])
 
   const handlePayment = async () => {
+    setPaymentError(null)
+
+    if (intent?.mock) {
+      confirmMock.mutate(orderId, {
+        onSuccess: (result) => onPaymentComplete(result.points_added),
+        onError: (error) => setPaymentError(error.message)
+      })
+      return
+    }
+
+    if (!stripeJs) return
     setIsProcessing(true)
-    // Simulate payment processing
-    setTimeout(() => {
-      setIsProcessing(false)
-      onPaymentComplete()
-    }, 2000)
+    const { error } = await stripeJs.stripe.confirmPayment({
+      elements: stripeJs.elements,
+      redirect: 'if_required',
+      confirmParams: { return_url: `${window.location.origin}/account` }
+    })
+    setIsProcessing(false)
+
+    if (error) {
+      setPaymentError(error.message ?? 'Maksu epäonnistui')
+    } else {
+      onPaymentComplete(null)
+    }
   }
 
+  const isPaying = isProcessing || confirmMock.isPending
+  const notConfigured = intent && !intent.mock && !intent.publishable_key
+
   return (
     <div className="max-w-md mx-auto text-center space-y-6">
       <div>
@@ -483,40 +497,53 @@ function PaymentStep({ totalAmount, onPaymentComplete, onBack }: PaymentStepProp
           Maksa tilaus
         </h2>
         <p className="text-[var(--color-fg-secondary)]">
-          Maksumäärä: {formatCurrency(totalAmount)}
+          Maksumäärä: {formatCurrency(intent?.amount ?? totalAmount)}
         </p>
       </div>
 
       <div className="card-base p-8">
         <div className="space-y-4">
-          <div className="w-16 h-16 mx-auto bg-[var(--color-bg-tertiary)] rounded-full flex items-center justify-center">
-            <svg className="w-8 h-8 text-[var(--color-fg-muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
-            </svg>
-          </div>
-          
-          <div>
-            <h3 className="font-semibold text-[var(--color-fg)] mb-2">
-              Mock-maksu
-            </h3>
-            <p className="text-sm text-[var(--color-fg-secondary)]">
-              Tämä on kehitysversio. Maksu simuloidaan.
-            </p>
-          </div>
+          {createIntent.isPending && <Skeleton className="h-32 w-full" />}
+
+          {createIntent.error && (
+            <p className="text-sm text-[var(--color-error)]">{createIntent.error.message}</p>
+          )}
+
+          {notConfigured && (
+            <p className="text-sm text-[var(--color-error)]">Korttimaksut eivät ole käytössä.</p>
+          )}
+
+          {intent?.mock && (
+            <div>
+              <h3 className="font-semibold text-[var(--color-fg)] mb-2">
+                Testimaksu (stripe-mock)
+              </h3>
+              <p className="text-sm text-[var(--color-fg-secondary)]">
+                Maksu vahvistetaan testikortilla paikallista stripe-mockia vasten.
+              </p>
+            </div>
+          )}
+
+          {intent?.publishable_key && <div ref={paymentElementRef} className="text-left" />}
+
+          {paymentError && (
+            <p className="text-sm text-[var(--color-error)]">{paymentError}</p>
+          )}
 
           <Button
             onClick={handlePayment}
-            loading={isProcessing}
+            loading={isPaying}
+            disabled={!intent || (!intent.mock && !stripeJs)}
             size="lg"
             fullWidth
             className="mt-6"
           >
-            {isProcessing ? 'Käsitellään maksua...' : `Maksa ${formatCurrency(totalAmount)}`}
+            {isPaying ? 'Käsitellään maksua...' : `Maksa ${formatCurrency(intent?.amount ?? totalAmount)}`}
           </Button>
         </div>
       </div>
 
-      <Button variant="outline" onClick={onBack}>
+      <Button variant="outline" onClick={onBack} disabled={isPaying}>
         Takaisin tilaukseen
       </Button>
     </div>
@@ -528,7 +555,7 @@ interface ConfirmationStepProps {
   orderId: string
   totalAmount: number
   pointsEarned: number
-  qrCode: string
+  pointsPending: boolean
   onNewOrder: () => void
 }
 
@@ -536,7 +563,7 @@ function ConfirmationStep({
   orderId,
   totalAmount,
   pointsEarned,
-  qrCode,
+  pointsPending,
   onNewOrder
 }: ConfirmationStepProps) {
   return (
@@ -557,7 +584,7 @@ function ConfirmationStep({
           Tilaus vahvistettu!
         </h2>
         <p className="text-[var(--color-fg-secondary)]">
-          Tilausnumero: <span className="font-mono text-[var(--color-accent)]">{orderId}</span>
+          Tilausnumero: <span className="font-mono text-[var(--color-accent)]">{orderId.slice(0, 8).toUpperCase()}</span>
         </p>
       </div>
 
@@ -572,16 +599,14 @@ function ConfirmationStep({
         <div className="flex justify-between">
           <span className="text-[var(--color-fg-secondary)]">Ansaitut pisteet</span>
           <span className="font-semibold text-[var(--color-accent)]">
-            {pointsEarned} pts
+            {pointsPending ? `~${pointsEarned}` : pointsEarned} pts
           </span>
         </div>
 
-        {qrCode && (
-          <div className="p-3 bg-[var(--color-accent-muted)] rounded-lg">
-            <p className="text-sm text-[var(--color-accent)] font-medium">
-              ✨ QR-bonus aktivoitu! Saat 1.5x pisteitä
-            </p>
-          </div>
+        {pointsPending && (
+          <p className="text-xs text-[var(--color-fg-muted)] text-left">
+            Pisteet lisätään tilillesi, kun maksu on vahvistettu.
+          </p>
         )}
       </div>
 
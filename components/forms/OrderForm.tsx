@@ -7,7 +7,7 @@ import { z } from 'zod'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { ErrorRetry } from '@/components/ui/ErrorBoundary'
-import { useAddPoints, useCreateOrder } from '@/lib/queries'
+import { useCreateOrder } from '@/lib/queries'
 import { formatCurrency } from '@/lib/utils'
 
 // Zod schema for order form validation
@@ -39,7 +39,6 @@ const OrderFormSchema = z.object({
     postalCode: z.string().min(5, 'Postinumero on pakollinen'),
     country: z.string().default('FI')
   }),
-  qrCode: z.string().optional(),
   agreeToTerms: z.boolean().refine(val => val === true, {
     message: 'Sinun tulee hyväksyä käyttöehdot'
   })
@@ -63,7 +62,6 @@ export function OrderForm({
   const [isSubmitting, setIsSubmitting] = React.useState(false)
   const [submitError, setSubmitError] = React.useState<string | null>(null)
   
-  const addPointsMutation = useAddPoints()
   const createOrderMutation = useCreateOrder()
 
   const form = useForm<OrderFormData>({
@@ -79,7 +77,6 @@ export function OrderForm({
         postalCode: '',
         country: 'FI'
       },
-      qrCode: initialData?.qrCode || '',
       agreeToTerms: false
     },
     mode: 'onChange' // Validate on change for better UX
@@ -103,26 +100,15 @@ export function OrderForm({
         return
       }
 
-      // Create order
+      // Create order; the server prices the items
       const order = await createOrderMutation.mutateAsync({
         userId: undefined, // Will be determined by email
         email: data.email,
-        items: data.items,
-        totalAmount,
+        items: data.items.map(({ productId, quantity }) => ({ productId, quantity })),
         shippingAddress: data.shippingAddress
       })
 
-      // Add loyalty points if QR code provided
-      if (data.qrCode) {
-        await addPointsMutation.mutateAsync({
-          orderId: order.id,
-          email: data.email,
-          amount: totalAmount,
-          qrCode: data.qrCode,
-          source: 'qr'
-        })
-      }
-
+      // Points are credited once the order is paid, see OrderFlow
       // Call success callback
       onSuccess?.(order.id)
 
@@ -194,26 +180,6 @@ export function OrderForm({
           />
         </div>
 
-        {/* QR Code Bonus */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-[var(--color-fg)]">
-            Bonus-pisteet
-          </h3>
-          
-          <Input
-            {...form.register('qrCode')}
-            label="QR-koodi (valinnainen)"
-            placeholder="Skannaa QR-koodi saadaksesi bonus-pisteitä"
-            error={errors.qrCode?.message}
-            helperText="Skannaa QR-koodi saadaksesi 1.5x bonus-pisteitä tilauksestasi"
-            leftIcon={
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
-              </svg>
-            }
-          />
-        </div>
-
         {/* Shipping Address */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-[var(--color-fg)]">
@@ -293,12 +259,7 @@ export function OrderForm({
                 {formatCurrency(totalAmount)}
               </span>
             </div>
-            
-            {form.watch('qrCode') && (
-              <div className="text-sm text-[var(--color-success)]">
-                ✨ Saat {Math.floor(totalAmount * 3)} bonus-pistettä QR-koodista!
-              </div>
-            )}
+
           </div>
         </div>
 
@@ -0,0 +1,32 @@
+'use client'
+
+import React, { useEffect } from 'react'
+import { SessionProvider, useSession } from 'next-auth/react'
+import { setMemberAccessToken } from '@/lib/loyalty'
+
+// Hands the member's Supabase token to the shared client. Rendered before the
+// children so its effect runs before their queries start.
+function SupabaseTokenSync() {
+  const { data: session } = useSession()
+  const token = session?.supabaseAccessToken ?? null
+
+  useEffect(() => {
+    setMemberAccessToken(token)
+  }, [token])
+
+  return null
+}
+
+interface AuthProviderProps {
+  children: React.ReactNode
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  return (
+    // Refetching the session renews the one-hour Supabase token
+    <SessionProvider refetchInterval={30 * 60}>
+      <SupabaseTokenSync />
+      {children}
+    </SessionProvider>
+  )
+}
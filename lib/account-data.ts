@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from 'crypto'
+import { ApiError, getServiceClient, type SessionUser } from './api'
+import { sendEmail } from './email'
+import { AccountDeletionSchema, type AccountDeletion } from './schemas'
+
+// Server-only helpers for the /api/account routes: the member's own data export and
+// self-service deletion. Deletion is confirmed by email, waits out a cooling-off period
+// and is then carried out by the account-purge job (see 021_account_deletion.sql).
+
+export type AccountExport = Record<string, unknown>
+
+export async function getAccountExport(userId: string): Promise<AccountExport> {
+  const { data, error } = await getServiceClient().rpc('export_customer_data', { p_user_id: userId })
+
+  if (error) {
+    console.error('Error exporting member data:', error)
+    throw new ApiError(500, 'Failed to export data')
+  }
+  return data as AccountExport
+}
+
+export function exportFilename(format: 'json' | 'csv'): string {
+  return `herbspot-data-${new Date().toISOString().slice(0, 10)}.${format}`
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * The export as one CSV in long format (table, row, field, value), so tables with
+ * different columns fit one file. Nested values such as order items are JSON.
+ */
+export function toExportCsv(data: AccountExport): string {
+  const lines = [['table', 'row', 'field', 'value'].join(',')]
+
+  const addRow = (table: string, row: number, record: Record<string, unknown>) => {
+    for (const [field, value] of Object.entries(record)) {
+      lines.push([table, row, field, value].map(csvCell).join(','))
+    }
+  }
+
+  const summary: Record<string, unknown> = {}
+  for (const [table, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      value.forEach((record, index) => addRow(table, index + 1, record))
+    } else if (value && typeof value === 'object') {
+      addRow(table, 1, value as Record<string, unknown>)
+    } else {
+      summary[table] = value
+    }
+  }
+  addRow('export', 1, summary)
+
+  return lines.join('\r\n') + '\r\n'
+}
+
+// Only the hash is stored, like next-auth's magic link tokens
+export function hashDeletionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function siteUrl(): string {
+  return (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_SITE_URL || 'https://herbspot.fi').replace(/\/$/, '')
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('fi-FI', { timeZone: 'Europe/Helsinki' })
+}
+
+export async function getAccountDeletion(userId: string): Promise<AccountDeletion> {
+  const { data, error } = await getServiceClient()
+    .from('account_deletion_requests')
+    .select('status, requested_at, confirm_before, purge_after')
+    .eq('user_id', userId)
+    .in('status', ['pending_confirmation', 'scheduled'])
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading deletion request:', error)
+    throw new ApiError(500, 'Failed to load deletion request')
+  }
+
+  return AccountDeletionSchema.parse(data ?? { status: 'none' })
+}
+
+/**
+ * Start a deletion and email the confirmation link. Asking again replaces an
+ * unconfirmed request (and its link); a scheduled deletion is only reported.
+ */
+export async function requestAccountDeletion(user: SessionUser): Promise<AccountDeletion> {
+  const token = randomBytes(32).toString('base64url')
+
+  const { data, error } = await getServiceClient().rpc('request_account_deletion', {
+    p_user_id: user.id,
+    p_token_hash: hashDeletionToken(token)
+  })
+
+  if (error) {
+    console.error('Error requesting account deletion:', error)
+    throw new ApiError(500, 'Failed to request deletion')
+  }
+
+  if (data.status === 'pending_confirmation') {
+    const url = `${siteUrl()}/account/delete/confirm?token=${token}`
+    await sendEmail({
+      to: user.email,
+      subject: 'Vahvista tilin poisto / Confirm account deletion',
+      text: [
+        'Vahvista HerbSpot.fi-tilisi ja kanta-asiakastietojesi poisto tästä linkistä (voimassa 24 tuntia):',
+        url,
+        'Tiedot poistetaan 14 päivän kuluttua vahvistuksesta. Voit perua poiston sitä ennen tililtäsi.',
+        '',
+        'Confirm the deletion of your HerbSpot.fi account and loyalty data with this link (valid for 24 hours):',
+        url,
+        'Your data is deleted 14 days after you confirm. You can cancel from your account until then.',
+        '',
+        'Jos et pyytänyt poistoa, voit jättää tämän viestin huomiotta. / If you did not ask for this, you can ignore this email.'
+      ].join('\n')
+    })
+  }
+
+  return getAccountDeletion(user.id)
+}
+
+/**
+ * The emailed link. The token alone identifies the request, so the member does not
+ * need to be signed in on the device they open the email on.
+ */
+export async function confirmAccountDeletion(token: string): Promise<AccountDeletion> {
+  const supabase = getServiceClient()
+  const { data, error } = await supabase.rpc('confirm_account_deletion', {
+    p_token_hash: hashDeletionToken(token)
+  })
+
+  if (error) {
+    console.error('Error confirming account deletion:', error)
+    throw new ApiError(500, 'Failed to confirm deletion')
+  }
+  if (data.status === 'invalid') throw new ApiError(404, 'This link is not valid')
+  if (data.status === 'expired') throw new ApiError(410, 'This link has expired; request the deletion again')
+
+  const { data: member } = await supabase.from('users').select('email').eq('id', data.user_id).maybeSingle()
+  if (member?.email) {
+    await sendEmail({
+      to: member.email,
+      subject: 'Tilin poisto ajastettu / Account deletion scheduled',
+      text: [
+        `Tilisi ja kanta-asiakastietosi poistetaan ${formatDate(data.purge_after)}. Voit perua poiston tililtäsi ennen sitä: ${siteUrl()}/account`,
+        '',
+        `Your account and loyalty data will be deleted on ${formatDate(data.purge_after)}. You can cancel from your account until then: ${siteUrl()}/account`
+      ].join('\n')
+    })
+  }
+
+  return getAccountDeletion(data.user_id)
+}
+
+export async function cancelAccountDeletion(userId: string): Promise<AccountDeletion> {
+  const { data: cancelled, error } = await getServiceClient().rpc('cancel_account_deletion', {
+    p_user_id: userId
+  })
+
+  if (error) {
+    console.error('Error cancelling account deletion:', error)
+    throw new ApiError(500, 'Failed to cancel deletion')
+  }
+  if (!cancelled) throw new ApiError(404, 'No deletion to cancel')
+
+  return getAccountDeletion(userId)
+}
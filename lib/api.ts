@@ -0,0 +1,137 @@
+import { getServerSession } from 'next-auth'
+import { NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { authOptions } from './auth'
+
+// Server-only helpers for the app/api route handlers. The routes read and write with the
+// service role, so every handler must check the caller owns the data it asks for.
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+export { getServiceClient } from './supabase-server'
+
+export type SessionUser = { id: string; email: string }
+
+/**
+ * The signed in member (next-auth session cookie). Their id is their users.id,
+ * the same id the RLS policies compare auth.uid() against.
+ */
+export async function requireUser(): Promise<SessionUser> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id || !session.user.email) throw new ApiError(401, 'Sign in required')
+
+  return { id: session.user.id, email: session.user.email }
+}
+
+export function assertOwnUser(user: SessionUser, userId: string | undefined) {
+  if (userId && userId !== user.id) {
+    throw new ApiError(403, 'Not allowed to access another member')
+  }
+}
+
+export function assertOwnEmail(user: SessionUser, email: string | undefined) {
+  if (email && email.trim().toLowerCase() !== user.email.toLowerCase()) {
+    throw new ApiError(403, 'Not allowed to access another member')
+  }
+}
+
+/**
+ * Run a route handler and turn thrown errors into JSON responses:
+ * ApiError keeps its status, Zod errors are 400 with the issues, anything else is 500.
+ */
+export function withApiErrors<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args) => {
+    try {
+      return await handler(...args)
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return NextResponse.json({ error: error.message }, { status: error.status })
+      }
+      if (error instanceof ZodError) {
+        return NextResponse.json({ error: 'Invalid request', issues: error.issues }, { status: 400 })
+      }
+      console.error('Unexpected API error:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+  }
+}
+
+// PostgREST returns null for empty columns; the schemas model them as optional
+export function withoutNulls<T extends Record<string, unknown>>(row: T): T {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)) as T
+}
+
+// Cursors are opaque to clients: the (created_at, id) of the last row of the page
+type Cursor = { created_at: string; id: string }
+
+export function encodeCursor(row: Cursor): string {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): Cursor {
+  try {
+    const [created_at, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    // Both values end up in a PostgREST filter, so only accept a timestamp and a uuid
+    if (typeof created_at !== 'string' || !/^[\d\-:.T +Z]+$/.test(created_at) || Number.isNaN(Date.parse(created_at))) {
+      throw new Error('Malformed cursor')
+    }
+    if (typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)) {
+      throw new Error('Malformed cursor')
+    }
+    return { created_at, id }
+  } catch {
+    throw new ApiError(400, 'Invalid cursor')
+  }
+}
+
+// The calls fetchPage makes on a supabase-js select of a table with created_at and id
+interface PageQuery<T> {
+  or(filters: string): PageQuery<T>
+  order(column: keyof Cursor, options: { ascending: boolean }): PageQuery<T>
+  limit(count: number): PromiseLike<{ data: T[] | null; error: unknown }>
+}
+
+/**
+ * Newest-first keyset pagination over created_at, with id as the tie-breaker.
+ * Fetches one extra row to know whether there is a next page.
+ */
+export async function fetchPage<T extends Cursor>(
+  query: PageQuery<T>,
+  limit: number,
+  cursor?: string
+): Promise<{ rows: T[]; next_cursor: string | null }> {
+  if (cursor) {
+    const after = decodeCursor(cursor)
+    query = query.or(
+      `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+    )
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (error) {
+    console.error('Error loading page:', error)
+    throw new ApiError(500, 'Failed to load data')
+  }
+
+  const rows = (data ?? []) as T[]
+  const hasMore = rows.length > limit
+  const page = rows.slice(0, limit)
+
+  return {
+    rows: page,
+    next_cursor: hasMore ? encodeCursor(page[page.length - 1]) : null
+  }
+}
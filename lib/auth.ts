@@ -0,0 +1,268 @@
+import { createHmac } from 'crypto'
+import type { NextAuthOptions } from 'next-auth'
+import type { Adapter, AdapterAccount, AdapterUser } from 'next-auth/adapters'
+import EmailProvider from 'next-auth/providers/email'
+import type { OAuthConfig } from 'next-auth/providers/oauth'
+import { sendEmail } from './email'
+import { getServiceClient } from './supabase-server'
+
+// Storefront sign-in: email magic links and Shopify Customer Accounts. Every identity
+// resolves to one users row, and users.id is what the session and Supabase RLS use.
+
+type UserRow = { id: string; email: string; name: string | null; email_verified_at: string | null }
+
+const USER_COLUMNS = 'id, email, name, email_verified_at'
+
+// One hour, refreshed whenever the client reads the session
+const SUPABASE_TOKEN_TTL_SECONDS = 60 * 60
+
+function toAdapterUser(row: UserRow): AdapterUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    emailVerified: row.email_verified_at ? new Date(row.email_verified_at) : null
+  }
+}
+
+// ilike without wildcards: a case-insensitive exact match on the address
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+async function findUser(column: 'id' | 'email', value: string): Promise<AdapterUser | null> {
+  const query = getServiceClient().from('users').select(USER_COLUMNS)
+  const { data, error } = await (column === 'email'
+    ? query.ilike('email', escapeLike(value.trim())).limit(1).maybeSingle()
+    : query.eq('id', value).maybeSingle())
+
+  if (error) throw error
+  return data ? toAdapterUser(data as UserRow) : null
+}
+
+/**
+ * next-auth adapter over the loyalty tables. Existing members (created by webhooks or
+ * the referral flow) are matched by email, so signing in never creates a second row.
+ */
+function SupabaseMemberAdapter(): Adapter {
+  return {
+    async createUser(user: Omit<AdapterUser, 'id'>) {
+      const { data, error } = await getServiceClient()
+        .from('users')
+        .insert({
+          email: user.email.trim().toLowerCase(),
+          name: user.name ?? null,
+          email_verified_at: user.emailVerified?.toISOString() ?? null
+        })
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) throw error
+      return toAdapterUser(data as UserRow)
+    },
+
+    getUser: (id) => findUser('id', id),
+
+    getUserByEmail: (email) => findUser('email', email),
+
+    async getUserByAccount({ provider, providerAccountId }) {
+      const { data, error } = await getServiceClient()
+        .from('auth_accounts')
+        .select(`user:users(${USER_COLUMNS})`)
+        .eq('provider', provider)
+        .eq('provider_account_id', providerAccountId)
+        .maybeSingle()
+
+      if (error) throw error
+      const row = data?.user as unknown as UserRow | null | undefined
+      return row ? toAdapterUser(row) : null
+    },
+
+    async updateUser(user) {
+      const { data, error } = await getServiceClient()
+        .from('users')
+        .update({
+          ...(user.name !== undefined && { name: user.name }),
+          ...(user.emailVerified !== undefined && {
+            email_verified_at: user.emailVerified?.toISOString() ?? null
+          }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', user.id)
+        .select(USER_COLUMNS)
+        .single()
+
+      if (error) throw error
+      return toAdapterUser(data as UserRow)
+    },
+
+    // Provider tokens are not kept: the storefront only needs to know who signed in
+    async linkAccount(account: AdapterAccount) {
+      const { error } = await getServiceClient().from('auth_accounts').insert({
+        user_id: account.userId,
+        type: account.type,
+        provider: account.provider,
+        provider_account_id: account.providerAccountId
+      })
+
+      if (error) throw error
+    },
+
+    async createVerificationToken(verificationToken) {
+      const { error } = await getServiceClient()
+        .from('auth_verification_tokens')
+        .insert({
+          identifier: verificationToken.identifier,
+          token: verificationToken.token,
+          expires: verificationToken.expires.toISOString()
+        })
+
+      if (error) throw error
+      return verificationToken
+    },
+
+    // Deleting and returning in one statement makes each magic link single-use
+    async useVerificationToken({ identifier, token }) {
+      const { data, error } = await getServiceClient()
+        .from('auth_verification_tokens')
+        .delete()
+        .eq('identifier', identifier)
+        .eq('token', token)
+        .select('identifier, token, expires')
+        .maybeSingle()
+
+      if (error) throw error
+      return data ? { identifier: data.identifier, token: data.token, expires: new Date(data.expires) } : null
+    }
+  }
+}
+
+async function sendMagicLink({ identifier, url }: { identifier: string; url: string }) {
+  await sendEmail({
+    to: identifier,
+    subject: 'Kirjaudu HerbSpot.fi:hin / Sign in to HerbSpot.fi',
+    text: [
+      'Kirjaudu sisään tästä linkistä (voimassa 15 minuuttia):',
+      url,
+      '',
+      'Sign in with this link (valid for 15 minutes):',
+      url,
+      '',
+      'Jos et pyytänyt linkkiä, voit jättää tämän viestin huomiotta. / If you did not ask for this link, you can ignore this email.'
+    ].join('\n')
+  })
+}
+
+type ShopifyCustomerProfile = { sub: string; email: string }
+
+// The same Customer Account API client as the Hydrogen login in ($locale).account_.login.tsx
+function ShopifyCustomerAccountProvider(): OAuthConfig<ShopifyCustomerProfile> {
+  return {
+    id: 'shopify',
+    name: 'Shopify',
+    type: 'oauth',
+    wellKnown: `https://shopify.com/authentication/${process.env.SHOP_ID}/.well-known/openid-configuration`,
+    clientId: process.env.PUBLIC_CUSTOMER_ACCOUNT_API_CLIENT_ID ?? '',
+    // Public client: PKCE instead of a client secret
+    client: { token_endpoint_auth_method: 'none' },
+    authorization: { params: { scope: 'openid email customer-account-api:full' } },
+    checks: ['pkce', 'state'],
+    idToken: true,
+    // Shopify has verified the address, so it may sign in to the member with that email
+    allowDangerousEmailAccountLinking: true,
+    profile(profile) {
+      return { id: profile.sub, email: profile.email, name: null }
+    }
+  }
+}
+
+const CUSTOMER_ID_QUERY = 'query CustomerLoyaltyIdentity { customer { id } }'
+
+type CustomerIdResponse = { data?: { customer?: { id: string } | null } | null }
+
+/**
+ * Store the numeric Shopify customer id on the member, as the Hydrogen sign-in does,
+ * so order webhooks match them by customer id even after an email change.
+ */
+async function linkShopifyCustomer(userId: string, email: string | null | undefined, accessToken: string) {
+  const apiVersion = process.env.PUBLIC_STOREFRONT_API_VERSION ?? '2024-10'
+  const response = await fetch(
+    `https://shopify.com/${process.env.SHOP_ID}/account/customer/api/${apiVersion}/graphql`,
+    {
+      method: 'POST',
+      headers: { Authorization: accessToken, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: CUSTOMER_ID_QUERY })
+    }
+  )
+  const result = (await response.json().catch(() => null)) as CustomerIdResponse | null
+  const gid = result?.data?.customer?.id
+  if (!gid) throw new Error(`Customer Account API ${response.status}`)
+
+  const { data: memberId, error } = await getServiceClient().rpc('resolve_loyalty_member', {
+    p_customer_id: gid.split('/').pop(),
+    p_email: email ?? null
+  })
+  if (error) throw error
+
+  if (memberId !== userId) {
+    console.warn(`Shopify customer ${gid} belongs to member ${memberId}, signed in as ${userId}; merge needed`)
+  }
+}
+
+/**
+ * A Supabase access token for the member, signed with the project's JWT secret.
+ * sub is users.id, so auth.uid() in the RLS policies resolves to the member.
+ */
+function createSupabaseAccessToken(userId: string, email: string | null | undefined): string | undefined {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret) return undefined
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const header = encode({ alg: 'HS256', typ: 'JWT' })
+  const payload = encode({
+    aud: 'authenticated',
+    role: 'authenticated',
+    sub: userId,
+    email,
+    exp: Math.floor(Date.now() / 1000) + SUPABASE_TOKEN_TTL_SECONDS
+  })
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+
+  return `${header}.${payload}.${signature}`
+}
+
+export const authOptions: NextAuthOptions = {
+  adapter: SupabaseMemberAdapter(),
+  session: { strategy: 'jwt' },
+  pages: {
+    signIn: '/login',
+    verifyRequest: '/login?check-email=1'
+  },
+  providers: [
+    EmailProvider({
+      from: process.env.NOTIFICATION_FROM_EMAIL ?? 'HerbSpot.fi <noreply@herbspot.fi>',
+      maxAge: 15 * 60,
+      sendVerificationRequest: sendMagicLink
+    }),
+    ShopifyCustomerAccountProvider()
+  ],
+  events: {
+    async signIn({ user, account }) {
+      if (account?.provider !== 'shopify' || !account.access_token) return
+
+      // Sign-in must not fail on a loyalty outage; the next order webhook links the member too
+      await linkShopifyCustomer(user.id, user.email, account.access_token).catch((error) =>
+        console.error('Failed to link Shopify customer:', error)
+      )
+    }
+  },
+  callbacks: {
+    session({ session, token }) {
+      if (token.sub) {
+        session.user.id = token.sub
+        session.supabaseAccessToken = createSupabaseAccessToken(token.sub, token.email)
+      }
+      return session
+    }
+  }
+}
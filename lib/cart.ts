@@ -0,0 +1,78 @@
+import { cookies } from 'next/headers'
+import { ApiError } from './api'
+import { CartSchema, type Cart } from './schemas'
+import { ShopifyCartError, type ShopifyCart } from './shopify'
+
+// Server-only helpers for the /api/cart route handlers. The browser only holds the
+// cart id (httpOnly cookie); lines, totals and the checkout URL come from Shopify.
+
+const CART_COOKIE = 'herbspot_cart'
+
+// Shopify keeps an untouched cart for about ten days
+const CART_COOKIE_MAX_AGE = 10 * 24 * 60 * 60
+
+export function getCartId(): string | undefined {
+  return cookies().get(CART_COOKIE)?.value
+}
+
+export function setCartId(cartId: string) {
+  cookies().set(CART_COOKIE, cartId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CART_COOKIE_MAX_AGE
+  })
+}
+
+// After checkout Shopify no longer returns the cart; the next add starts a new one
+export function clearCartId() {
+  cookies().delete(CART_COOKIE)
+}
+
+/**
+ * Shopify rejects unknown variants and sold out quantities with user errors;
+ * pass those to the client as 400s instead of 500s.
+ */
+export async function withCartErrors<T>(request: Promise<T>): Promise<T> {
+  try {
+    return await request
+  } catch (error) {
+    if (error instanceof ShopifyCartError) throw new ApiError(400, error.message)
+    throw error
+  }
+}
+
+export function toCart(cart: ShopifyCart): Cart {
+  const deliveryGroup = cart.deliveryGroups.edges[0]?.node
+
+  return CartSchema.parse({
+    id: cart.id,
+    checkout_url: cart.checkoutUrl,
+    total_quantity: cart.totalQuantity,
+    email: cart.buyerIdentity.email,
+    country_code: cart.buyerIdentity.countryCode,
+    currency: cart.cost.totalAmount.currencyCode,
+    lines: cart.lines.edges.map(({ node }) => ({
+      id: node.id,
+      variant_id: node.merchandise.id,
+      product_title: node.merchandise.product.title,
+      variant_title: node.merchandise.title,
+      handle: node.merchandise.product.handle,
+      image_url: node.merchandise.image?.url ?? null,
+      quantity: node.quantity,
+      price: Number(node.merchandise.price.amount),
+      total: Number(node.cost.totalAmount.amount)
+    })),
+    // Only known once the cart has a delivery address
+    delivery_options: (deliveryGroup?.deliveryOptions ?? []).map((option) => ({
+      handle: option.handle,
+      title: option.title ?? option.handle,
+      cost: Number(option.estimatedCost.amount),
+      selected: option.handle === deliveryGroup?.selectedDeliveryOption?.handle
+    })),
+    subtotal: Number(cart.cost.subtotalAmount.amount),
+    tax: cart.cost.totalTaxAmount ? Number(cart.cost.totalTaxAmount.amount) : null,
+    total: Number(cart.cost.totalAmount.amount)
+  })
+}
@@ -0,0 +1,33 @@
+// Server-only transactional email through Resend. Without RESEND_API_KEY the message is
+// logged instead (local development); in production a missing key is an error.
+
+export type EmailMessage = {
+  to: string
+  subject: string
+  text: string
+}
+
+export async function sendEmail(message: EmailMessage) {
+  const apiKey = process.env.RESEND_API_KEY
+
+  if (!apiKey) {
+    if (process.env.NODE_ENV === 'production') throw new Error('RESEND_API_KEY is not set')
+    console.log(`[email disabled] To ${message.to}: ${message.subject}\n${message.text}`)
+    return
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: process.env.NOTIFICATION_FROM_EMAIL ?? 'HerbSpot.fi <noreply@herbspot.fi>',
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Resend ${response.status}: ${await response.text()}`)
+  }
+}
@@ -1,9 +1,37 @@
 import { createClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_LOYALTY_RULES,
+  getTierForPoints,
+  getTierProgress,
+  getTierRule,
+  parseLoyaltyRules,
+  type LoyaltyRules,
+} from '@/supabase/functions/_shared/loyalty-rules';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co';
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key';
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+// Supabase access token of the signed in storefront member, kept in sync by AuthProvider.
+// Requests carry it instead of the anon key so the RLS policies and the staff functions
+// see the member.
+let memberAccessToken: string | null = null;
+
+export function setMemberAccessToken(token: string | null) {
+  memberAccessToken = token;
+}
+
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  global: {
+    fetch: (input, init) => {
+      if (!memberAccessToken) {
+        return fetch(input, init);
+      }
+      const headers = new Headers(init?.headers);
+      headers.set('Authorization', `Bearer ${memberAccessToken}`);
+      return fetch(input, { ...init, headers });
+    },
+  },
+});
 
 export interface LoyaltyPoints {
   id?: string;
@@ -16,101 +44,222 @@ export interface LoyaltyPoints {
   updated_at?: string;
 }
 
-export const TIERS = {
-  BRONZE: { name: 'Bronze', minPoints: 0, maxPoints: 499, color: '#CD7F32' },
-  SILVER: { name: 'Silver', minPoints: 500, maxPoints: 1499, color: '#C0C0C0' },
-  GOLD: { name: 'Gold', minPoints: 1500, maxPoints: 3999, color: '#FFD700' },
-  VIP: { name: 'VIP', minPoints: 4000, maxPoints: Infinity, color: '#39FF14' }
-};
+export type { ExpiryRule, LoyaltyRules, QualificationRule, TierRule, TierName } from '@/supabase/functions/_shared/loyalty-rules';
+export { DEFAULT_LOYALTY_RULES } from '@/supabase/functions/_shared/loyalty-rules';
 
-export function getTierFromPoints(points: number): string {
-  if (points >= TIERS.VIP.minPoints) return TIERS.VIP.name;
-  if (points >= TIERS.GOLD.minPoints) return TIERS.GOLD.name;
-  if (points >= TIERS.SILVER.minPoints) return TIERS.SILVER.name;
-  return TIERS.BRONZE.name;
-}
+/**
+ * Load the active loyalty rules (earn rates and tier thresholds) from Supabase.
+ * Falls back to the built-in defaults when Supabase is not configured or unreachable.
+ */
+export async function getLoyaltyRules(): Promise<LoyaltyRules> {
+  try {
+    const { data, error } = await supabase.rpc('get_loyalty_rules');
 
-export function getTierColor(tier: string): string {
-  switch (tier) {
-    case 'VIP': return TIERS.VIP.color;
-    case 'Gold': return TIERS.GOLD.color;
-    case 'Silver': return TIERS.SILVER.color;
-    default: return TIERS.BRONZE.color;
+    if (error) {
+      console.error('Error fetching loyalty rules:', error);
+      return DEFAULT_LOYALTY_RULES;
+    }
+
+    return parseLoyaltyRules(data);
+  } catch (error) {
+    console.error('Error in getLoyaltyRules:', error);
+    return DEFAULT_LOYALTY_RULES;
   }
 }
 
-export function getPointsToNextTier(points: number): number {
-  const currentTier = getTierFromPoints(points);
-  switch (currentTier) {
-    case 'Bronze': return TIERS.SILVER.minPoints - points;
-    case 'Silver': return TIERS.GOLD.minPoints - points;
-    case 'Gold': return TIERS.VIP.minPoints - points;
-    default: return 0; // VIP - max tier
-  }
+/**
+ * Next batch of points to expire, from get_points_expiry(). points is 0 when nothing expires.
+ */
+export interface PointsExpiry {
+  points: number;
+  expires_at: string | null;
+  warning_days: number;
 }
 
-export async function getUserPoints(userId: string): Promise<LoyaltyPoints | null> {
+export async function getPointsExpiry(userId: string): Promise<PointsExpiry | null> {
   try {
-    const { data, error } = await supabase
-      .from('loyalty_points')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
+    const { data, error } = await supabase.rpc('get_points_expiry', { p_user_id: userId });
 
-    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
-      console.error('Error fetching user points:', error);
+    if (error) {
+      console.error('Error fetching points expiry:', error);
       return null;
     }
 
-    return data;
+    return data as PointsExpiry;
   } catch (error) {
-    console.error('Error in getUserPoints:', error);
+    console.error('Error in getPointsExpiry:', error);
     return null;
   }
 }
 
-export async function addPoints(userId: string, points: number, reason: string = 'order'): Promise<boolean> {
+/**
+ * Qualified tier from get_tier_status(): the tier the member holds, what they have earned
+ * in the rolling window, and until when a tier they no longer qualify for is kept.
+ */
+export interface TierStatus {
+  tier: string;
+  qualifying_value: number;
+  basis: 'points' | 'spend';
+  window_months: number;
+  grace_until: string | null;
+}
+
+export async function getTierStatus(userId: string): Promise<TierStatus | null> {
   try {
-    // Get current points
-    const currentData = await getUserPoints(userId);
-    const currentPoints = currentData?.points || 0;
-    const currentStreak = currentData?.streak || 0;
-    const currentOrders = currentData?.total_orders || 0;
+    const { data, error } = await supabase.rpc('get_tier_status', { p_user_id: userId });
 
-    const newPoints = currentPoints + points;
-    const newTier = getTierFromPoints(newPoints);
+    if (error) {
+      console.error('Error fetching tier status:', error);
+      return null;
+    }
 
-    const pointsData: LoyaltyPoints = {
-      user_id: userId,
-      points: newPoints,
-      tier: newTier,
-      streak: currentStreak + 1,
-      total_orders: currentOrders + 1
-    };
+    return data as TierStatus;
+  } catch (error) {
+    console.error('Error in getTierStatus:', error);
+    return null;
+  }
+}
 
-    const { error } = await supabase
-      .from('loyalty_points')
-      .upsert(pointsData, { onConflict: 'user_id' });
+/**
+ * A member's referral code and the people they referred, from get_referral_summary().
+ * Referred emails are masked (m***@example.com).
+ */
+export interface ReferralSummary {
+  code: string;
+  referrer_bonus: number;
+  referee_bonus: number;
+  pending: number;
+  completed: number;
+  points_earned: number;
+  referrals: Array<{
+    email: string;
+    status: 'pending' | 'completed' | 'rejected';
+    created_at: string;
+    completed_at: string | null;
+  }>;
+}
+
+export async function getReferralSummary(userId: string): Promise<ReferralSummary | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_referral_summary', { p_user_id: userId });
 
     if (error) {
-      console.error('Error adding points:', error);
-      return false;
+      console.error('Error fetching referral summary:', error);
+      return null;
     }
 
-    // Log the transaction
-    await supabase
-      .from('loyalty_transactions')
-      .insert({
-        user_id: userId,
-        points_added: points,
-        reason: reason,
-        total_points: newPoints
-      });
+    return data as ReferralSummary;
+  } catch (error) {
+    console.error('Error in getReferralSummary:', error);
+    return null;
+  }
+}
 
-    return true;
+// Storefront link that stores the code on the visitor's cart (app/routes/($locale).ref.$code.tsx)
+export function getReferralLink(code: string): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://herbspot.fi';
+  return `${siteUrl.replace(/\/$/, '')}/ref/${encodeURIComponent(code)}`;
+}
+
+/**
+ * Staff manual adjustments through the points-adjust function. The storefront session's
+ * Supabase token identifies the acting staff member; the function rejects non-staff.
+ */
+export interface PointsAdjustment {
+  id: string;
+  user_id: string;
+  points: number;
+  reason: string;
+  ticket_ref: string;
+  status: 'pending_approval' | 'applied' | 'rejected';
+  decision_note: string | null;
+  created_at: string;
+  decided_at: string | null;
+  member: { email: string } | null;
+  requester: { user_id: string; email: string; name: string | null } | null;
+  approver: { user_id: string; email: string; name: string | null } | null;
+}
+
+export interface AdjustmentQueue {
+  staff: { user_id: string; email: string; name: string | null; can_approve: boolean };
+  limits: { approval_threshold: number; approval_window_hours: number; max_points: number };
+  pending: PointsAdjustment[];
+  recent: PointsAdjustment[];
+}
+
+export interface AdjustmentResult {
+  adjustment_id: string;
+  status: PointsAdjustment['status'];
+  points: number;
+  balance?: number;
+}
+
+async function invokePointsAdjust<T>(init: { method: 'GET' } | { method: 'POST'; body: Record<string, unknown> }): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('points-adjust', init);
+
+  if (error) {
+    // Non-2xx responses carry the function's { error } message in the response body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+
+  return data as T;
+}
+
+export function getAdjustmentQueue(): Promise<AdjustmentQueue> {
+  return invokePointsAdjust<AdjustmentQueue>({ method: 'GET' });
+}
+
+export function requestPointsAdjustment(input: {
+  email: string;
+  points: number;
+  reason: string;
+  ticket_ref: string;
+}): Promise<AdjustmentResult> {
+  return invokePointsAdjust<AdjustmentResult>({ method: 'POST', body: { action: 'request', ...input } });
+}
+
+export function decidePointsAdjustment(input: {
+  adjustment_id: string;
+  approve: boolean;
+  note?: string;
+}): Promise<AdjustmentResult> {
+  return invokePointsAdjust<AdjustmentResult>({
+    method: 'POST',
+    body: { action: input.approve ? 'approve' : 'reject', adjustment_id: input.adjustment_id, note: input.note },
+  });
+}
+
+// points is the qualifying value of the rolling window (TierStatus.qualifying_value), not the balance
+export function getTierFromPoints(points: number, rules: LoyaltyRules = DEFAULT_LOYALTY_RULES): string {
+  return getTierForPoints(rules, points).name;
+}
+
+export function getTierColor(tier: string, rules: LoyaltyRules = DEFAULT_LOYALTY_RULES): string {
+  return getTierRule(rules, tier).color;
+}
+
+export function getPointsToNextTier(points: number, rules: LoyaltyRules = DEFAULT_LOYALTY_RULES): number {
+  return getTierProgress(rules, points).pointsToNext;
+}
+
+export async function getUserPoints(userId: string): Promise<LoyaltyPoints | null> {
+  try {
+    const { data, error } = await supabase
+      .from('loyalty_points')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
+      console.error('Error fetching user points:', error);
+      return null;
+    }
+
+    return data;
   } catch (error) {
-    console.error('Error in addPoints:', error);
-    return false;
+    console.error('Error in getUserPoints:', error);
+    return null;
   }
 }
 
@@ -119,7 +268,7 @@ export async function createLoyaltyUser(userId: string): Promise<boolean> {
     const initialData: LoyaltyPoints = {
       user_id: userId,
       points: 0,
-      tier: 'Bronze',
+      tier: DEFAULT_LOYALTY_RULES.tiers[0].name,
       streak: 0,
       total_orders: 0
     };
@@ -148,11 +297,6 @@ export const mockLoyalty = {
     tier: 'Silver',
     streak: 3,
     total_orders: 5
-  }),
-  
-  addPoints: async (userId: string, points: number) => {
-    console.log(`Mock: Added ${points} points to user ${userId}`);
-    return true;
-  }
+  })
 };
 
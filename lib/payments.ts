@@ -0,0 +1,106 @@
+import Stripe from 'stripe'
+import { ApiError } from './api'
+import { getServiceClient } from './supabase-server'
+
+// Server-only Stripe helpers for the payment routes and the Stripe webhook.
+// With STRIPE_API_BASE set (e.g. http://localhost:12111) every call goes to stripe-mock,
+// so the order → payment → points flow runs offline.
+
+let stripe: Stripe | null = null
+
+export function isStripeMock(): boolean {
+  return Boolean(process.env.STRIPE_API_BASE)
+}
+
+export function getStripe(): Stripe {
+  if (stripe) return stripe
+
+  const secretKey = process.env.STRIPE_SECRET_KEY
+  if (!secretKey) throw new Error('STRIPE_SECRET_KEY is not set')
+
+  const mockUrl = process.env.STRIPE_API_BASE ? new URL(process.env.STRIPE_API_BASE) : null
+
+  stripe = new Stripe(secretKey, {
+    apiVersion: '2023-10-16',
+    ...(mockUrl && {
+      host: mockUrl.hostname,
+      port: Number(mockUrl.port) || (mockUrl.protocol === 'https:' ? 443 : 80),
+      protocol: mockUrl.protocol === 'https:' ? 'https' : 'http'
+    })
+  })
+  return stripe
+}
+
+// Stripe amounts are in cents
+export function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+export type PaidOrder = {
+  order_id: string
+  points_added: number
+  total_points: number
+  duplicate: boolean
+}
+
+/**
+ * Mark the order of a succeeded PaymentIntent paid and credit its points. Safe to call
+ * again for the same payment: the order only moves from pending once and
+ * credit_loyalty_points ignores an order it has already credited.
+ */
+export async function markOrderPaid(paymentIntent: {
+  id: string
+  amount_received: number
+  currency: string
+}): Promise<PaidOrder> {
+  const supabase = getServiceClient()
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, user_id, total_amount, currency, status, items')
+    .eq('stripe_payment_intent_id', paymentIntent.id)
+    .maybeSingle()
+
+  if (orderError) throw orderError
+  if (!order) throw new ApiError(404, `No order for payment ${paymentIntent.id}`)
+
+  if (
+    paymentIntent.amount_received !== toCents(order.total_amount) ||
+    paymentIntent.currency.toUpperCase() !== (order.currency ?? 'EUR').toUpperCase()
+  ) {
+    throw new ApiError(409, `Payment ${paymentIntent.id} does not match order ${order.id}`)
+  }
+
+  if (order.status === 'pending') {
+    const { error: updateError } = await supabase
+      .from('orders')
+      .update({ status: 'paid', paid_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .eq('status', 'pending')
+
+    if (updateError) throw updateError
+  } else if (order.status === 'cancelled') {
+    throw new ApiError(409, `Order ${order.id} was cancelled before payment ${paymentIntent.id}`)
+  }
+
+  if (!order.user_id) {
+    return { order_id: order.id, points_added: 0, total_points: 0, duplicate: false }
+  }
+
+  const { data: credit, error: creditError } = await supabase.rpc('credit_loyalty_points', {
+    p_user_id: order.user_id,
+    p_order_id: order.id,
+    p_source: 'shopify',
+    p_amount: order.total_amount,
+    p_items: order.items ?? null
+  })
+
+  if (creditError || !credit) throw creditError ?? new Error('credit_loyalty_points returned nothing')
+
+  return {
+    order_id: order.id,
+    points_added: credit.points_added,
+    total_points: credit.balance,
+    duplicate: credit.duplicate
+  }
+}
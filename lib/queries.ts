@@ -1,84 +1,49 @@
 'use client'
 
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { z } from 'zod'
-import { calculatePoints, getTierFromPoints } from './utils'
-
-// Zod schemas for type safety
-export const UserSchema = z.object({
-  id: z.string().uuid(),
-  email: z.string().email(),
-  name: z.string().optional(),
-  created_at: z.string(),
-  updated_at: z.string()
-})
-
-export const LoyaltyPointsSchema = z.object({
-  id: z.string().uuid(),
-  user_id: z.string().uuid(),
-  points: z.number().min(0),
-  tier: z.enum(['Bronze', 'Silver', 'Gold', 'VIP']),
-  streak: z.number().min(0),
-  total_orders: z.number().min(0),
-  total_spent: z.number().min(0),
-  last_order_date: z.string().optional(),
-  created_at: z.string(),
-  updated_at: z.string()
-})
-
-export const LoyaltyTransactionSchema = z.object({
-  id: z.string().uuid(),
-  user_id: z.string().uuid(),
-  order_id: z.string(),
-  shopify_order_id: z.string().optional(),
-  points: z.number(),
-  source: z.enum(['shopify', 'qr', 'manual', 'bonus']),
-  amount: z.number().min(0),
-  qr_code: z.string().optional(),
-  items: z.any().optional(),
-  created_at: z.string()
-})
-
-export const OrderSchema = z.object({
-  id: z.string().uuid(),
-  user_id: z.string().uuid().optional(),
-  shopify_order_id: z.string().optional(),
-  order_number: z.string().optional(),
-  email: z.string().email(),
-  total_amount: z.number().min(0),
-  currency: z.string().default('EUR'),
-  status: z.enum(['pending', 'paid', 'fulfilled', 'cancelled']),
-  items: z.any().optional(),
-  shipping_address: z.any().optional(),
-  billing_address: z.any().optional(),
-  created_at: z.string(),
-  updated_at: z.string()
-})
-
-export const ProductSchema = z.object({
-  id: z.string(),
-  title: z.string(),
-  handle: z.string(),
-  featuredImage: z.object({
-    url: z.string().url()
-  }).optional(),
-  priceRange: z.object({
-    minVariantPrice: z.object({
-      amount: z.string()
-    })
-  }),
-  inventory: z.object({
-    availableForSale: z.boolean(),
-    quantity: z.number().optional()
-  }).optional()
-})
-
-// Type exports
-export type User = z.infer<typeof UserSchema>
-export type LoyaltyPoints = z.infer<typeof LoyaltyPointsSchema>
-export type LoyaltyTransaction = z.infer<typeof LoyaltyTransactionSchema>
-export type Order = z.infer<typeof OrderSchema>
-export type Product = z.infer<typeof ProductSchema>
+import { calculatePoints } from './utils'
+import {
+  DEFAULT_LOYALTY_RULES,
+  decidePointsAdjustment,
+  getAdjustmentQueue,
+  getLoyaltyRules,
+  getPointsExpiry,
+  getReferralSummary,
+  getTierStatus,
+  requestPointsAdjustment,
+  type LoyaltyRules
+} from './loyalty'
+import {
+  AccountDeletionSchema,
+  CartSchema,
+  LoyaltyPointsSchema,
+  LoyaltyTransactionSchema,
+  OrderSchema,
+  PaymentIntentSchema,
+  ProductSchema,
+  UserSchema,
+  pageSchema,
+  type AccountDeletion,
+  type AddPointsInput,
+  type Cart,
+  type CartBuyerIdentityInput,
+  type CartLineAddInput,
+  type CartLineUpdateInput,
+  type CreateOrderInput,
+  type LoyaltyPoints,
+  type LoyaltyTransaction,
+  type CreatePaymentIntentInput,
+  type Order,
+  type Page,
+  type PaymentIntent,
+  type Product,
+  type User,
+  type UserUpdate
+} from './schemas'
+
+export { UserSchema, LoyaltyPointsSchema, LoyaltyTransactionSchema, OrderSchema, ProductSchema } from './schemas'
+export type { User, LoyaltyPoints, LoyaltyTransaction, Order, Product, Cart } from './schemas'
 
 // API endpoints
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '/api'
@@ -90,48 +55,88 @@ export const queryKeys = {
   loyaltyPoints: (userId: string) => ['loyalty', 'points', userId] as const,
   loyaltyTransactions: (userId: string, limit?: number) => ['loyalty', 'transactions', userId, limit] as const,
   orders: (userId?: string, limit?: number) => ['orders', userId, limit] as const,
+  loyaltyTransactionPages: (userId: string, limit: number) => ['loyalty', 'transactions', userId, 'pages', limit] as const,
+  orderPages: (userId: string | undefined, limit: number) => ['orders', userId, 'pages', limit] as const,
   products: (limit?: number) => ['products', limit] as const,
-  userProfile: (userId: string) => ['profile', userId] as const
+  loyaltyRules: () => ['loyalty', 'rules'] as const,
+  pointsExpiry: (userId: string) => ['loyalty', 'expiry', userId] as const,
+  tierStatus: (userId: string) => ['loyalty', 'tier', userId] as const,
+  referrals: (userId: string) => ['loyalty', 'referrals', userId] as const,
+  adjustments: () => ['admin', 'adjustments'] as const,
+  userProfile: (userId: string) => ['profile', userId] as const,
+  cart: () => ['cart'] as const,
+  accountDeletion: () => ['account', 'deletion'] as const
+}
+
+// The /api routes only return the signed in member's own data (next-auth session cookie)
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers
+    }
+  })
 }
 
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  const body = (await response.json().catch(() => null)) as { error?: string } | null
+  return body?.error ?? fallback
+}
+
+function pageParams(limit: number, cursor?: string): string {
+  return `limit=${limit}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+}
+
+const LoyaltyTransactionPageSchema = pageSchema(LoyaltyTransactionSchema)
+const OrderPageSchema = pageSchema(OrderSchema)
+
 // API functions
 const api = {
   async getUser(id: string): Promise<User> {
-    const response = await fetch(`${API_BASE}/users/${id}`)
-    if (!response.ok) throw new Error('Failed to fetch user')
+    const response = await apiFetch(`/users/${id}`)
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch user'))
     const data = await response.json()
     return UserSchema.parse(data)
   },
 
   async getUserByEmail(email: string): Promise<User> {
-    const response = await fetch(`${API_BASE}/users/by-email?email=${encodeURIComponent(email)}`)
-    if (!response.ok) throw new Error('Failed to fetch user by email')
+    const response = await apiFetch(`/users/by-email?email=${encodeURIComponent(email)}`)
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch user by email'))
     const data = await response.json()
     return UserSchema.parse(data)
   },
 
   async getLoyaltyPoints(userId: string): Promise<LoyaltyPoints> {
-    const response = await fetch(`${API_BASE}/loyalty/points/${userId}`)
-    if (!response.ok) throw new Error('Failed to fetch loyalty points')
+    const response = await apiFetch(`/loyalty/points/${userId}`)
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch loyalty points'))
     const data = await response.json()
     return LoyaltyPointsSchema.parse(data)
   },
 
+  async getLoyaltyTransactionsPage(userId: string, limit = 10, cursor?: string): Promise<Page<LoyaltyTransaction>> {
+    const response = await apiFetch(`/loyalty/transactions/${userId}?${pageParams(limit, cursor)}`)
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch loyalty transactions'))
+    const data = await response.json()
+    return LoyaltyTransactionPageSchema.parse(data)
+  },
+
   async getLoyaltyTransactions(userId: string, limit = 10): Promise<LoyaltyTransaction[]> {
-    const response = await fetch(`${API_BASE}/loyalty/transactions/${userId}?limit=${limit}`)
-    if (!response.ok) throw new Error('Failed to fetch loyalty transactions')
+    return (await api.getLoyaltyTransactionsPage(userId, limit)).data
+  },
+
+  async getOrdersPage(userId?: string, limit = 10, cursor?: string): Promise<Page<Order>> {
+    const url = userId
+      ? `/orders?userId=${userId}&${pageParams(limit, cursor)}`
+      : `/orders?${pageParams(limit, cursor)}`
+    const response = await apiFetch(url)
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch orders'))
     const data = await response.json()
-    return z.array(LoyaltyTransactionSchema).parse(data)
+    return OrderPageSchema.parse(data)
   },
 
   async getOrders(userId?: string, limit = 10): Promise<Order[]> {
-    const url = userId 
-      ? `${API_BASE}/orders?userId=${userId}&limit=${limit}`
-      : `${API_BASE}/orders?limit=${limit}`
-    const response = await fetch(url)
-    if (!response.ok) throw new Error('Failed to fetch orders')
-    const data = await response.json()
-    return z.array(OrderSchema).parse(data)
+    return (await api.getOrdersPage(userId, limit)).data
   },
 
   async getProducts(limit = 20): Promise<Product[]> {
@@ -141,47 +146,118 @@ const api = {
     return z.array(ProductSchema).parse(data)
   },
 
-  async addPoints(input: {
-    orderId: string
-    userId?: string
-    email?: string
-    amount: number
-    qrCode?: string
-    source?: 'shopify' | 'qr' | 'manual' | 'bonus'
-  }): Promise<{ points_added: number; total_points: number; tier: string }> {
-    const response = await fetch(`${API_BASE}/loyalty/add-points`, {
+  async addPoints(input: AddPointsInput): Promise<{ points_added: number; total_points: number; tier: string }> {
+    const response = await apiFetch('/loyalty/add-points', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input)
     })
-    if (!response.ok) throw new Error('Failed to add points')
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to add points'))
     return response.json()
   },
 
-  async createOrder(input: {
-    userId?: string
-    email: string
-    items: Array<{ productId: string; quantity: number; price: number }>
-    totalAmount: number
-    shippingAddress?: any
-  }): Promise<Order> {
-    const response = await fetch(`${API_BASE}/orders`, {
+  async createOrder(input: CreateOrderInput): Promise<Order> {
+    const response = await apiFetch('/orders', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(input)
     })
-    if (!response.ok) throw new Error('Failed to create order')
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to create order'))
     const data = await response.json()
     return OrderSchema.parse(data)
   },
 
-  async updateUserProfile(userId: string, updates: Partial<User>): Promise<User> {
-    const response = await fetch(`${API_BASE}/users/${userId}`, {
+  async createPaymentIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent> {
+    const response = await apiFetch('/payments/intent', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to start payment'))
+    const data = await response.json()
+    return PaymentIntentSchema.parse(data)
+  },
+
+  async confirmMockPayment(orderId: string): Promise<{ points_added: number; total_points: number }> {
+    const response = await apiFetch('/payments/mock-confirm', {
+      method: 'POST',
+      body: JSON.stringify({ orderId })
+    })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Payment failed'))
+    return response.json()
+  },
+
+  async getCart(): Promise<Cart | null> {
+    const response = await apiFetch('/cart')
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch cart'))
+    const data = await response.json()
+    return CartSchema.nullable().parse(data)
+  },
+
+  async addCartLine(input: CartLineAddInput): Promise<Cart> {
+    const response = await apiFetch('/cart', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to add to cart'))
+    const data = await response.json()
+    return CartSchema.parse(data)
+  },
+
+  async updateCartLine(input: CartLineUpdateInput): Promise<Cart> {
+    const response = await apiFetch('/cart', {
+      method: 'PATCH',
+      body: JSON.stringify(input)
+    })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to update cart'))
+    const data = await response.json()
+    return CartSchema.parse(data)
+  },
+
+  async updateCartBuyerIdentity(input: CartBuyerIdentityInput): Promise<Cart> {
+    const response = await apiFetch('/cart/buyer-identity', {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to save delivery details'))
+    const data = await response.json()
+    return CartSchema.parse(data)
+  },
+
+  async getAccountDeletion(): Promise<AccountDeletion> {
+    const response = await apiFetch('/account/deletion')
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to fetch deletion request'))
+    const data = await response.json()
+    return AccountDeletionSchema.parse(data)
+  },
+
+  async requestAccountDeletion(): Promise<AccountDeletion> {
+    const response = await apiFetch('/account/deletion', { method: 'POST' })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to request deletion'))
+    const data = await response.json()
+    return AccountDeletionSchema.parse(data)
+  },
+
+  async cancelAccountDeletion(): Promise<AccountDeletion> {
+    const response = await apiFetch('/account/deletion', { method: 'DELETE' })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to cancel deletion'))
+    const data = await response.json()
+    return AccountDeletionSchema.parse(data)
+  },
+
+  async confirmAccountDeletion(token: string): Promise<AccountDeletion> {
+    const response = await apiFetch('/account/deletion/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ token })
+    })
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to confirm deletion'))
+    const data = await response.json()
+    return AccountDeletionSchema.parse(data)
+  },
+
+  async updateUserProfile(userId: string, updates: UserUpdate): Promise<User> {
+    const response = await apiFetch(`/users/${userId}`, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(updates)
     })
-    if (!response.ok) throw new Error('Failed to update user profile')
+    if (!response.ok) throw new Error(await errorMessage(response, 'Failed to update user profile'))
     const data = await response.json()
     return UserSchema.parse(data)
   }
@@ -237,6 +313,94 @@ export function useOrders(userId?: string, limit = 10) {
   })
 }
 
+// Full history, one page at a time (fetchNextPage / hasNextPage)
+export function useLoyaltyTransactionPages(userId: string, limit = 20) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.loyaltyTransactionPages(userId, limit),
+    queryFn: ({ pageParam }) => api.getLoyaltyTransactionsPage(userId, limit, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+    enabled: !!userId,
+    staleTime: 2 * 60 * 1000
+  })
+}
+
+export function useOrderPages(userId?: string, limit = 20) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.orderPages(userId, limit),
+    queryFn: ({ pageParam }) => api.getOrdersPage(userId, limit, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+    staleTime: 1 * 60 * 1000
+  })
+}
+
+export function useLoyaltyRules() {
+  return useQuery({
+    queryKey: queryKeys.loyaltyRules(),
+    queryFn: getLoyaltyRules,
+    placeholderData: DEFAULT_LOYALTY_RULES,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 3
+  })
+}
+
+export function usePointsExpiry(userId?: string) {
+  return useQuery({
+    queryKey: queryKeys.pointsExpiry(userId || ''),
+    queryFn: () => getPointsExpiry(userId!),
+    enabled: !!userId,
+    staleTime: 60 * 60 * 1000, // 1 hour, expiry runs daily
+    retry: 3
+  })
+}
+
+export function useTierStatus(userId?: string) {
+  return useQuery({
+    queryKey: queryKeys.tierStatus(userId || ''),
+    queryFn: () => getTierStatus(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 3
+  })
+}
+
+export function useReferralSummary(userId?: string) {
+  return useQuery({
+    queryKey: queryKeys.referrals(userId || ''),
+    queryFn: () => getReferralSummary(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 3
+  })
+}
+
+export function useAdjustmentQueue() {
+  return useQuery({
+    queryKey: queryKeys.adjustments(),
+    queryFn: getAdjustmentQueue,
+    staleTime: 30 * 1000, // 30 seconds, approvals come from other staff
+    retry: 1
+  })
+}
+
+export function useAccountDeletion(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.accountDeletion(),
+    queryFn: api.getAccountDeletion,
+    enabled
+  })
+}
+
+export function useCart() {
+  return useQuery({
+    queryKey: queryKeys.cart(),
+    queryFn: api.getCart,
+    staleTime: 30 * 1000, // 30 seconds, prices and availability come from Shopify
+    retry: 1
+  })
+}
+
 export function useProducts(limit = 20) {
   return useQuery({
     queryKey: queryKeys.products(limit),
@@ -275,10 +439,12 @@ export function useAddPoints() {
 
       // Optimistically update
       if (previousPoints) {
+        const rules = queryClient.getQueryData<LoyaltyRules>(queryKeys.loyaltyRules()) ?? DEFAULT_LOYALTY_RULES
         const estimatedPoints = calculatePoints(
           variables.amount,
           previousPoints.tier,
-          !!variables.qrCode
+          !!variables.qrCode,
+          rules
         )
         
         const optimisticPoints = {
@@ -290,10 +456,6 @@ export function useAddPoints() {
           updated_at: new Date().toISOString()
         }
 
-        // Update tier based on new points
-        const { tier } = getTierFromPoints(optimisticPoints.points)
-        optimisticPoints.tier = tier
-
         queryClient.setQueryData(
           queryKeys.loyaltyPoints(userId || ''),
           optimisticPoints
@@ -321,6 +483,33 @@ export function useAddPoints() {
       queryClient.invalidateQueries({ 
         queryKey: queryKeys.loyaltyTransactions(variables.userId || '') 
       })
+      // The qualified tier is evaluated server-side over the rolling window
+      queryClient.invalidateQueries({ 
+        queryKey: queryKeys.tierStatus(variables.userId || '') 
+      })
+    }
+  })
+}
+
+// Staff adjustments change the member's balance server-side; refetch instead of guessing
+export function useRequestAdjustment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: requestPointsAdjustment,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adjustments() })
+    }
+  })
+}
+
+export function useDecideAdjustment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: decidePointsAdjustment,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adjustments() })
     }
   })
 }
@@ -346,11 +535,78 @@ export function useCreateOrder() {
   })
 }
 
+// Cart mutations return the whole updated cart from Shopify, which replaces the cached one
+function useCartMutation<Input>(mutationFn: (input: Input) => Promise<Cart>) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (cart) => {
+      queryClient.setQueryData(queryKeys.cart(), cart)
+    }
+  })
+}
+
+export function useAddToCart() {
+  return useCartMutation(api.addCartLine)
+}
+
+export function useUpdateCartLine() {
+  return useCartMutation(api.updateCartLine)
+}
+
+export function useUpdateCartBuyerIdentity() {
+  return useCartMutation(api.updateCartBuyerIdentity)
+}
+
+export function useCreatePaymentIntent() {
+  return useMutation({
+    mutationFn: api.createPaymentIntent
+  })
+}
+
+// The paid order and its points change server-side; refetch instead of guessing
+export function useConfirmMockPayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: api.confirmMockPayment,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['loyalty'] })
+    }
+  })
+}
+
+// Each returns the member's deletion state, which replaces the cached one
+function useAccountDeletionMutation<Input>(mutationFn: (input: Input) => Promise<AccountDeletion>) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (deletion) => {
+      queryClient.setQueryData(queryKeys.accountDeletion(), deletion)
+    }
+  })
+}
+
+export function useRequestAccountDeletion() {
+  return useAccountDeletionMutation(() => api.requestAccountDeletion())
+}
+
+export function useCancelAccountDeletion() {
+  return useAccountDeletionMutation(() => api.cancelAccountDeletion())
+}
+
+export function useConfirmAccountDeletion() {
+  return useAccountDeletionMutation(api.confirmAccountDeletion)
+}
+
 export function useUpdateUserProfile() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ userId, updates }: { userId: string; updates: Partial<User> }) =>
+    mutationFn: ({ userId, updates }: { userId: string; updates: UserUpdate }) =>
       api.updateUserProfile(userId, updates),
     
     onSuccess: (updatedUser) => {
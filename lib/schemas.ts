@@ -0,0 +1,217 @@
+import { z } from 'zod'
+
+// Shared by the React Query hooks (lib/queries.ts) and the /api route handlers,
+// which validate their responses against the same schemas
+
+// Zod schemas for type safety
+export const UserSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email(),
+  name: z.string().optional(),
+  birth_date: z.string().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string()
+})
+
+export const LoyaltyPointsSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  points: z.number(), // reversals can take the balance below zero
+  tier: z.enum(['Bronze', 'Silver', 'Gold', 'VIP']),
+  streak: z.number().min(0),
+  total_orders: z.number().min(0),
+  total_spent: z.number().min(0),
+  last_order_date: z.string().optional(),
+  tier_grace_until: z.string().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string()
+})
+
+export const LoyaltyTransactionSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  order_id: z.string(),
+  shopify_order_id: z.string().optional(),
+  points: z.number(),
+  source: z.enum(['shopify', 'qr', 'manual', 'bonus', 'redemption', 'reversal', 'expiry']),
+  amount: z.number().min(0),
+  qr_code: z.string().optional(),
+  items: z.any().optional(),
+  created_at: z.string()
+})
+
+export const OrderSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid().optional(),
+  shopify_order_id: z.string().optional(),
+  order_number: z.string().optional(),
+  email: z.string().email(),
+  total_amount: z.number().min(0),
+  currency: z.string().default('EUR'),
+  status: z.enum(['pending', 'paid', 'fulfilled', 'cancelled']),
+  items: z.any().optional(),
+  shipping_address: z.any().optional(),
+  billing_address: z.any().optional(),
+  created_at: z.string(),
+  updated_at: z.string()
+})
+
+export const ProductSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  handle: z.string(),
+  featuredImage: z.object({
+    url: z.string().url()
+  }).optional(),
+  priceRange: z.object({
+    minVariantPrice: z.object({
+      amount: z.string()
+    })
+  }),
+  inventory: z.object({
+    availableForSale: z.boolean(),
+    quantity: z.number().optional()
+  }).optional()
+})
+
+// Storefront cart as returned by /api/cart (see lib/cart.ts)
+export const CartSchema = z.object({
+  id: z.string(),
+  checkout_url: z.string().url(),
+  total_quantity: z.number().int().min(0),
+  email: z.string().nullable(),
+  country_code: z.string().nullable(),
+  currency: z.string(),
+  lines: z.array(z.object({
+    id: z.string(),
+    variant_id: z.string(),
+    product_title: z.string(),
+    variant_title: z.string(),
+    handle: z.string(),
+    image_url: z.string().nullable(),
+    quantity: z.number().int().positive(),
+    price: z.number(),
+    total: z.number()
+  })),
+  delivery_options: z.array(z.object({
+    handle: z.string(),
+    title: z.string(),
+    cost: z.number(),
+    selected: z.boolean()
+  })),
+  subtotal: z.number(),
+  tax: z.number().nullable(),
+  total: z.number()
+})
+
+// /api/payments/intent response
+export const PaymentIntentSchema = z.object({
+  payment_intent_id: z.string(),
+  client_secret: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  // null against stripe-mock, which Stripe.js cannot talk to
+  publishable_key: z.string().nullable(),
+  mock: z.boolean()
+})
+
+// /api/account/deletion response; 'none' when no deletion is open
+export const AccountDeletionSchema = z.object({
+  status: z.enum(['none', 'pending_confirmation', 'scheduled']),
+  requested_at: z.string().optional(),
+  confirm_before: z.string().optional(),
+  purge_after: z.string().nullable().optional()
+})
+
+// Type exports
+export type User = z.infer<typeof UserSchema>
+export type LoyaltyPoints = z.infer<typeof LoyaltyPointsSchema>
+export type LoyaltyTransaction = z.infer<typeof LoyaltyTransactionSchema>
+export type Order = z.infer<typeof OrderSchema>
+export type Product = z.infer<typeof ProductSchema>
+export type Cart = z.infer<typeof CartSchema>
+export type PaymentIntent = z.infer<typeof PaymentIntentSchema>
+export type AccountDeletion = z.infer<typeof AccountDeletionSchema>
+
+// Cursor-paginated list responses (/api/loyalty/transactions, /api/orders)
+export function pageSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    data: z.array(item),
+    next_cursor: z.string().nullable()
+  })
+}
+
+export type Page<T> = { data: T[]; next_cursor: string | null }
+
+export const PageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  cursor: z.string().optional()
+})
+
+// Request bodies
+export const UserUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  phone: z.string().trim().max(30).optional(),
+  birth_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').nullable().optional()
+}).strict()
+
+// Prices are looked up on the server (lib/shopify.ts fetchProductPrices)
+export const CreateOrderSchema = z.object({
+  userId: z.string().uuid().optional(),
+  email: z.string().email(),
+  items: z.array(z.object({
+    productId: z.string().startsWith('gid://shopify/Product/'),
+    quantity: z.number().int().positive().max(100)
+  })).min(1).max(50),
+  shippingAddress: z.any().optional()
+})
+
+export const AddPointsSchema = z.object({
+  orderId: z.string().min(1),
+  userId: z.string().uuid().optional(),
+  email: z.string().email().optional(),
+  amount: z.number().positive(),
+  qrCode: z.string().optional(),
+  source: z.enum(['shopify', 'qr', 'manual', 'bonus']).default('shopify')
+})
+
+export const CreatePaymentIntentSchema = z.object({
+  orderId: z.string().uuid()
+})
+
+export const CartLineAddSchema = z.object({
+  variantId: z.string().startsWith('gid://shopify/ProductVariant/'),
+  quantity: z.number().int().positive().max(99).default(1)
+})
+
+// quantity 0 removes the line
+export const CartLineUpdateSchema = z.object({
+  lineId: z.string().min(1),
+  quantity: z.number().int().min(0).max(99)
+})
+
+export const CartBuyerIdentitySchema = z.object({
+  email: z.string().email(),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  address: z.string().trim().min(1).max(200),
+  city: z.string().trim().min(1).max(100),
+  postalCode: z.string().trim().min(1).max(20),
+  countryCode: z.enum(['FI', 'SE', 'NO', 'DK'])
+})
+
+export const AccountExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json')
+})
+
+export const ConfirmAccountDeletionSchema = z.object({
+  token: z.string().min(32).max(128)
+})
+
+export type UserUpdate = z.infer<typeof UserUpdateSchema>
+export type CreateOrderInput = z.infer<typeof CreateOrderSchema>
+export type AddPointsInput = z.input<typeof AddPointsSchema>
+export type CreatePaymentIntentInput = z.infer<typeof CreatePaymentIntentSchema>
+export type CartLineAddInput = z.input<typeof CartLineAddSchema>
+export type CartLineUpdateInput = z.infer<typeof CartLineUpdateSchema>
+export type CartBuyerIdentityInput = z.infer<typeof CartBuyerIdentitySchema>
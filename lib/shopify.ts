@@ -1,12 +1,18 @@
 // Shopify Storefront API client for HerbSpot.fi
-import { createStorefrontClient } from '@shopify/storefront-api-client'
+import { createStorefrontApiClient, type StorefrontApiClient } from '@shopify/storefront-api-client'
 
-// Initialize Shopify client
-export const shopify = createStorefrontClient({
-  storeDomain: process.env.NEXT_PUBLIC_SHOPIFY_STORE_DOMAIN || 'herbspot.myshopify.com',
-  publicStorefrontToken: process.env.NEXT_PUBLIC_SHOPIFY_STOREFRONT_TOKEN || '',
-  apiVersion: process.env.NEXT_PUBLIC_SHOPIFY_API_VERSION || '2024-10'
-})
+let client: StorefrontApiClient | null = null
+
+// Created on first use: the client throws without an access token, and importing this
+// module (the mock products, the cart types) must not
+export function getStorefrontClient(): StorefrontApiClient {
+  client ??= createStorefrontApiClient({
+    storeDomain: process.env.NEXT_PUBLIC_SHOPIFY_STORE_DOMAIN || 'herbspot.myshopify.com',
+    apiVersion: process.env.NEXT_PUBLIC_SHOPIFY_API_VERSION || '2024-10',
+    publicAccessToken: process.env.NEXT_PUBLIC_SHOPIFY_STOREFRONT_TOKEN || ''
+  })
+  return client
+}
 
 // GraphQL queries
 export const GET_PRODUCTS_QUERY = `
@@ -161,10 +167,8 @@ export const GET_COLLECTIONS_QUERY = `
 // Helper functions
 export async function fetchProducts(first: number = 20, after?: string) {
   try {
-    const { data } = await shopify.query({
-      query: GET_PRODUCTS_QUERY,
-      variables: { first, after }
-    })
+    const { data, errors } = await getStorefrontClient().request(GET_PRODUCTS_QUERY, { variables: { first, after } })
+    if (errors) throw new Error(errors.message ?? 'Storefront API request failed')
     
     return {
       products: data?.products?.edges?.map((edge: any) => edge.node) || [],
@@ -178,10 +182,8 @@ export async function fetchProducts(first: number = 20, after?: string) {
 
 export async function fetchProduct(handle: string) {
   try {
-    const { data } = await shopify.query({
-      query: GET_PRODUCT_QUERY,
-      variables: { handle }
-    })
+    const { data, errors } = await getStorefrontClient().request(GET_PRODUCT_QUERY, { variables: { handle } })
+    if (errors) throw new Error(errors.message ?? 'Storefront API request failed')
     
     return data?.product
   } catch (error) {
@@ -192,10 +194,8 @@ export async function fetchProduct(handle: string) {
 
 export async function fetchCollections(first: number = 10) {
   try {
-    const { data } = await shopify.query({
-      query: GET_COLLECTIONS_QUERY,
-      variables: { first }
-    })
+    const { data, errors } = await getStorefrontClient().request(GET_COLLECTIONS_QUERY, { variables: { first } })
+    if (errors) throw new Error(errors.message ?? 'Storefront API request failed')
     
     return data?.collections?.edges?.map((edge: any) => edge.node) || []
   } catch (error) {
@@ -204,6 +204,312 @@ export async function fetchCollections(first: number = 10) {
   }
 }
 
+// Prices of storefront products, read from Shopify so orders never take a price from the
+// browser. A product is priced at its lowest variant price, as the order flow shows it.
+const PRODUCT_PRICES_QUERY = `
+  query productPrices($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        title
+        availableForSale
+        priceRange {
+          minVariantPrice {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+`
+
+export type ProductPrice = { id: string; title: string; price: number; currencyCode: string }
+
+type ProductPriceNode = {
+  id: string
+  title: string
+  availableForSale: boolean
+  priceRange: { minVariantPrice: Money }
+}
+
+// Products that do not exist or are not for sale are left out
+export async function fetchProductPrices(ids: string[]): Promise<Map<string, ProductPrice>> {
+  const { data, errors } = await getStorefrontClient().request(PRODUCT_PRICES_QUERY, { variables: { ids } })
+  if (errors) throw new Error(errors.message ?? 'Storefront API request failed')
+
+  const prices = new Map<string, ProductPrice>()
+  for (const node of (data?.nodes ?? []) as Array<ProductPriceNode | null>) {
+    if (!node?.id || !node.availableForSale) continue
+    prices.set(node.id, {
+      id: node.id,
+      title: node.title,
+      price: Number(node.priceRange.minVariantPrice.amount),
+      currencyCode: node.priceRange.minVariantPrice.currencyCode
+    })
+  }
+  return prices
+}
+
+// Cart (Storefront API). The cart id is kept in a cookie by app/api/cart; checkout
+// itself happens on Shopify through the cart's checkoutUrl.
+const CART_FRAGMENT = `
+  fragment CartFields on Cart {
+    id
+    checkoutUrl
+    totalQuantity
+    buyerIdentity {
+      email
+      countryCode
+    }
+    cost {
+      subtotalAmount {
+        amount
+        currencyCode
+      }
+      totalAmount {
+        amount
+        currencyCode
+      }
+      totalTaxAmount {
+        amount
+        currencyCode
+      }
+    }
+    lines(first: 100) {
+      edges {
+        node {
+          id
+          quantity
+          cost {
+            totalAmount {
+              amount
+              currencyCode
+            }
+          }
+          merchandise {
+            ... on ProductVariant {
+              id
+              title
+              price {
+                amount
+                currencyCode
+              }
+              image {
+                url
+                altText
+              }
+              product {
+                title
+                handle
+              }
+            }
+          }
+        }
+      }
+    }
+    deliveryGroups(first: 5) {
+      edges {
+        node {
+          id
+          deliveryOptions {
+            handle
+            title
+            estimatedCost {
+              amount
+              currencyCode
+            }
+          }
+          selectedDeliveryOption {
+            handle
+          }
+        }
+      }
+    }
+  }
+`
+
+export const GET_CART_QUERY = `
+  query getCart($cartId: ID!) {
+    cart(id: $cartId) {
+      ...CartFields
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_CREATE_MUTATION = `
+  mutation cartCreate($input: CartInput!) {
+    cartCreate(input: $input) {
+      cart {
+        ...CartFields
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_LINES_ADD_MUTATION = `
+  mutation cartLinesAdd($cartId: ID!, $lines: [CartLineInput!]!) {
+    cartLinesAdd(cartId: $cartId, lines: $lines) {
+      cart {
+        ...CartFields
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_LINES_UPDATE_MUTATION = `
+  mutation cartLinesUpdate($cartId: ID!, $lines: [CartLineUpdateInput!]!) {
+    cartLinesUpdate(cartId: $cartId, lines: $lines) {
+      cart {
+        ...CartFields
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_LINES_REMOVE_MUTATION = `
+  mutation cartLinesRemove($cartId: ID!, $lineIds: [ID!]!) {
+    cartLinesRemove(cartId: $cartId, lineIds: $lineIds) {
+      cart {
+        ...CartFields
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export const CART_BUYER_IDENTITY_UPDATE_MUTATION = `
+  mutation cartBuyerIdentityUpdate($cartId: ID!, $buyerIdentity: CartBuyerIdentityInput!) {
+    cartBuyerIdentityUpdate(cartId: $cartId, buyerIdentity: $buyerIdentity) {
+      cart {
+        ...CartFields
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+  ${CART_FRAGMENT}
+`
+
+export type CartLineInput = { merchandiseId: string; quantity: number }
+
+export type ShopifyBuyerIdentity = {
+  email?: string
+  countryCode?: string
+  deliveryAddressPreferences?: Array<{
+    deliveryAddress: {
+      firstName?: string
+      lastName?: string
+      address1: string
+      city: string
+      zip: string
+      country: string
+    }
+  }>
+}
+
+type Money = { amount: string; currencyCode: string }
+
+export type ShopifyCart = {
+  id: string
+  checkoutUrl: string
+  totalQuantity: number
+  buyerIdentity: { email: string | null; countryCode: string | null }
+  cost: { subtotalAmount: Money; totalAmount: Money; totalTaxAmount: Money | null }
+  lines: {
+    edges: Array<{
+      node: {
+        id: string
+        quantity: number
+        cost: { totalAmount: Money }
+        merchandise: {
+          id: string
+          title: string
+          price: Money
+          image: { url: string; altText: string | null } | null
+          product: { title: string; handle: string }
+        }
+      }
+    }>
+  }
+  deliveryGroups: {
+    edges: Array<{
+      node: {
+        id: string
+        deliveryOptions: Array<{ handle: string; title: string | null; estimatedCost: Money }>
+        selectedDeliveryOption: { handle: string } | null
+      }
+    }>
+  }
+}
+
+export class ShopifyCartError extends Error {}
+
+async function cartRequest(operation: string, variables: Record<string, unknown>, field?: string) {
+  const { data, errors } = await getStorefrontClient().request(operation, { variables })
+  if (errors) {
+    throw new ShopifyCartError(errors.message ?? 'Storefront API request failed')
+  }
+  if (!field) return (data?.cart ?? null) as ShopifyCart | null
+
+  const payload = data?.[field]
+  if (payload?.userErrors?.length) {
+    throw new ShopifyCartError(payload.userErrors[0].message)
+  }
+  return payload.cart as ShopifyCart
+}
+
+// null when the cart has expired or was checked out
+export async function getCart(cartId: string): Promise<ShopifyCart | null> {
+  return cartRequest(GET_CART_QUERY, { cartId })
+}
+
+export async function createCart(lines: CartLineInput[], buyerIdentity?: ShopifyBuyerIdentity) {
+  return cartRequest(CART_CREATE_MUTATION, { input: { lines, buyerIdentity } }, 'cartCreate') as Promise<ShopifyCart>
+}
+
+export async function addCartLines(cartId: string, lines: CartLineInput[]) {
+  return cartRequest(CART_LINES_ADD_MUTATION, { cartId, lines }, 'cartLinesAdd') as Promise<ShopifyCart>
+}
+
+export async function updateCartLines(cartId: string, lines: Array<{ id: string; quantity: number }>) {
+  return cartRequest(CART_LINES_UPDATE_MUTATION, { cartId, lines }, 'cartLinesUpdate') as Promise<ShopifyCart>
+}
+
+export async function removeCartLines(cartId: string, lineIds: string[]) {
+  return cartRequest(CART_LINES_REMOVE_MUTATION, { cartId, lineIds }, 'cartLinesRemove') as Promise<ShopifyCart>
+}
+
+export async function updateCartBuyerIdentity(cartId: string, buyerIdentity: ShopifyBuyerIdentity) {
+  return cartRequest(
+    CART_BUYER_IDENTITY_UPDATE_MUTATION,
+    { cartId, buyerIdentity },
+    'cartBuyerIdentityUpdate'
+  ) as Promise<ShopifyCart>
+}
+
 // Mock data for development/fallback
 export const mockProducts = [
   {
@@ -0,0 +1,56 @@
+'use client'
+
+// Stripe.js is loaded from js.stripe.com (Stripe requires it to be served from there
+// for PCI compliance) and only on the payment step.
+
+const STRIPE_JS_URL = 'https://js.stripe.com/v3/'
+
+// The parts of the Stripe.js API the payment step uses
+export type StripeJs = {
+  elements(options: { clientSecret: string; appearance?: Record<string, unknown> }): StripeElements
+  confirmPayment(options: {
+    elements: StripeElements
+    redirect: 'if_required'
+    confirmParams?: { return_url?: string }
+  }): Promise<{ error?: { message?: string }; paymentIntent?: { id: string; status: string } }>
+}
+
+export type StripeElements = {
+  create(type: 'payment'): { mount(element: HTMLElement): void; destroy(): void }
+}
+
+declare global {
+  interface Window {
+    // Set by the Stripe.js script
+    Stripe?: (publishableKey: string) => StripeJs
+  }
+}
+
+let stripeJsPromise: Promise<(publishableKey: string) => StripeJs> | null = null
+
+function loadStripeJs(): Promise<(publishableKey: string) => StripeJs> {
+  stripeJsPromise ??= new Promise((resolve, reject) => {
+    const script = document.createElement('script')
+    script.src = STRIPE_JS_URL
+    script.async = true
+    script.onload = () => {
+      if (window.Stripe) {
+        resolve(window.Stripe)
+      } else {
+        stripeJsPromise = null
+        reject(new Error('Stripe.js did not load'))
+      }
+    }
+    script.onerror = () => {
+      stripeJsPromise = null
+      reject(new Error('Failed to load Stripe.js'))
+    }
+    document.head.appendChild(script)
+  })
+  return stripeJsPromise
+}
+
+export async function getStripeJs(publishableKey: string): Promise<StripeJs> {
+  const Stripe = await loadStripeJs()
+  return Stripe(publishableKey)
+}
@@ -0,0 +1,18 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+// Service-role client for server code (API routes, next-auth adapter). Never import from client components.
+let serviceClient: SupabaseClient | null = null
+
+export function getServiceClient(): SupabaseClient {
+  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !serviceKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY')
+  }
+
+  serviceClient ??= createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+  return serviceClient
+}
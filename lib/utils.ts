@@ -1,5 +1,12 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import {
+  DEFAULT_LOYALTY_RULES,
+  calculateOrderPoints,
+  getTierProgress,
+  type LoyaltyRules,
+  type TierName
+} from '@/supabase/functions/_shared/loyalty-rules'
 
 /**
  * Utility function to merge Tailwind CSS classes
@@ -37,53 +44,35 @@ export function formatNumber(
 
 /**
  * Calculate points based on amount and tier
+ * Evaluates the loyalty rules (defaults until the active rules are loaded)
  */
 export function calculatePoints(
   amount: number,
-  tier: 'Bronze' | 'Silver' | 'Gold' | 'VIP' = 'Bronze',
-  hasQrBonus: boolean = false
+  tier: TierName = 'Bronze',
+  hasQrBonus: boolean = false,
+  rules: LoyaltyRules = DEFAULT_LOYALTY_RULES
 ): number {
-  const basePointsPerEuro = 2 // Bronze tier
-  const tierMultipliers = {
-    Bronze: 1.0,
-    Silver: 1.25,
-    Gold: 1.5,
-    VIP: 2.0
-  }
-  
-  const qrMultiplier = hasQrBonus ? 1.5 : 1.0
-  const basePoints = Math.floor(amount * basePointsPerEuro)
-  
-  return Math.floor(basePoints * tierMultipliers[tier] * qrMultiplier)
+  return calculateOrderPoints(rules, amount, tier, hasQrBonus)
 }
 
 /**
- * Get tier from points
+ * Get tier from qualifying points (earned in the rolling window, or € with the 'spend' basis).
+ * Pass the member's tier_qualifying_value, not their balance.
  */
-export function getTierFromPoints(points: number): {
-  tier: 'Bronze' | 'Silver' | 'Gold' | 'VIP'
+export function getTierFromPoints(
+  points: number,
+  rules: LoyaltyRules = DEFAULT_LOYALTY_RULES
+): {
+  tier: TierName
   pointsToNext: number
   progress: number
 } {
-  const thresholds = [
-    { tier: 'Bronze' as const, min: 0, max: 499 },
-    { tier: 'Silver' as const, min: 500, max: 1499 },
-    { tier: 'Gold' as const, min: 1500, max: 3999 },
-    { tier: 'VIP' as const, min: 4000, max: Infinity }
-  ]
-  
-  const currentThreshold = thresholds.find(t => points >= t.min && points <= t.max) || thresholds[0]
-  const nextThreshold = thresholds.find(t => t.min > points)
-  
-  const pointsToNext = nextThreshold ? nextThreshold.min - points : 0
-  const progress = nextThreshold 
-    ? ((points - currentThreshold.min) / (nextThreshold.min - currentThreshold.min)) * 100
-    : 100
-  
+  const { tier, pointsToNext, progress } = getTierProgress(rules, points)
+
   return {
-    tier: currentThreshold.tier,
+    tier: tier.name,
     pointsToNext,
-    progress: Math.min(100, Math.max(0, progress))
+    progress
   }
 }
 
@@ -0,0 +1,566 @@
+// supabase/functions/_shared/loyalty-rules.ts
+// HerbSpot.fi Loyalty Rules Engine
+// Evaluates the versioned earning and tier rules stored in the loyalty_rules table.
+// This module has no imports so it can be shared by the edge functions (Deno),
+// the Next.js client (via '@/supabase/functions/_shared/loyalty-rules') and the
+// Hydrogen account routes.
+
+export type TierName = 'Bronze' | 'Silver' | 'Gold' | 'VIP';
+
+export interface TierRule {
+  name: TierName;
+  min_points: number;
+  min_spend: number; // € in the qualification window, used when qualification.basis is 'spend'
+  multiplier: number;
+  color: string;
+}
+
+export interface RedemptionRule {
+  points_per_euro: number; // points needed for €1 of discount
+  min_points: number; // smallest redemption allowed
+  step_points: number; // redemptions are made in multiples of this
+  code_valid_days: number; // lifetime of the generated discount code
+}
+
+export interface ExpiryRule {
+  earned_months: number | null; // points expire this long after earning (null = never)
+  inactivity_months: number | null; // whole balance expires after this long without activity (null = never)
+  warning_days: number; // members are warned this many days ahead
+}
+
+export interface StreakMilestone {
+  streak: number; // consecutive windows with an order
+  bonus_points: number;
+}
+
+export interface StreakRule {
+  window: 'week' | 'month' | 'quarter'; // calendar window that needs at least one paid order
+  timezone: string; // IANA zone the calendar windows are cut in
+  milestones: StreakMilestone[]; // sorted ascending by streak
+}
+
+export interface QualificationRule {
+  basis: 'points' | 'spend'; // what a tier is earned with
+  window_months: number; // rolling window the basis is summed over
+  grace_days: number; // a member keeps a tier this long after falling below it
+}
+
+export interface EarningRuleMatch {
+  tags?: string[]; // Shopify product tags
+  product_types?: string[];
+  collections?: string[]; // collection handles
+  product_ids?: string[];
+  gift_card?: boolean;
+}
+
+export interface EarningRule {
+  id: string;
+  name: string;
+  match: EarningRuleMatch; // matches when any condition does
+  multiplier: number; // 0 excludes the line; otherwise the highest matching multiplier applies
+}
+
+export interface EarningConfig {
+  exclude_shipping: boolean;
+  exclude_taxes: boolean; // leave out the tax included in line prices
+  rules: EarningRule[];
+}
+
+export interface ReferralRule {
+  referrer_bonus: number; // points for the member who shared the code
+  referee_bonus: number; // points for the referred customer
+  min_order_amount: number; // smallest first order that qualifies
+}
+
+export interface CelebrationBonusRule {
+  birthday: number; // points on the member's birthday, 0 disables
+  anniversary: number; // points on each yearly anniversary of signing up, 0 disables
+  catch_up_days: number; // occasions missed by up to this many days are still granted
+  timezone: string; // calendar the dates are read in
+}
+
+export interface ManualAdjustmentRule {
+  approval_threshold: number; // adjustments of more points than this need a second approver
+  approval_window_hours: number; // a requester's recent adjustments for the member or ticket count towards it
+  max_points: number; // largest single credit or debit
+}
+
+export interface LoyaltyRules {
+  version: number;
+  points_per_euro: number; // base points per €1 before tier multiplier
+  min_order_amount: number; // orders below this earn nothing
+  qr_multiplier: number; // applied on top of the tier multiplier for QR orders
+  tiers: TierRule[]; // sorted ascending by min_points
+  redemption: RedemptionRule;
+  expiry: ExpiryRule;
+  streak: StreakRule;
+  qualification: QualificationRule;
+  earning: EarningConfig;
+  referral: ReferralRule;
+  celebration_bonuses: CelebrationBonusRule;
+  manual_adjustments: ManualAdjustmentRule;
+}
+
+// An order line as sent to credit_loyalty_points() in items.lines
+export interface OrderLine {
+  id?: string;
+  kind: 'product' | 'shipping';
+  title: string;
+  quantity: number;
+  amount: number; // after discounts, as charged
+  tax: number; // tax included in amount
+  product_id?: string;
+  variant_id?: string;
+  gift_card?: boolean;
+  tags?: string[];
+  product_type?: string;
+  collections?: string[];
+}
+
+export interface LinePoints extends OrderLine {
+  eligible_amount: number;
+  multiplier: number;
+  rules: string[]; // ids of the matching earning rules
+  points: number;
+}
+
+export interface LineItemBreakdown {
+  points: number;
+  eligible_amount: number;
+  lines: LinePoints[];
+}
+
+export interface RedemptionQuote {
+  balance: number;
+  redeemable_points: number; // largest redeemable amount for this balance
+  euro_value: number; // value of redeemable_points
+  options: number[]; // selectable point amounts, ascending
+}
+
+export interface TierProgress {
+  tier: TierRule;
+  nextTier: TierRule | null;
+  pointsToNext: number;
+  progress: number; // 0-100
+}
+
+// Fallback used until the active rules have been loaded (or if Supabase is unreachable).
+// Must match the latest rules version seeded by the migrations.
+export const DEFAULT_LOYALTY_RULES: LoyaltyRules = {
+  version: 9,
+  points_per_euro: 2,
+  min_order_amount: 5,
+  qr_multiplier: 1.5,
+  tiers: [
+    { name: 'Bronze', min_points: 0, min_spend: 0, multiplier: 1.0, color: '#CD7F32' },
+    { name: 'Silver', min_points: 500, min_spend: 250, multiplier: 1.25, color: '#C0C0C0' },
+    { name: 'Gold', min_points: 1500, min_spend: 750, multiplier: 1.5, color: '#FFD700' },
+    { name: 'VIP', min_points: 4000, min_spend: 2000, multiplier: 2.0, color: '#39FF14' },
+  ],
+  redemption: {
+    points_per_euro: 100,
+    min_points: 500,
+    step_points: 100,
+    code_valid_days: 30,
+  },
+  expiry: {
+    earned_months: 12,
+    inactivity_months: null,
+    warning_days: 30,
+  },
+  streak: {
+    window: 'month',
+    timezone: 'Europe/Helsinki',
+    milestones: [
+      { streak: 3, bonus_points: 50 },
+      { streak: 6, bonus_points: 150 },
+      { streak: 12, bonus_points: 400 },
+    ],
+  },
+  qualification: {
+    basis: 'points',
+    window_months: 12,
+    grace_days: 90,
+  },
+  earning: {
+    exclude_shipping: true,
+    exclude_taxes: true,
+    rules: [
+      { id: 'no-gift-cards', name: 'Ei pisteitä lahjakorteista', match: { gift_card: true }, multiplier: 0 },
+      {
+        id: 'aromatherapy-double',
+        name: 'Tuplapisteet aromaterapialaitteista',
+        match: { tags: ['aromatherapy'], product_types: ['Aromatherapy Device'] },
+        multiplier: 2,
+      },
+    ],
+  },
+  referral: {
+    referrer_bonus: 250,
+    referee_bonus: 150,
+    min_order_amount: 20,
+  },
+  celebration_bonuses: {
+    birthday: 200,
+    anniversary: 100,
+    catch_up_days: 3,
+    timezone: 'Europe/Helsinki',
+  },
+  manual_adjustments: {
+    approval_threshold: 1000,
+    approval_window_hours: 24,
+    max_points: 50000,
+  },
+};
+
+/**
+ * Normalize the JSON returned by the get_loyalty_rules() RPC (or a loyalty_rules row).
+ * Missing or malformed fields fall back to the defaults so a bad row never breaks earning.
+ */
+export function parseLoyaltyRules(raw: unknown): LoyaltyRules {
+  if (!raw || typeof raw !== 'object') return DEFAULT_LOYALTY_RULES;
+
+  const row = raw as Record<string, any>;
+  // Accept both the flattened RPC shape and a raw table row ({ version, rules })
+  const data = row.rules && typeof row.rules === 'object' ? { ...row.rules, version: row.version } : row;
+
+  const tiers: TierRule[] = Array.isArray(data.tiers)
+    ? data.tiers
+        .filter((t: any) => t && typeof t.name === 'string')
+        .map((t: any) => ({
+          name: t.name as TierName,
+          min_points: toNumber(t.min_points, 0),
+          min_spend: toNumber(t.min_spend, toNumber(t.min_points, 0)),
+          multiplier: toNumber(t.multiplier, 1),
+          color: typeof t.color === 'string' ? t.color : '#CD7F32',
+        }))
+        .sort((a: TierRule, b: TierRule) => a.min_points - b.min_points)
+    : [];
+
+  return {
+    version: toNumber(data.version, DEFAULT_LOYALTY_RULES.version),
+    points_per_euro: toNumber(data.points_per_euro, DEFAULT_LOYALTY_RULES.points_per_euro),
+    min_order_amount: toNumber(data.min_order_amount, DEFAULT_LOYALTY_RULES.min_order_amount),
+    qr_multiplier: toNumber(data.qr_multiplier, DEFAULT_LOYALTY_RULES.qr_multiplier),
+    tiers: tiers.length > 0 ? tiers : DEFAULT_LOYALTY_RULES.tiers,
+    redemption: parseRedemptionRule(data.redemption),
+    expiry: parseExpiryRule(data.expiry),
+    streak: parseStreakRule(data.streak),
+    qualification: parseQualificationRule(data.qualification),
+    earning: parseEarningConfig(data.earning),
+    referral: parseReferralRule(data.referral),
+    celebration_bonuses: parseCelebrationBonusRule(data.celebration_bonuses),
+    manual_adjustments: parseManualAdjustmentRule(data.manual_adjustments),
+  };
+}
+
+function parseRedemptionRule(raw: any): RedemptionRule {
+  const defaults = DEFAULT_LOYALTY_RULES.redemption;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  return {
+    points_per_euro: toNumber(raw.points_per_euro, defaults.points_per_euro),
+    min_points: toNumber(raw.min_points, defaults.min_points),
+    step_points: Math.max(1, toNumber(raw.step_points, defaults.step_points)),
+    code_valid_days: toNumber(raw.code_valid_days, defaults.code_valid_days),
+  };
+}
+
+function parseExpiryRule(raw: any): ExpiryRule {
+  const defaults = DEFAULT_LOYALTY_RULES.expiry;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  // An explicit null disables that kind of expiry
+  const months = (value: unknown, fallback: number | null) =>
+    value === null ? null : toNumber(value, fallback ?? NaN) || null;
+
+  return {
+    earned_months: months(raw.earned_months, defaults.earned_months),
+    inactivity_months: months(raw.inactivity_months, defaults.inactivity_months),
+    warning_days: toNumber(raw.warning_days, defaults.warning_days),
+  };
+}
+
+function parseStreakRule(raw: any): StreakRule {
+  const defaults = DEFAULT_LOYALTY_RULES.streak;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  const milestones: StreakMilestone[] = Array.isArray(raw.milestones)
+    ? raw.milestones
+        .map((m: any) => ({ streak: toNumber(m?.streak, 0), bonus_points: toNumber(m?.bonus_points, 0) }))
+        .filter((m: StreakMilestone) => m.streak > 0 && m.bonus_points > 0)
+        .sort((a: StreakMilestone, b: StreakMilestone) => a.streak - b.streak)
+    : defaults.milestones;
+
+  return {
+    window: ['week', 'month', 'quarter'].includes(raw.window) ? raw.window : defaults.window,
+    timezone: typeof raw.timezone === 'string' ? raw.timezone : defaults.timezone,
+    milestones,
+  };
+}
+
+function parseQualificationRule(raw: any): QualificationRule {
+  const defaults = DEFAULT_LOYALTY_RULES.qualification;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  return {
+    basis: raw.basis === 'spend' ? 'spend' : 'points',
+    window_months: Math.max(1, toNumber(raw.window_months, defaults.window_months)),
+    grace_days: Math.max(0, toNumber(raw.grace_days, defaults.grace_days)),
+  };
+}
+
+function parseEarningConfig(raw: any): EarningConfig {
+  const defaults = DEFAULT_LOYALTY_RULES.earning;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+
+  const rules: EarningRule[] = Array.isArray(raw.rules)
+    ? raw.rules
+        .filter((r: any) => r && typeof r.id === 'string' && r.match && typeof r.match === 'object')
+        .map((r: any) => ({
+          id: r.id,
+          name: typeof r.name === 'string' ? r.name : r.id,
+          match: {
+            tags: strings(r.match.tags),
+            product_types: strings(r.match.product_types),
+            collections: strings(r.match.collections),
+            product_ids: strings(r.match.product_ids),
+            gift_card: typeof r.match.gift_card === 'boolean' ? r.match.gift_card : undefined,
+          },
+          multiplier: Math.max(0, toNumber(r.multiplier, 1)),
+        }))
+    : defaults.rules;
+
+  return {
+    exclude_shipping: typeof raw.exclude_shipping === 'boolean' ? raw.exclude_shipping : defaults.exclude_shipping,
+    exclude_taxes: typeof raw.exclude_taxes === 'boolean' ? raw.exclude_taxes : defaults.exclude_taxes,
+    rules,
+  };
+}
+
+function parseReferralRule(raw: any): ReferralRule {
+  const defaults = DEFAULT_LOYALTY_RULES.referral;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  return {
+    referrer_bonus: Math.max(0, toNumber(raw.referrer_bonus, defaults.referrer_bonus)),
+    referee_bonus: Math.max(0, toNumber(raw.referee_bonus, defaults.referee_bonus)),
+    min_order_amount: toNumber(raw.min_order_amount, defaults.min_order_amount),
+  };
+}
+
+function parseCelebrationBonusRule(raw: any): CelebrationBonusRule {
+  const defaults = DEFAULT_LOYALTY_RULES.celebration_bonuses;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  return {
+    birthday: Math.max(0, toNumber(raw.birthday, defaults.birthday)),
+    anniversary: Math.max(0, toNumber(raw.anniversary, defaults.anniversary)),
+    catch_up_days: Math.max(0, toNumber(raw.catch_up_days, defaults.catch_up_days)),
+    timezone: typeof raw.timezone === 'string' ? raw.timezone : defaults.timezone,
+  };
+}
+
+function parseManualAdjustmentRule(raw: any): ManualAdjustmentRule {
+  const defaults = DEFAULT_LOYALTY_RULES.manual_adjustments;
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  return {
+    approval_threshold: Math.max(0, toNumber(raw.approval_threshold, defaults.approval_threshold)),
+    approval_window_hours: Math.max(0, toNumber(raw.approval_window_hours, defaults.approval_window_hours)),
+    max_points: Math.max(1, toNumber(raw.max_points, defaults.max_points)),
+  };
+}
+
+export function getTierRule(rules: LoyaltyRules, tier: string): TierRule {
+  return rules.tiers.find(t => t.name === tier) ?? rules.tiers[0];
+}
+
+/**
+ * Qualifying value a tier requires: min_points, or min_spend when tiers are earned with spend.
+ */
+export function getTierThreshold(rules: LoyaltyRules, tier: TierRule): number {
+  return rules.qualification.basis === 'spend' ? tier.min_spend : tier.min_points;
+}
+
+// The functions below take the qualifying value of the rolling window (points, or €
+// with the 'spend' basis), not the balance. Mirrors get_tier_for_value() in SQL.
+export function getTierForPoints(rules: LoyaltyRules, points: number): TierRule {
+  let current = rules.tiers[0];
+  for (const tier of rules.tiers) {
+    if (points >= getTierThreshold(rules, tier)) current = tier;
+  }
+  return current;
+}
+
+export function getNextTier(rules: LoyaltyRules, points: number): TierRule | null {
+  return rules.tiers.find(t => getTierThreshold(rules, t) > points) ?? null;
+}
+
+export function getTierProgress(rules: LoyaltyRules, points: number): TierProgress {
+  const tier = getTierForPoints(rules, points);
+  const nextTier = getNextTier(rules, points);
+  const floor = getTierThreshold(rules, tier);
+
+  const pointsToNext = nextTier ? getTierThreshold(rules, nextTier) - points : 0;
+  const progress = nextTier
+    ? ((points - floor) / (getTierThreshold(rules, nextTier) - floor)) * 100
+    : 100;
+
+  return {
+    tier,
+    nextTier,
+    pointsToNext,
+    progress: Math.min(100, Math.max(0, progress)),
+  };
+}
+
+/**
+ * Payload of the member QR code shown in both account areas. Staff scan it at the
+ * counter to credit an in-store purchase to the member.
+ */
+export function getMemberQrData(userId: string): string {
+  return `herbspot://member/${userId}`;
+}
+
+/**
+ * The member id in a scanned member QR code, or null for any other code.
+ */
+export function parseMemberQrData(data: string): string | null {
+  const match = /^herbspot:\/\/member\/([0-9a-f-]{36})$/i.exec(data.trim());
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Effective points per €1 for a tier, e.g. 2 × 1.25 = 2.5 for Silver.
+ */
+export function getPointsPerEuro(rules: LoyaltyRules, tier: string): number {
+  return rules.points_per_euro * getTierRule(rules, tier).multiplier;
+}
+
+/**
+ * Points earned for an order. Mirrors calculate_order_points() in SQL.
+ */
+export function calculateOrderPoints(
+  rules: LoyaltyRules,
+  amount: number,
+  tier: string = rules.tiers[0].name,
+  hasQrBonus: boolean = false,
+): number {
+  if (!Number.isFinite(amount) || amount < rules.min_order_amount) return 0;
+
+  const basePoints = Math.floor(amount * rules.points_per_euro);
+  const qrMultiplier = hasQrBonus ? rules.qr_multiplier : 1.0;
+
+  return Math.floor(basePoints * getTierRule(rules, tier).multiplier * qrMultiplier);
+}
+
+/**
+ * Whether an order line matches an earning rule. Mirrors earning_rule_matches() in SQL.
+ */
+export function matchesEarningRule(match: EarningRuleMatch, line: OrderLine): boolean {
+  const has = (wanted: string[] | undefined, actual: string[] | undefined) =>
+    !!wanted && !!actual && wanted.some(w => actual.some(a => a.toLowerCase() === w.toLowerCase()));
+
+  return (
+    (match.gift_card !== undefined && (line.gift_card ?? false) === match.gift_card) ||
+    has(match.tags, line.tags) ||
+    has(match.product_types, line.product_type ? [line.product_type] : undefined) ||
+    has(match.collections, line.collections) ||
+    (!!match.product_ids && !!line.product_id && match.product_ids.includes(line.product_id))
+  );
+}
+
+/**
+ * Points for an order's lines. Mirrors calculate_line_item_points() in SQL.
+ */
+export function calculateLineItemPoints(
+  rules: LoyaltyRules,
+  lines: OrderLine[],
+  tier: string = rules.tiers[0].name,
+  hasQrBonus: boolean = false,
+): LineItemBreakdown {
+  const { exclude_shipping, exclude_taxes } = rules.earning;
+  const rate =
+    rules.points_per_euro * getTierRule(rules, tier).multiplier * (hasQrBonus ? rules.qr_multiplier : 1.0);
+
+  const result = lines.map((line): LinePoints => {
+    const matched = rules.earning.rules.filter(r => matchesEarningRule(r.match, line));
+    const multiplier = matched.some(r => r.multiplier === 0)
+      ? 0
+      : matched.length > 0
+        ? Math.max(...matched.map(r => r.multiplier))
+        : 1.0;
+
+    let eligible = line.amount - (exclude_taxes ? line.tax : 0);
+    if (line.kind === 'shipping' && exclude_shipping) eligible = 0;
+    eligible = Math.round(Math.max(eligible, 0) * 100) / 100;
+
+    return {
+      ...line,
+      eligible_amount: eligible,
+      multiplier,
+      rules: matched.map(r => r.id),
+      points: Math.floor(eligible * rate * multiplier),
+    };
+  });
+
+  return {
+    points: result.reduce((sum, l) => sum + l.points, 0),
+    eligible_amount: result.reduce((sum, l) => sum + (l.multiplier > 0 ? l.eligible_amount : 0), 0),
+    lines: result,
+  };
+}
+
+/**
+ * Discount value in euros for a number of points, rounded down to whole cents.
+ */
+export function getRedemptionValue(rules: LoyaltyRules, points: number): number {
+  return Math.floor((points / rules.redemption.points_per_euro) * 100) / 100;
+}
+
+/**
+ * Validate a requested redemption. Returns an error message, or null when allowed.
+ */
+export function validateRedemption(rules: LoyaltyRules, balance: number, points: number): string | null {
+  const { min_points, step_points } = rules.redemption;
+
+  if (!Number.isInteger(points) || points <= 0) return 'Points must be a positive whole number';
+  if (points < min_points) return `At least ${min_points} points are required to redeem`;
+  if (points % step_points !== 0) return `Points must be redeemed in multiples of ${step_points}`;
+  if (points > balance) return 'Insufficient points balance';
+
+  return null;
+}
+
+export function getRedemptionQuote(rules: LoyaltyRules, balance: number): RedemptionQuote {
+  const { min_points, step_points } = rules.redemption;
+  const redeemable = balance >= min_points ? Math.floor(balance / step_points) * step_points : 0;
+
+  const options: number[] = [];
+  for (let p = Math.ceil(min_points / step_points) * step_points; p <= redeemable; p += step_points) {
+    options.push(p);
+  }
+
+  return {
+    balance,
+    redeemable_points: redeemable,
+    euro_value: getRedemptionValue(rules, redeemable),
+    options,
+  };
+}
+
+/**
+ * Next streak milestone above the current streak, or null when all have been reached.
+ */
+export function getNextStreakMilestone(rules: LoyaltyRules, streak: number): StreakMilestone | null {
+  return rules.streak.milestones.find(m => m.streak > streak) ?? null;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : fallback;
+}
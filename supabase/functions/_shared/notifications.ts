@@ -0,0 +1,37 @@
+// supabase/functions/_shared/notifications.ts
+// HerbSpot.fi member notifications
+// Sends transactional email through Resend when RESEND_API_KEY is set. Without a key
+// the message is only logged (local development) and reported as not sent, so jobs
+// that record a sent notice try it again once email is configured.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('NOTIFICATION_FROM_EMAIL') ?? 'HerbSpot.fi <noreply@herbspot.fi>';
+
+  if (!apiKey) {
+    console.log(`[email disabled] To ${message.to}: ${message.subject}`);
+    return false;
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to send email to ${message.to}:`, await response.text());
+    return false;
+  }
+
+  return true;
+}
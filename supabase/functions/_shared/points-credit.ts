@@ -0,0 +1,87 @@
+// supabase/functions/_shared/points-credit.ts
+// HerbSpot.fi idempotent points credit
+// Wraps credit_loyalty_points() so a repeated order is answered with the credit it
+// already received, also when two deliveries race into the (order_id, source) index.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface CreditParams {
+  p_user_id: string;
+  p_order_id: string;
+  p_source: string;
+  p_amount: number;
+  p_shopify_order_id?: string | null;
+  p_qr_code?: string | null;
+  p_items?: unknown;
+}
+
+// Same shape as credit_loyalty_points() returns
+export interface PointsCredit {
+  duplicate: boolean;
+  transaction_id: string;
+  user_id: string;
+  order_id: string;
+  points_added: number;
+  eligible_amount: number | null;
+  balance: number;
+  tier: string;
+  total_orders: number;
+  streak: number;
+  streak_bonus: number;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+export async function creditLoyaltyPoints(
+  supabase: SupabaseClient,
+  params: CreditParams,
+): Promise<{ data: PointsCredit | null; error: { message: string; code?: string } | null }> {
+  const { data, error } = await supabase.rpc('credit_loyalty_points', params);
+
+  if (error?.code !== UNIQUE_VIOLATION) {
+    return { data, error };
+  }
+
+  console.log(`Order ${params.p_order_id} (${params.p_source}) was credited concurrently; returning that credit`);
+  return findOriginalCredit(supabase, params.p_order_id, params.p_source);
+}
+
+async function findOriginalCredit(supabase: SupabaseClient, orderId: string, source: string) {
+  const { data: transaction, error } = await supabase
+    .from('loyalty_transactions')
+    .select('id, user_id, order_id, points, items')
+    .eq('order_id', orderId)
+    .eq('source', source)
+    .maybeSingle();
+
+  if (error || !transaction) {
+    return { data: null, error: error ?? { message: `No credit found for order ${orderId}` } };
+  }
+
+  const { data: summary, error: summaryError } = await supabase
+    .from('loyalty_points')
+    .select('points, tier, total_orders, streak')
+    .eq('user_id', transaction.user_id)
+    .maybeSingle();
+
+  if (summaryError) {
+    return { data: null, error: summaryError };
+  }
+
+  return {
+    data: {
+      duplicate: true,
+      transaction_id: transaction.id,
+      user_id: transaction.user_id,
+      order_id: transaction.order_id,
+      points_added: transaction.points,
+      eligible_amount: transaction.items?.eligible_amount ?? null,
+      balance: summary?.points ?? 0,
+      tier: summary?.tier ?? 'Bronze',
+      total_orders: summary?.total_orders ?? 0,
+      streak: summary?.streak ?? 0,
+      streak_bonus: 0,
+    },
+    error: null,
+  };
+}
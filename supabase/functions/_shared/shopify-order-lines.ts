@@ -0,0 +1,135 @@
+// supabase/functions/_shared/shopify-order-lines.ts
+// HerbSpot.fi order lines for earning rules
+// Converts Shopify order line items into the OrderLine shape credit_loyalty_points()
+// evaluates, adding product tags, type and collections from the Admin API.
+
+import type { OrderLine } from './loyalty-rules.ts';
+
+export interface ShopifyOrderLinesInput {
+  line_items?: any[] | null;
+  taxes_included?: boolean;
+  shipping_amount?: number | string | null;
+}
+
+interface ProductMetadata {
+  tags: string[];
+  product_type: string;
+  collections: string[];
+}
+
+const PRODUCT_METADATA_QUERY = `
+  query ProductEarningMetadata($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        productType
+        tags
+        collections(first: 50) {
+          nodes { handle }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Build order lines from a Shopify order. Returns null when there are no line items,
+ * in which case the order earns on its total as before.
+ */
+export async function buildOrderLines(input: ShopifyOrderLinesInput): Promise<OrderLine[] | null> {
+  const lineItems = Array.isArray(input.line_items) ? input.line_items : [];
+  if (lineItems.length === 0) return null;
+
+  const productIds = [
+    ...new Set(
+      lineItems
+        .map(item => item.product_id ?? item.productId)
+        .filter((id): id is string | number => id !== null && id !== undefined)
+        .map(String),
+    ),
+  ];
+
+  // Without product metadata only gift card and product id rules can match
+  const metadata = await loadProductMetadata(productIds).catch(error => {
+    console.error('Error loading product metadata for earning rules:', error);
+    return new Map<string, ProductMetadata>();
+  });
+
+  const lines: OrderLine[] = lineItems.map(item => {
+    const quantity = Number(item.quantity ?? 1);
+    const discount = Array.isArray(item.discount_allocations)
+      ? item.discount_allocations.reduce((sum: number, d: any) => sum + Number(d.amount ?? 0), 0)
+      : Number(item.total_discount ?? 0);
+    const tax = input.taxes_included && Array.isArray(item.tax_lines)
+      ? item.tax_lines.reduce((sum: number, t: any) => sum + Number(t.price ?? 0), 0)
+      : 0;
+    const productId = item.product_id ?? item.productId;
+    const product = productId !== null && productId !== undefined ? metadata.get(String(productId)) : undefined;
+
+    return {
+      id: item.id !== undefined ? String(item.id) : undefined,
+      kind: 'product',
+      title: item.title ?? item.name ?? '',
+      quantity,
+      amount: roundCents(Number(item.price ?? 0) * quantity - discount),
+      tax: roundCents(tax),
+      product_id: productId !== null && productId !== undefined ? String(productId) : undefined,
+      variant_id: item.variant_id ? String(item.variant_id) : undefined,
+      gift_card: Boolean(item.gift_card),
+      tags: product?.tags,
+      product_type: product?.product_type,
+      collections: product?.collections,
+    };
+  });
+
+  const shipping = Number(input.shipping_amount ?? 0);
+  if (shipping > 0) {
+    lines.push({ kind: 'shipping', title: 'Shipping', quantity: 1, amount: roundCents(shipping), tax: 0 });
+  }
+
+  return lines;
+}
+
+async function loadProductMetadata(productIds: string[]): Promise<Map<string, ProductMetadata>> {
+  const shopDomain = Deno.env.get('SHOPIFY_STORE_DOMAIN');
+  const adminToken = Deno.env.get('SHOPIFY_ADMIN_ACCESS_TOKEN');
+  const apiVersion = Deno.env.get('SHOPIFY_ADMIN_API_VERSION') ?? '2024-10';
+  const metadata = new Map<string, ProductMetadata>();
+
+  if (productIds.length === 0) return metadata;
+  if (!shopDomain || !adminToken) {
+    throw new Error('Missing SHOPIFY_STORE_DOMAIN or SHOPIFY_ADMIN_ACCESS_TOKEN');
+  }
+
+  const response = await fetch(`https://${shopDomain}/admin/api/${apiVersion}/graphql.json`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Shopify-Access-Token': adminToken,
+    },
+    body: JSON.stringify({
+      query: PRODUCT_METADATA_QUERY,
+      variables: { ids: productIds.map(id => `gid://shopify/Product/${id}`) },
+    }),
+  });
+
+  const result = await response.json();
+  if (!response.ok || result.errors) {
+    throw new Error(JSON.stringify(result.errors ?? result));
+  }
+
+  for (const node of result.data?.nodes ?? []) {
+    if (!node?.id) continue;
+    metadata.set(String(node.id).split('/').pop()!, {
+      tags: node.tags ?? [],
+      product_type: node.productType ?? '',
+      collections: (node.collections?.nodes ?? []).map((c: any) => c.handle),
+    });
+  }
+
+  return metadata;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
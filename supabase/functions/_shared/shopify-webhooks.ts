@@ -0,0 +1,878 @@
+// supabase/functions/_shared/shopify-webhooks.ts
+// HerbSpot.fi Shopify webhook handling
+// Topic handlers and delivery bookkeeping shared by webhook-shopify (queues live
+// deliveries), webhook-worker (runs the queue) and webhook-replay (manual replays).
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { LinePoints } from "./loyalty-rules.ts";
+import { sendEmail } from "./notifications.ts";
+
+// A delivery as stored in webhook_deliveries
+export interface WebhookDelivery {
+  webhook_id: string;
+  topic: string;
+  shop_domain: string | null;
+  payload: any;
+  headers: Record<string, string> | null;
+}
+
+export interface DeliveryResult {
+  status: 'processed' | 'failed' | 'dead' | 'duplicate' | 'in_progress';
+  attempts: number;
+  next_attempt_at?: string | null;
+  response: Response;
+}
+
+type RequestData = {
+  webhook_id: string | null;
+  shop_domain: string | null;
+  headers: Record<string, string> | null;
+  payload: any;
+};
+
+// Only the X-Shopify-* headers are kept with a delivery; the HMAC is checked before storing
+export function getShopifyHeaders(headers: Headers): Record<string, string> {
+  const shopifyHeaders: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name.startsWith('x-shopify-') && name !== 'x-shopify-hmac-sha256') {
+      shopifyHeaders[name] = value;
+    }
+  });
+  return shopifyHeaders;
+}
+
+/**
+ * Jobs with the same key run one at a time, in the order received (claim_webhook_jobs):
+ * an order's paid, fulfilled, cancelled and refund events, or one customer's events.
+ */
+export function getOrderingKey(topic: string, payload: any, shopDomain: string | null): string | null {
+  if (topic.startsWith('orders/') && payload?.id) return `order:${payload.id}`;
+  if (topic === 'refunds/create' && payload?.order_id) return `order:${payload.order_id}`;
+  if (topic.startsWith('customers/')) {
+    const customerId = payload?.customer?.id ?? payload?.id;
+    return customerId ? `customer:${customerId}` : null;
+  }
+  if (topic === 'shop/redact') return `shop:${shopDomain ?? payload?.shop_domain}`;
+  return null;
+}
+
+/**
+ * Store a verified delivery as a job for webhook-worker. Returns 'duplicate' when the
+ * delivery id is already stored, whatever state its job is in.
+ */
+export async function enqueueDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery
+): Promise<'queued' | 'duplicate'> {
+  const { data, error } = await supabase.rpc('enqueue_webhook_delivery', {
+    p_webhook_id: delivery.webhook_id,
+    p_topic: delivery.topic,
+    p_shop_domain: delivery.shop_domain,
+    p_payload: delivery.payload,
+    p_headers: delivery.headers,
+    p_ordering_key: getOrderingKey(delivery.topic, delivery.payload, delivery.shop_domain),
+  });
+
+  if (error) {
+    throw new Error(`Failed to enqueue delivery ${delivery.webhook_id}: ${error.message}`);
+  }
+  return data.status;
+}
+
+/**
+ * Claim the delivery, run its topic handler and record the outcome (manual replays). A
+ * delivery that was already processed is answered with its stored response and not
+ * handled again.
+ */
+export async function processDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  corsHeaders: Record<string, string>
+): Promise<DeliveryResult> {
+  const { data: claim, error: claimError } = await supabase.rpc('claim_webhook_delivery', {
+    p_webhook_id: delivery.webhook_id,
+    p_topic: delivery.topic,
+    p_shop_domain: delivery.shop_domain,
+    p_payload: delivery.payload,
+    p_headers: delivery.headers,
+  });
+
+  if (claimError) {
+    throw new Error(`Failed to claim delivery ${delivery.webhook_id}: ${claimError.message}`);
+  }
+
+  if (claim.status === 'duplicate') {
+    console.log(`Delivery ${delivery.webhook_id} (${delivery.topic}) was already processed`);
+    return {
+      status: 'duplicate',
+      attempts: claim.attempts,
+      response: new Response(
+        JSON.stringify({ ...claim.response, duplicate: true }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      ),
+    };
+  }
+
+  if (claim.status === 'in_progress') {
+    // The running attempt (usually webhook-worker) records the outcome
+    return {
+      status: 'in_progress',
+      attempts: claim.attempts,
+      response: new Response('Delivery is being processed', { status: 409, headers: corsHeaders }),
+    };
+  }
+
+  return await runDelivery(supabase, delivery, claim.attempts, corsHeaders);
+}
+
+/**
+ * Run a claimed delivery and record the outcome: processed, or failed with the next
+ * retry scheduled (dead after the last attempt).
+ */
+export async function runDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  attempts: number,
+  corsHeaders: Record<string, string>
+): Promise<DeliveryResult> {
+  const response = await handleTopic(delivery, corsHeaders);
+
+  const { data: completed, error: completeError } = await supabase.rpc('complete_webhook_delivery', {
+    p_webhook_id: delivery.webhook_id,
+    p_response_status: response.status,
+    p_response: await response.clone().json().catch(() => null),
+  });
+
+  if (completeError) {
+    console.error('Error completing webhook delivery:', completeError);
+  } else if (completed.status === 'dead') {
+    console.error(`Delivery ${delivery.webhook_id} (${delivery.topic}) failed ${completed.attempts} times; moved to dead letters`);
+  }
+
+  return {
+    status: completed?.status ?? (response.ok ? 'processed' : 'failed'),
+    attempts: completed?.attempts ?? attempts,
+    next_attempt_at: completed?.next_attempt_at ?? null,
+    response,
+  };
+}
+
+// Runs the handler for the delivery's topic. A non-2xx response marks the delivery
+// failed, and webhook-worker retries it with backoff.
+async function handleTopic(
+  delivery: WebhookDelivery,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const { topic, payload } = delivery;
+  const requestData = {
+    webhook_id: delivery.webhook_id,
+    shop_domain: delivery.shop_domain,
+    headers: delivery.headers,
+    payload,
+  };
+
+  switch (topic) {
+    case 'orders/paid':
+      return await handleOrderPaid(payload, corsHeaders, requestData);
+    case 'orders/fulfilled':
+      return await handleOrderFulfilled(payload, corsHeaders, requestData);
+    case 'orders/cancelled':
+      return await handleOrderCancelled(payload, corsHeaders, requestData);
+    case 'refunds/create':
+      return await handleRefundCreated(payload, corsHeaders, requestData);
+    case 'customers/create':
+    case 'customers/update':
+      return await handleCustomerUpdated(payload, topic, corsHeaders, requestData);
+    case 'customers/data_request':
+      return await handleCustomerDataRequest(payload, corsHeaders, requestData);
+    case 'customers/redact':
+      return await handleCustomerRedact(payload, corsHeaders, requestData);
+    case 'shop/redact':
+      return await handleShopRedact(payload, corsHeaders, requestData);
+    default:
+      console.log(`Unhandled webhook topic: ${topic}`);
+      return new Response('OK', { status: 200, headers: corsHeaders });
+  }
+}
+
+async function handleOrderPaid(order: any, corsHeaders: any, requestData: RequestData) {
+  console.log(`Processing paid order: ${order.id}`);
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Match the member by Shopify customer id first, so a changed email stays one member
+    const customerId = order.customer?.id?.toString() ?? null;
+    const { data: userId, error: memberError } = await supabase.rpc('resolve_loyalty_member', {
+      p_customer_id: customerId,
+      p_email: order.customer?.email ?? order.email ?? null,
+    });
+
+    if (memberError) {
+      console.error('Error resolving loyalty member:', memberError);
+    }
+
+    // Extract order data
+    const orderData = {
+      shopify_order_id: order.id.toString(),
+      user_id: userId ?? null,
+      order_number: order.order_number,
+      email: order.customer?.email,
+      shopify_customer_id: customerId,
+      total_amount: parseFloat(order.total_price),
+      currency: order.currency,
+      status: 'paid',
+      items: order.line_items?.map((item: any) => ({
+        id: item.id,
+        title: item.title,
+        quantity: item.quantity,
+        price: parseFloat(item.price),
+        variant_id: item.variant_id,
+        product_id: item.product_id
+      })),
+      shipping_address: order.shipping_address,
+      billing_address: order.billing_address,
+      created_at: order.created_at,
+      updated_at: order.updated_at
+    };
+
+    // Store order in database
+    const { error: orderError } = await supabase
+      .from('orders')
+      .upsert([orderData], { onConflict: 'shopify_order_id' });
+
+    if (orderError) {
+      console.error('Error storing order:', orderError);
+      // Continue anyway - don't fail the webhook for database errors
+    }
+
+    // Call points-add function to add loyalty points
+    const pointsResponse = await fetch(`${supabaseUrl}/functions/v1/points-add`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        order_id: order.id.toString(),
+        user_id: userId ?? undefined,
+        email: order.customer?.email,
+        shopify_customer_id: customerId,
+        amount: parseFloat(order.total_price),
+        shopify_order_id: order.id.toString(),
+        items: order.line_items,
+        taxes_included: Boolean(order.taxes_included),
+        shipping_amount: order.total_shipping_price_set?.shop_money?.amount ?? null,
+        source: 'shopify'
+      })
+    });
+
+    const pointsResult = await pointsResponse.json();
+    
+    if (pointsResponse.ok) {
+      console.log(`Successfully added ${pointsResult.points_added} points for order ${order.id}`);
+    } else {
+      console.error('Failed to add points:', pointsResult);
+    }
+
+    // Referral bonuses on the referred customer's first paid order. The code comes from
+    // the storefront's /ref/CODE link (cart attribute); emails referred earlier match too.
+    if (pointsResponse.ok) {
+      const referralCode = order.note_attributes?.find(
+        (attr: any) => attr.name === 'referral_code'
+      )?.value ?? null;
+
+      const { data: referral, error: referralError } = await supabase.rpc('apply_referral', {
+        p_email: order.customer?.email ?? order.email ?? null,
+        p_order_id: order.id.toString(),
+        p_amount: parseFloat(order.total_price),
+        p_code: referralCode,
+      });
+
+      if (referralError) {
+        console.error('Error applying referral:', referralError);
+      } else if (referral?.status !== 'ignored') {
+        console.log(`Referral for order ${order.id}: ${referral.status}${referral.reason ? ` (${referral.reason})` : ''}`);
+      }
+    }
+
+    // Log the webhook processing
+    await supabase
+      .from('webhook_logs')
+      .insert([{
+        webhook_type: 'orders/paid',
+        shopify_order_id: order.id.toString(),
+        processed_at: new Date().toISOString(),
+        success: pointsResponse.ok,
+        points_added: pointsResult.points_added || 0,
+        error_message: pointsResponse.ok ? null : pointsResult.error,
+        request_data: requestData
+      }]);
+
+    if (!pointsResponse.ok) {
+      // Retried by the queue; points-add answers a repeated order with its original credit
+      return new Response(
+        JSON.stringify({ error: 'Failed to add points', order_id: order.id }),
+        { status: 502, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        order_id: order.id,
+        points_added: pointsResult.points_added || 0,
+        duplicate: Boolean(pointsResult.duplicate)
+      }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing order paid webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process order' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+async function handleOrderFulfilled(order: any, corsHeaders: any, requestData: RequestData) {
+  console.log(`Processing fulfilled order: ${order.id}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Update order status
+    const { error } = await supabase
+      .from('orders')
+      .update({ 
+        status: 'fulfilled',
+        updated_at: new Date().toISOString()
+      })
+      .eq('shopify_order_id', order.id.toString());
+
+    if (error) {
+      console.error('Error updating order status:', error);
+    }
+
+    // Log fulfillment
+    await supabase
+      .from('webhook_logs')
+      .insert([{
+        webhook_type: 'orders/fulfilled',
+        shopify_order_id: order.id.toString(),
+        processed_at: new Date().toISOString(),
+        success: true,
+        request_data: requestData
+      }]);
+
+    return new Response(
+      JSON.stringify({ success: true, order_id: order.id }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing order fulfilled webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process fulfillment' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+async function handleOrderCancelled(order: any, corsHeaders: any, requestData: RequestData) {
+  console.log(`Processing cancelled order: ${order.id}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Update order status
+    const { error } = await supabase
+      .from('orders')
+      .update({ 
+        status: 'cancelled',
+        updated_at: new Date().toISOString()
+      })
+      .eq('shopify_order_id', order.id.toString());
+
+    if (error) {
+      console.error('Error updating cancelled order:', error);
+    }
+
+    // Reverse whatever the order earned and has not already been refunded
+    const { data: reversal, error: reversalError } = await supabase.rpc('reverse_order_points', {
+      p_shopify_order_id: order.id.toString(),
+      p_kind: 'cancel',
+      p_reference: 'cancel',
+      p_details: { cancel_reason: order.cancel_reason ?? null },
+    });
+
+    if (reversalError) {
+      console.error('Error reversing points for cancelled order:', reversalError);
+    } else {
+      logReversal(order.id, reversal);
+    }
+
+    // Log cancellation
+    await supabase
+      .from('webhook_logs')
+      .insert([{
+        webhook_type: 'orders/cancelled',
+        shopify_order_id: order.id.toString(),
+        processed_at: new Date().toISOString(),
+        success: !reversalError,
+        points_added: -(reversal?.points_reversed || 0),
+        error_message: reversalError ? reversalError.message : null,
+        request_data: requestData
+      }]);
+
+    if (reversalError) {
+      // Retried by the queue; reverse_order_points is idempotent per order
+      return new Response(
+        JSON.stringify({ error: 'Failed to reverse points' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        order_id: order.id,
+        points_reversed: reversal?.points_reversed || 0
+      }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing order cancelled webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process cancellation' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+
+// Keep the linked member's email and name in step with Shopify. An address that already
+// belongs to another member is left alone and logged; merge the two with merge-loyalty-members.
+async function handleCustomerUpdated(customer: any, topic: string, corsHeaders: any, requestData: RequestData) {
+  console.log(`Processing ${topic}: ${customer.id}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const name = [customer.first_name, customer.last_name].filter(Boolean).join(' ') || null;
+
+    const { data: sync, error } = await supabase.rpc('sync_shopify_customer', {
+      p_customer_id: customer.id.toString(),
+      p_email: customer.email ?? null,
+      p_name: name,
+    });
+
+    if (error) {
+      console.error('Error syncing Shopify customer:', error);
+    } else if (sync.status === 'conflict') {
+      console.warn(
+        `Customer ${customer.id} changed email to one used by member ${sync.duplicate_user_id}; merge needed`
+      );
+    } else {
+      console.log(`Customer ${customer.id}: ${sync.status}`);
+    }
+
+    await supabase
+      .from('webhook_logs')
+      .insert([{
+        webhook_type: topic,
+        processed_at: new Date().toISOString(),
+        success: !error,
+        error_message: error ? error.message : sync.status === 'conflict' ? 'email_conflict' : null,
+        request_data: { ...requestData, customer_id: customer.id, sync }
+      }]);
+
+    if (error) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to sync customer' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, customer_id: customer.id, status: sync.status }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing customer webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process customer' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// GDPR: customers/data_request. The export is stored in gdpr_requests for the shop to
+// hand over; only a notice goes out by email.
+async function handleCustomerDataRequest(request: any, corsHeaders: any, requestData: RequestData) {
+  const customerId = request.customer?.id?.toString() ?? null;
+  console.log(`Processing customer data request for customer: ${customerId}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: result, error } = await supabase.rpc('record_customer_data_request', {
+      p_shop_domain: request.shop_domain ?? requestData.shop_domain,
+      p_customer_id: customerId,
+      p_email: request.customer?.email ?? null,
+      p_shopify_order_ids: (request.orders_requested ?? []).map(String),
+      p_request_id: request.data_request?.id?.toString() ?? null,
+    });
+
+    if (error) {
+      console.error('Error exporting customer data:', error);
+    } else {
+      const contactEmail = Deno.env.get('GDPR_CONTACT_EMAIL');
+      if (contactEmail) {
+        await sendEmail({
+          to: contactEmail,
+          subject: `Customer data request ${request.data_request?.id ?? ''}`.trim(),
+          text: `Shopify customer ${customerId} asked for their data. The export (${result.orders} orders, ` +
+            `${result.transactions} loyalty transactions) is stored in gdpr_requests ${result.request_id}.`,
+        });
+      }
+    }
+
+    await logGdprRequest(supabase, 'customers/data_request', requestData, error, result?.request_id);
+
+    if (error) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to export customer data' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, request_id: result.request_id }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing customer data request webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process data request' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// GDPR: customers/redact. Anonymises the member and the listed orders; the ledger and
+// order totals stay (see redact_loyalty_member).
+async function handleCustomerRedact(request: any, corsHeaders: any, requestData: RequestData) {
+  const customerId = request.customer?.id?.toString() ?? null;
+  console.log(`Processing customer redact for customer: ${customerId}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: report, error } = await supabase.rpc('redact_shopify_customer', {
+      p_shop_domain: request.shop_domain ?? requestData.shop_domain,
+      p_customer_id: customerId,
+      p_email: request.customer?.email ?? null,
+      p_shopify_order_ids: (request.orders_to_redact ?? []).map(String),
+    });
+
+    if (error) {
+      console.error('Error redacting customer:', error);
+    } else {
+      console.log(`Redacted customer ${customerId}: member ${report.user_id ?? 'none'}, ${report.orders.orders} orders`);
+    }
+
+    await logGdprRequest(supabase, 'customers/redact', requestData, error, report?.request_id);
+
+    if (error) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to redact customer' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, request_id: report.request_id }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing customer redact webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process customer redact' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// GDPR: shop/redact, sent 48 hours after the app is uninstalled
+async function handleShopRedact(request: any, corsHeaders: any, requestData: RequestData) {
+  const shopDomain = request.shop_domain ?? requestData.shop_domain;
+  console.log(`Processing shop redact for: ${shopDomain}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Orders and members are not stored per shop, so redact_shop clears them all: only the
+    // store this deployment serves may trigger it (not another shop or a CLI test trigger)
+    const storeDomain = Deno.env.get('SHOPIFY_STORE_DOMAIN');
+    if (!storeDomain) {
+      console.error('Missing SHOPIFY_STORE_DOMAIN; shop/redact not processed');
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    if (shopDomain?.toLowerCase() !== storeDomain.toLowerCase()) {
+      console.warn(`Ignoring shop/redact for ${shopDomain}; this store is ${storeDomain}`);
+      await logGdprRequest(supabase, 'shop/redact', requestData, { message: `Not this store: ${shopDomain}` });
+      return new Response(
+        JSON.stringify({ success: true, ignored: 'not this store' }),
+        { status: 200, headers: corsHeaders }
+      );
+    }
+
+    const { data: report, error } = await supabase.rpc('redact_shop', { p_shop_domain: shopDomain });
+
+    if (error) {
+      console.error('Error redacting shop data:', error);
+    }
+
+    await logGdprRequest(supabase, 'shop/redact', requestData, error, report?.request_id);
+
+    if (error) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to redact shop data' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, request_id: report.request_id }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing shop redact webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process shop redact' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// GDPR payloads carry the customer's email and phone, so only the ids are logged
+async function logGdprRequest(
+  supabase: SupabaseClient,
+  topic: string,
+  requestData: RequestData,
+  error: { message: string } | null,
+  gdprRequestId?: string
+) {
+  await supabase
+    .from('webhook_logs')
+    .insert([{
+      webhook_type: topic,
+      processed_at: new Date().toISOString(),
+      success: !error,
+      error_message: error ? error.message : null,
+      request_data: {
+        webhook_id: requestData.webhook_id,
+        shop_domain: requestData.shop_domain,
+        gdpr_request_id: gdprRequestId ?? null,
+      }
+    }]);
+}
+
+async function handleRefundCreated(refund: any, corsHeaders: any, requestData: RequestData) {
+  console.log(`Processing refund ${refund.id} for order: ${refund.order_id}`);
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const shopifyOrderId = refund.order_id.toString();
+
+    // The order's credits with their per-line breakdown, which the refund is reversed against
+    const { data: credits, error: creditsError } = await supabase
+      .from('loyalty_transactions')
+      .select('points, amount, items')
+      .eq('order_id', shopifyOrderId)
+      .in('source', ['shopify', 'qr']);
+
+    if (creditsError) {
+      console.error('Error loading credits for refunded order:', creditsError);
+    }
+
+    const refunded = getRefundReversal(refund, credits ?? []);
+
+    let reversal: any = null;
+    let reversalError: any = creditsError;
+
+    if (!creditsError && refunded.points > 0) {
+      const result = await supabase.rpc('reverse_order_points', {
+        p_shopify_order_id: shopifyOrderId,
+        p_kind: 'refund',
+        p_reference: `refund:${refund.id}`,
+        p_points: refunded.points,
+        p_amount: refunded.amount,
+        p_details: {
+          refund_id: refund.id.toString(),
+          basis: refunded.basis,
+          refunded_amount: refunded.amount,
+          refund_line_items: (refund.refund_line_items ?? []).map((item: any) => ({
+            line_item_id: item.line_item_id,
+            quantity: item.quantity,
+            subtotal: parseFloat(item.subtotal ?? 0)
+          }))
+        },
+      });
+      reversal = result.data;
+      reversalError = result.error;
+    } else if (!creditsError) {
+      console.log(`Refund ${refund.id} takes back no earned points`);
+    }
+
+    if (reversalError) {
+      console.error('Error reversing points for refund:', reversalError);
+    } else if (reversal) {
+      logReversal(refund.order_id, reversal);
+    }
+
+    await supabase
+      .from('webhook_logs')
+      .insert([{
+        webhook_type: 'refunds/create',
+        shopify_order_id: shopifyOrderId,
+        processed_at: new Date().toISOString(),
+        success: !reversalError,
+        points_added: -(reversal?.points_reversed || 0),
+        error_message: reversalError ? reversalError.message : null,
+        request_data: requestData
+      }]);
+
+    if (reversalError) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to reverse points' }),
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        order_id: refund.order_id,
+        refund_id: refund.id,
+        points_reversed: reversal?.points_reversed || 0
+      }),
+      { status: 200, headers: corsHeaders }
+    );
+
+  } catch (error) {
+    console.error('Error processing refund webhook:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to process refund' }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+// A credit row of the order (source 'shopify' or 'qr')
+interface OrderCredit {
+  points: number;
+  amount: number;
+  items: { lines?: LinePoints[] } | null;
+}
+
+export interface RefundReversal {
+  points: number;
+  amount: number;
+  // 'lines': refunded lines reverse what they earned; 'amount': share of the credited amount
+  basis: 'lines' | 'amount';
+}
+
+/**
+ * Points and spend a refund takes back from the order's credits. Refunded line items
+ * reverse the points those lines earned in the credit's items.lines breakdown; refunds
+ * without line items (amount only, shipping, order adjustments) and credits earned on
+ * the order total reverse the refunded share of the credited amount.
+ */
+export function getRefundReversal(refund: any, credits: OrderCredit[]): RefundReversal {
+  const refundLines: any[] = refund.refund_line_items ?? [];
+  const refundedMoney = (refund.transactions ?? [])
+    .filter((t: any) => t.kind === 'refund' && (t.status ?? 'success') === 'success')
+    .reduce((sum: number, t: any) => sum + (parseFloat(t.amount) || 0), 0);
+  const refundedSubtotal = refundLines.reduce((sum: number, item: any) => {
+    const subtotal = item.subtotal != null
+      ? parseFloat(item.subtotal)
+      : parseFloat(item.line_item?.price ?? 0) * (item.quantity || 0);
+    return sum + (subtotal || 0);
+  }, 0);
+
+  let points = 0;
+  let lineAmount = 0;
+
+  for (const credit of credits) {
+    const creditLines = credit.items?.lines;
+
+    if (refundLines.length > 0 && Array.isArray(creditLines)) {
+      for (const item of refundLines) {
+        const line = creditLines.find(l => l.kind === 'product' && l.id === String(item.line_item_id));
+        if (!line || !(line.quantity > 0)) continue;
+
+        const share = Math.min((Number(item.quantity) || 0) / line.quantity, 1);
+        points += (Number(line.points) || 0) * share;
+        lineAmount += (Number(line.amount) || 0) * share;
+      }
+      continue;
+    }
+
+    const credited = Number(credit.amount) || 0;
+    if (credited <= 0) continue;
+
+    const refundedValue = refundLines.length > 0 ? refundedSubtotal : refundedMoney;
+    points += (Number(credit.points) || 0) * Math.min(refundedValue / credited, 1);
+  }
+
+  const basis = refundLines.length > 0 && credits.some(c => Array.isArray(c.items?.lines)) ? 'lines' : 'amount';
+  const amount = refundedMoney > 0 ? refundedMoney : basis === 'lines' ? lineAmount : refundedSubtotal;
+
+  return {
+    points: Math.round(points),
+    amount: Math.round(amount * 100) / 100,
+    basis,
+  };
+}
+
+function logReversal(orderId: unknown, reversal: any) {
+  if (!reversal?.reversed) {
+    console.log(`No points reversed for order ${orderId}: ${reversal?.reason}`);
+    return;
+  }
+
+  console.log(`Reversed ${reversal.points_reversed} points for order ${orderId}, balance ${reversal.balance} (${reversal.tier})`);
+  if (reversal.flagged_for_review) {
+    console.warn(`Negative balance for user ${reversal.user_id} after reversing order ${orderId}, flagged for review`);
+  }
+}
@@ -0,0 +1,160 @@
+// supabase/functions/_shared/webhook-signatures.ts
+// HerbSpot.fi webhook signature verification
+// Shopify (X-Shopify-Hmac-Sha256) and Stripe-style (t=…,v1=…) HMAC-SHA256 signatures,
+// compared in constant time against every active secret so secrets can be rotated.
+
+export type SignatureCheck =
+  | { valid: true }
+  | { valid: false; reason: 'missing_signature' | 'malformed_signature' | 'no_secret' | 'mismatch' | 'stale_timestamp' };
+
+// Stripe's own default tolerance
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let out = 0;
+  for (let i = 0; i < a.length; i++) out |= a[i] ^ b[i];
+  return out === 0;
+}
+
+/**
+ * The active secrets for a provider: `NAME` plus, during a rotation window,
+ * `NAME_PREVIOUS`. Either may hold several comma-separated secrets.
+ */
+export function getWebhookSecrets(name: string): string[] {
+  return [Deno.env.get(name), Deno.env.get(`${name}_PREVIOUS`)]
+    .flatMap((value) => (value ?? '').split(','))
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+async function hmacSha256(secret: string, data: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, data));
+}
+
+function toBytes(body: string | Uint8Array): Uint8Array {
+  return typeof body === 'string' ? encoder.encode(body) : body;
+}
+
+function fromBase64(value: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function fromHex(value: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(value)) return null;
+  return Uint8Array.from(value.match(/../g)!, (byte) => parseInt(byte, 16));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function matchesAnySecret(secrets: string[], data: Uint8Array, signatures: Uint8Array[]): Promise<boolean> {
+  let matched = false;
+  // Every secret is tried, so the timing does not tell which one matched
+  for (const secret of secrets) {
+    const expected = await hmacSha256(secret, data);
+    for (const signature of signatures) {
+      if (timingSafeEqual(expected, signature)) matched = true;
+    }
+  }
+  return matched;
+}
+
+/** Base64 HMAC-SHA256 of the body, as Shopify sends it in X-Shopify-Hmac-Sha256. */
+export async function signShopifyWebhook(body: string | Uint8Array, secret: string): Promise<string> {
+  const signature = await hmacSha256(secret, toBytes(body));
+  return btoa(String.fromCharCode(...signature));
+}
+
+/**
+ * Verify X-Shopify-Hmac-Sha256 over the raw body. Shopify signs no timestamp
+ * (X-Shopify-Triggered-At is unsigned and keeps its value on retries), so replays
+ * are handled by delivery id deduplication instead (claim_webhook_delivery).
+ */
+export async function verifyShopifyWebhook(
+  body: string | Uint8Array,
+  header: string | null,
+  secrets: string[],
+): Promise<SignatureCheck> {
+  if (!header) return { valid: false, reason: 'missing_signature' };
+  if (secrets.length === 0) return { valid: false, reason: 'no_secret' };
+
+  const signature = fromBase64(header.trim());
+  if (!signature) return { valid: false, reason: 'malformed_signature' };
+
+  return await matchesAnySecret(secrets, toBytes(body), [signature])
+    ? { valid: true }
+    : { valid: false, reason: 'mismatch' };
+}
+
+/** A Stripe-Signature style header (`t=<unix seconds>,v1=<hex>`) for the body. */
+export async function signStripeWebhook(
+  body: string | Uint8Array,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): Promise<string> {
+  const signed = await hmacSha256(secret, stripeSignedPayload(timestamp, toBytes(body)));
+  return `t=${timestamp},v1=${toHex(signed)}`;
+}
+
+function stripeSignedPayload(timestamp: number, body: Uint8Array): Uint8Array {
+  const prefix = encoder.encode(`${timestamp}.`);
+  const payload = new Uint8Array(prefix.length + body.length);
+  payload.set(prefix);
+  payload.set(body, prefix.length);
+  return payload;
+}
+
+/**
+ * Verify a Stripe-Signature style header: HMAC-SHA256 of `<t>.<raw body>` in one
+ * or more `v1` entries (Stripe sends one per active secret while rolling). The
+ * timestamp is signed, so deliveries older (or newer) than the tolerance are rejected.
+ */
+export async function verifyStripeWebhook(
+  body: string | Uint8Array,
+  header: string | null,
+  secrets: string[],
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Date.now() } = {},
+): Promise<SignatureCheck> {
+  if (!header) return { valid: false, reason: 'missing_signature' };
+  if (secrets.length === 0) return { valid: false, reason: 'no_secret' };
+
+  let timestamp: number | null = null;
+  const signatures: Uint8Array[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value ?? '')) timestamp = Number(value);
+    if (key === 'v1') {
+      const signature = fromHex(value ?? '');
+      if (signature) signatures.push(signature);
+    }
+  }
+
+  if (timestamp === null || signatures.length === 0) {
+    return { valid: false, reason: 'malformed_signature' };
+  }
+
+  const matched = await matchesAnySecret(secrets, stripeSignedPayload(timestamp, toBytes(body)), signatures);
+  if (!matched) return { valid: false, reason: 'mismatch' };
+
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,102 @@
+// supabase/functions/account-purge/index.ts
+// HerbSpot.fi Account Deletion Purge
+// Scheduled daily: erases members whose confirmed deletion has passed its cooling-off
+// period, with the same anonymisation as Shopify's customers/redact (redact_loyalty_member).
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendEmail } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Only the scheduler (service role) may purge members
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const body = await req.json().catch(() => ({}));
+    const dryRun = Boolean(body.dry_run);
+
+    const { data: due, error: dueError } = await supabase.rpc('due_account_deletions');
+
+    if (dueError) {
+      console.error('Error loading due deletions:', dueError);
+      return jsonResponse({ error: 'Failed to load due deletions' }, 500);
+    }
+
+    let purged = 0;
+    const failures: string[] = [];
+
+    for (const deletion of due ?? []) {
+      if (dryRun) continue;
+
+      const { data: report, error } = await supabase.rpc('purge_account_deletion', {
+        p_request_id: deletion.request_id,
+      });
+
+      if (error) {
+        console.error(`Error purging member ${deletion.user_id}:`, error);
+        failures.push(deletion.user_id);
+        continue;
+      }
+
+      if (report?.status !== 'redacted') continue;
+      purged++;
+
+      // The address is gone from the database now; this is the last message to it
+      await sendEmail({
+        to: deletion.email,
+        subject: 'Tilisi on poistettu / Your account has been deleted',
+        text: [
+          'HerbSpot.fi-tilisi ja kanta-asiakastietosi on poistettu pyyntösi mukaisesti.',
+          '',
+          'Your HerbSpot.fi account and loyalty data have been deleted as you asked.',
+        ].join('\n'),
+      });
+    }
+
+    console.log(`Account purge${dryRun ? ' (dry run)' : ''}: ${due?.length ?? 0} due, ${purged} purged, ${failures.length} failed`);
+
+    return jsonResponse({
+      success: failures.length === 0,
+      dry_run: dryRun,
+      due: due?.length ?? 0,
+      purged,
+      failures,
+    });
+
+  } catch (error) {
+    console.error('Account purge error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,131 @@
+// supabase/functions/celebration-bonuses/index.ts
+// HerbSpot.fi Birthday & Anniversary Bonuses
+// Scheduled daily: grants birthday and membership anniversary points (once per year,
+// idempotent 'bonus' ledger rows) and emails each member about their bonus.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendEmail } from "../_shared/notifications.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface CelebrationBonus {
+  member_id: string;
+  member_email: string;
+  member_name: string | null;
+  bonus_kind: 'birthday' | 'anniversary';
+  bonus_points: number;
+  occasion_on: string;
+  years: number;
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Only the scheduler (service role) may grant bonuses
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const body = await req.json().catch(() => ({}));
+    const asOf: string | null = body.as_of ? String(body.as_of).slice(0, 10) : null;
+    const dryRun = Boolean(body.dry_run);
+
+    // The ledger rows are written here; only bonuses new in this run are returned,
+    // so a rerun on the same day neither double-credits nor re-notifies
+    const { data: granted, error } = await supabase.rpc('grant_celebration_bonuses', {
+      p_as_of: asOf,
+      p_dry_run: dryRun,
+    });
+
+    if (error) {
+      console.error('Error granting celebration bonuses:', error);
+      return jsonResponse({ error: 'Failed to grant bonuses' }, 500);
+    }
+
+    const bonuses = (granted ?? []) as CelebrationBonus[];
+    const notifyFailures: string[] = [];
+
+    for (const bonus of bonuses) {
+      if (dryRun) continue;
+
+      const sent = await sendEmail({ to: bonus.member_email, ...celebrationMessage(bonus) });
+      if (!sent) {
+        notifyFailures.push(bonus.member_id);
+      }
+    }
+
+    const birthdays = bonuses.filter((bonus) => bonus.bonus_kind === 'birthday');
+    const anniversaries = bonuses.filter((bonus) => bonus.bonus_kind === 'anniversary');
+
+    console.log(`Granted ${birthdays.length} birthday and ${anniversaries.length} anniversary bonuses`);
+
+    return jsonResponse({
+      success: notifyFailures.length === 0,
+      dry_run: dryRun,
+      as_of: asOf,
+      birthday_bonuses: birthdays.length,
+      anniversary_bonuses: anniversaries.length,
+      points_granted: bonuses.reduce((sum, bonus) => sum + bonus.bonus_points, 0),
+      notify_failures: notifyFailures,
+    });
+  } catch (error) {
+    console.error('Unexpected error in celebration-bonuses function:', error);
+    return jsonResponse({ error: 'Internal server error', details: String(error) }, 500);
+  }
+});
+
+function celebrationMessage(bonus: CelebrationBonus): { subject: string; text: string } {
+  const greeting = bonus.member_name ? `Hei ${bonus.member_name}!` : 'Hei!';
+
+  if (bonus.bonus_kind === 'birthday') {
+    return {
+      subject: `Hyvää syntymäpäivää! ${bonus.bonus_points} bonuspistettä tilillesi`,
+      text: [
+        greeting,
+        ``,
+        `Hyvää syntymäpäivää HerbSpotilta! Lisäsimme kanta-asiakastilillesi ${bonus.bonus_points} bonuspistettä.`,
+        ``,
+        `Happy birthday! ${bonus.bonus_points} bonus points have been added to your account.`,
+      ].join('\n'),
+    };
+  }
+
+  return {
+    subject: `${bonus.years} vuotta HerbSpotin kanta-asiakkaana – ${bonus.bonus_points} bonuspistettä`,
+    text: [
+      greeting,
+      ``,
+      `Kiitos, että olet ollut kanta-asiakkaamme jo ${bonus.years} vuotta! Lisäsimme tilillesi ${bonus.bonus_points} bonuspistettä.`,
+      ``,
+      `Thank you for ${bonus.years} years as a member! ${bonus.bonus_points} bonus points have been added to your account.`,
+    ].join('\n'),
+  };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
@@ -3,7 +3,7 @@
 // This function generates HMAC signatures for testing
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { crypto } from "https://deno.land/std@0.224.0/crypto/mod.ts";
+import { signShopifyWebhook } from "../_shared/webhook-signatures.ts";
 
 serve(async (req: Request) => {
   const corsHeaders = {
@@ -29,17 +29,8 @@ serve(async (req: Request) => {
       }), { status: 400, headers: corsHeaders });
     }
 
-    // Generate HMAC SHA256 signature
-    const key = await crypto.subtle.importKey(
-      "raw",
-      new TextEncoder().encode(secret),
-      { name: "HMAC", hash: "SHA-256" },
-      false,
-      ["sign"]
-    );
-    
-    const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body));
-    const hmac = btoa(String.fromCharCode(...new Uint8Array(signature)));
+    // Same signature Shopify sends (and the webhook functions verify)
+    const hmac = await signShopifyWebhook(body, secret);
     
     return new Response(JSON.stringify({
       hmac,
@@ -0,0 +1,163 @@
+// Loyalty member merge tool
+// Lists members that look like the same customer and merges one into the other
+// (ledger, orders, redemptions, referrals, sign-in accounts; see merge_loyalty_members()).
+//
+// Run with:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env supabase/functions/merge-loyalty-members.ts [options]
+//
+// Options:
+//   --list                      Print duplicate candidates (default when no members are given)
+//   --from=EMAIL|ID             Member to merge away (deleted afterwards)
+//   --into=EMAIL|ID             Member that is kept
+//   --apply                     Merge; without it the merge is only previewed
+//   --run-by=NAME               Recorded in loyalty_member_merges (default: $USER)
+//   --json                      Print the raw result
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type DuplicateCandidate = {
+  user_id: string;
+  email: string;
+  duplicate_user_id: string;
+  duplicate_email: string;
+  reason: 'same_email' | 'same_shopify_customer';
+};
+
+type MergeResult = {
+  dry_run: boolean;
+  source: { id: string; email: string; points?: number; deleted?: boolean };
+  target: { id: string; email: string };
+  moved: Record<string, number>;
+  balance?: number;
+  tier?: string;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseArgs(args: string[]) {
+  const flags = new Set(args.filter(arg => !arg.includes('=')));
+  const value = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  return {
+    list: flags.has('--list'),
+    apply: flags.has('--apply'),
+    json: flags.has('--json'),
+    from: value('from'),
+    into: value('into'),
+    runBy: value('run-by') || Deno.env.get('USER') || 'merge-tool',
+  };
+}
+
+// Members are given by id or by email (any case)
+async function findMemberId(supabase: SupabaseClient, member: string): Promise<string> {
+  if (UUID_PATTERN.test(member)) return member;
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id')
+    .ilike('email', member.replace(/[\\%_]/g, char => `\\${char}`))
+    .limit(2);
+
+  if (error) throw error;
+  if (!data?.length) throw new Error(`No member with email ${member}`);
+  if (data.length > 1) throw new Error(`Several members match ${member}; give the id instead`);
+  return data[0].id;
+}
+
+function printCandidates(candidates: DuplicateCandidate[]) {
+  if (candidates.length === 0) {
+    console.log('✅ No duplicate candidates');
+    return;
+  }
+
+  console.log(`${candidates.length} duplicate candidates`);
+  console.log('='.repeat(60));
+  for (const candidate of candidates) {
+    console.log(`${candidate.email} (${candidate.user_id})`);
+    console.log(`  ↔ ${candidate.duplicate_email} (${candidate.duplicate_user_id}) [${candidate.reason}]`);
+  }
+  console.log('\nℹ️  Merge with --from=<duplicate> --into=<member to keep>, then --apply.');
+}
+
+function printMerge(result: MergeResult) {
+  const moved = Object.entries(result.moved).map(([name, count]) => `${name} ${count}`).join(', ');
+
+  console.log(`${result.source.email} → ${result.target.email}`);
+  console.log(`Moves: ${moved}`);
+
+  if (result.dry_run) {
+    console.log('\nℹ️  Preview only. Run again with --apply to merge.');
+  } else {
+    console.log(`\n🔧 Merged. ${result.target.email} now has ${result.balance} points (${result.tier}).`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(Deno.args);
+
+  if (Boolean(options.from) !== Boolean(options.into)) {
+    console.error('Give both --from and --into');
+    Deno.exit(2);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    Deno.exit(2);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false },
+  });
+
+  if (options.list || !options.from) {
+    const { data, error } = await supabase.from('loyalty_duplicate_candidates').select('*');
+    if (error) {
+      console.error('Failed to list duplicates:', error);
+      Deno.exit(1);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(data, null, 2));
+    } else {
+      printCandidates(data as DuplicateCandidate[]);
+    }
+    return;
+  }
+
+  let sourceId: string;
+  let targetId: string;
+  try {
+    sourceId = await findMemberId(supabase, options.from!);
+    targetId = await findMemberId(supabase, options.into!);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    Deno.exit(2);
+  }
+
+  const { data, error } = await supabase.rpc('merge_loyalty_members', {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+    p_merged_by: options.runBy,
+    p_dry_run: !options.apply,
+  });
+
+  if (error) {
+    console.error('Merge failed:', error.message);
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    printMerge(data as MergeResult);
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.main) {
+  await main();
+}
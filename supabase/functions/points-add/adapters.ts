@@ -0,0 +1,217 @@
+// supabase/functions/points-add/adapters.ts
+// HerbSpot.fi points-add input adapters
+// Each adapter authenticates one kind of caller and normalises its payload into a
+// PointsRequest for the shared core (core.ts).
+
+import { parseMemberQrData } from "../_shared/loyalty-rules.ts";
+import { getWebhookSecrets, verifyShopifyWebhook, verifyStripeWebhook } from "../_shared/webhook-signatures.ts";
+
+export type PointsSource = 'shopify' | 'qr' | 'manual';
+
+export interface PointsRequest {
+  order_id: string;
+  source: PointsSource;
+  amount: number;
+  user_id: string | null;
+  email: string | null;
+  shopify_customer_id: string | null;
+  shopify_order_id: string | null;
+  qr_code: string | null;
+  // Shopify-style line items, evaluated against the earning rules (buildOrderLines)
+  line_items: any[] | null;
+  taxes_included: boolean;
+  shipping_amount: number | string | null;
+  // Stored as the ledger row's items when there are no line items
+  items: unknown;
+}
+
+export type ParseResult =
+  | { ok: true; request: PointsRequest }
+  | { ok: false; error: string };
+
+export interface InputAdapter {
+  name: 'internal' | 'shopify' | 'pos';
+  authenticate(req: Request, rawBody: Uint8Array): Promise<boolean>;
+  parse(payload: any): ParseResult;
+}
+
+const SOURCES: PointsSource[] = ['shopify', 'qr', 'manual'];
+
+function invalid(error: string): ParseResult {
+  return { ok: false, error };
+}
+
+function optionalId(value: unknown): string | null {
+  return value === null || value === undefined || value === '' ? null : String(value);
+}
+
+/**
+ * JSON from our own services, e.g. webhook-shopify's orders/paid handler. Called with
+ * the service role key; the QR bonus applies only to `source: 'qr'`.
+ */
+export function parseInternalRequest(body: any): ParseResult {
+  if (!body?.order_id || (!body.user_id && !body.email) || body.amount === undefined || body.amount === null) {
+    return invalid('Missing required fields: order_id, user_id/email, amount');
+  }
+  if (typeof body.amount !== 'number' || !Number.isFinite(body.amount) || body.amount <= 0) {
+    return invalid('Invalid amount');
+  }
+
+  const source = body.source ?? 'shopify';
+  if (!SOURCES.includes(source)) return invalid('Invalid source');
+  if (body.currency && body.currency !== 'EUR') return invalid('Unsupported currency');
+
+  return {
+    ok: true,
+    request: {
+      order_id: String(body.order_id),
+      source,
+      amount: body.amount,
+      user_id: body.user_id ?? null,
+      email: body.email ?? null,
+      shopify_customer_id: optionalId(body.shopify_customer_id),
+      shopify_order_id: optionalId(body.shopify_order_id),
+      qr_code: body.qr_code ?? null,
+      line_items: Array.isArray(body.items) ? body.items : null,
+      taxes_included: Boolean(body.taxes_included),
+      shipping_amount: body.shipping_amount ?? null,
+      items: body.items ?? null,
+    },
+  };
+}
+
+/**
+ * A raw Shopify order, posted straight from a Shopify webhook. A `qr_code` note
+ * attribute (set by the storefront) makes it a QR order with the bonus.
+ */
+export function parseShopifyOrder(order: any): ParseResult {
+  const orderId = optionalId(order?.id);
+  if (!orderId) return invalid('Missing order_id');
+
+  const email = order.email || order.customer?.email || null;
+  const customerId = optionalId(order.customer?.id);
+  if (!email && !customerId) return invalid('Missing user identifier (email or customer)');
+
+  const amount = Number(order.total_price ?? 0);
+  if (!Number.isFinite(amount) || amount < 0) return invalid('Invalid amount');
+  if ((order.currency ?? 'EUR') !== 'EUR') return invalid('Unsupported currency');
+
+  const qrCode = order.note_attributes?.find(
+    (attr: any) => attr.name?.toLowerCase() === 'qr_code'
+  )?.value || null;
+
+  return {
+    ok: true,
+    request: {
+      order_id: orderId,
+      source: qrCode ? 'qr' : 'shopify',
+      amount,
+      user_id: null,
+      email,
+      shopify_customer_id: customerId,
+      shopify_order_id: orderId,
+      qr_code: qrCode,
+      line_items: Array.isArray(order.line_items) ? order.line_items : null,
+      taxes_included: Boolean(order.taxes_included),
+      shipping_amount: order.total_shipping_price_set?.shop_money?.amount ?? null,
+      items: null,
+    },
+  };
+}
+
+/**
+ * A receipt from the in-store till. Staff scan the member's QR code (getMemberQrData)
+ * or enter their email; in-store purchases are QR orders in the ledger.
+ */
+export function parsePosReceipt(receipt: any): ParseResult {
+  if (!receipt?.receipt_id || !receipt.store_id) return invalid('Missing receipt_id or store_id');
+
+  const memberId = typeof receipt.member_qr === 'string' ? parseMemberQrData(receipt.member_qr) : null;
+  if (receipt.member_qr && !memberId) return invalid('Unrecognised member QR code');
+  if (!memberId && !receipt.email) return invalid('Missing member (member_qr or email)');
+
+  const total = Number(receipt.total);
+  if (receipt.total === undefined || !Number.isFinite(total) || total < 0) return invalid('Invalid amount');
+  if ((receipt.currency ?? 'EUR') !== 'EUR') return invalid('Unsupported currency');
+
+  const lines = Array.isArray(receipt.lines) ? receipt.lines : [];
+
+  return {
+    ok: true,
+    request: {
+      order_id: `POS-${receipt.store_id}-${receipt.receipt_id}`,
+      source: 'qr',
+      amount: total,
+      user_id: memberId,
+      email: memberId ? null : receipt.email,
+      shopify_customer_id: null,
+      shopify_order_id: null,
+      qr_code: receipt.member_qr ?? null,
+      // Till prices include VAT; lines earn like Shopify line items
+      line_items: lines.length > 0
+        ? lines.map((line: any) => ({
+          id: line.sku,
+          title: line.name,
+          quantity: line.quantity ?? 1,
+          price: line.unit_price,
+          total_discount: line.discount ?? 0,
+          product_id: line.product_id,
+          gift_card: line.gift_card,
+        }))
+        : null,
+      taxes_included: true,
+      shipping_amount: null,
+      items: { type: 'pos_receipt', store_id: receipt.store_id, receipt_id: receipt.receipt_id },
+    },
+  };
+}
+
+export const internalAdapter: InputAdapter = {
+  name: 'internal',
+  authenticate: (req) => {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    return Promise.resolve(Boolean(serviceKey) && req.headers.get('Authorization') === `Bearer ${serviceKey}`);
+  },
+  parse: parseInternalRequest,
+};
+
+export const shopifyAdapter: InputAdapter = {
+  name: 'shopify',
+  authenticate: async (req, rawBody) => {
+    const check = await verifyShopifyWebhook(
+      rawBody,
+      req.headers.get('X-Shopify-Hmac-Sha256'),
+      getWebhookSecrets('SHOPIFY_WEBHOOK_SECRET'),
+    );
+    if (!check.valid) console.error(`Invalid Shopify HMAC (${check.reason})`);
+    return check.valid;
+  },
+  parse: parseShopifyOrder,
+};
+
+export const posAdapter: InputAdapter = {
+  name: 'pos',
+  // The till signs `<t>.<body>` with POS_WEBHOOK_SECRET, Stripe-style
+  authenticate: async (req, rawBody) => {
+    const check = await verifyStripeWebhook(
+      rawBody,
+      req.headers.get('X-HerbSpot-Signature'),
+      getWebhookSecrets('POS_WEBHOOK_SECRET'),
+    );
+    if (!check.valid) console.error(`Invalid POS signature (${check.reason})`);
+    return check.valid;
+  },
+  parse: parsePosReceipt,
+};
+
+/**
+ * `/points-add/shopify` and `/points-add/pos` pick their adapter; the bare path takes
+ * internal JSON, or a raw Shopify order when it carries Shopify's HMAC header.
+ */
+export function selectAdapter(req: Request): InputAdapter {
+  const segment = new URL(req.url).pathname.split('/').filter(Boolean).pop();
+
+  if (segment === 'pos') return posAdapter;
+  if (segment === 'shopify' || req.headers.has('X-Shopify-Hmac-Sha256')) return shopifyAdapter;
+  return internalAdapter;
+}
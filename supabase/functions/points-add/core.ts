@@ -0,0 +1,144 @@
+// supabase/functions/points-add/core.ts
+// HerbSpot.fi points-add core
+// Credits one normalised PointsRequest (adapters.ts): finds or creates the member,
+// credits the order once and reports the new balance and tier progress.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getTierProgress,
+  getTierThreshold,
+  parseLoyaltyRules,
+} from "../_shared/loyalty-rules.ts";
+import { creditLoyaltyPoints } from "../_shared/points-credit.ts";
+import { buildOrderLines } from "../_shared/shopify-order-lines.ts";
+import type { PointsRequest } from "./adapters.ts";
+
+export interface PointsResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export async function addPoints(supabase: SupabaseClient, request: PointsRequest): Promise<PointsResult> {
+  // Find or create the member: linked Shopify customer first, then email
+  let userId = request.user_id;
+
+  if (!userId) {
+    const { data: memberId, error: memberError } = await supabase.rpc('resolve_loyalty_member', {
+      p_customer_id: request.shopify_customer_id,
+      p_email: request.email,
+    });
+
+    if (memberError) {
+      console.error('Error resolving loyalty member:', memberError);
+      return { status: 500, body: { error: 'Failed to create user' } };
+    }
+
+    userId = memberId;
+    console.log('Resolved loyalty member:', userId);
+  }
+
+  if (!userId) {
+    return { status: 404, body: { error: 'User not found and email not provided' } };
+  }
+
+  // Load the active earning rules (falls back to defaults if unavailable)
+  const { data: rulesData, error: rulesError } = await supabase.rpc('get_loyalty_rules');
+  if (rulesError) {
+    console.error('Error loading loyalty rules, using defaults:', rulesError);
+  }
+  const rules = parseLoyaltyRules(rulesData);
+
+  // Points are calculated and credited in one locked transaction, so concurrent
+  // orders cannot overwrite each other's balance
+  const hasQrBonus = Boolean(request.qr_code) && request.source === 'qr';
+
+  if (request.amount < rules.min_order_amount) {
+    console.log('Order amount too small for points');
+  } else if (hasQrBonus) {
+    console.log('Applied QR bonus multiplier');
+  }
+
+  // Line items are evaluated against the product/collection earning rules in SQL;
+  // the per-line breakdown is stored in the transaction's items
+  const orderLines = await buildOrderLines({
+    line_items: request.line_items,
+    taxes_included: request.taxes_included,
+    shipping_amount: request.shipping_amount,
+  });
+
+  // A repeated order (webhook retry, concurrent delivery) returns its original credit
+  const { data: credit, error: creditError } = await creditLoyaltyPoints(supabase, {
+    p_user_id: userId,
+    p_order_id: request.order_id,
+    p_source: request.source,
+    p_amount: request.amount,
+    p_shopify_order_id: request.shopify_order_id,
+    p_qr_code: hasQrBonus ? request.qr_code : null,
+    p_items: orderLines
+      ? { type: 'order', taxes_included: request.taxes_included, lines: orderLines }
+      : request.items ?? null,
+  });
+
+  if (creditError || !credit) {
+    console.error('Error crediting loyalty points:', creditError);
+    return { status: 500, body: { error: 'Failed to add points' } };
+  }
+
+  // Tier progress is measured on the rolling qualification window, not the balance
+  const { data: tierStatus, error: tierStatusError } = await supabase.rpc('get_tier_status', { p_user_id: userId });
+  if (tierStatusError) {
+    console.error('Error loading tier status:', tierStatusError);
+  }
+  const qualifyingValue: number = Number(tierStatus?.qualifying_value ?? 0);
+  const progress = getTierProgress(rules, qualifyingValue);
+
+  if (credit.duplicate) {
+    console.log(`Order ${request.order_id} (${request.source}) was already credited`);
+  }
+
+  // Log QR scan if applicable
+  if (request.qr_code && !credit.duplicate) {
+    const { error: qrError } = await supabase
+      .from('qr_scans')
+      .insert([{
+        user_id: userId,
+        qr_data: request.qr_code,
+        points_earned: credit.points_added,
+        order_id: request.order_id,
+        scanned_at: new Date().toISOString()
+      }]);
+
+    if (qrError) {
+      console.error('Error logging QR scan:', qrError);
+      // Don't fail the whole request for QR logging errors
+    }
+  }
+
+  console.log(`Successfully added ${credit.points_added} points for user ${userId}`);
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      user_id: userId,
+      points_added: credit.points_added,
+      eligible_amount: credit.eligible_amount ?? null,
+      total_points: credit.balance,
+      tier: credit.tier,
+      duplicate: credit.duplicate,
+      streak: credit.streak,
+      streak_bonus: credit.streak_bonus,
+      tier_progress: {
+        basis: rules.qualification.basis,
+        current: qualifyingValue,
+        next_tier: progress.nextTier ? getTierThreshold(rules, progress.nextTier) : qualifyingValue,
+        points_to_next: progress.pointsToNext,
+        grace_until: tierStatus?.grace_until ?? null
+      },
+      source: request.source,
+      rules_version: rules.version,
+      order_id: request.order_id,
+      timestamp: new Date().toISOString()
+    },
+  };
+}
@@ -1,58 +1,18 @@
 // supabase/functions/points-add/index.ts
 // HerbSpot.fi Loyalty Points System - PRODUCTION READY
-// HMAC validation, idempotency, and comprehensive error handling
+// One endpoint for internal JSON, raw Shopify orders and POS receipts (adapters.ts),
+// credited by a shared core (core.ts) with idempotency per order.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { crypto } from "https://deno.land/std@0.224.0/crypto/mod.ts";
-
-type WebhookPayload = {
-  order_id?: string | number;
-  user_id?: string;
-  email?: string;
-  amount?: number; // total price in EUR
-  currency?: string;
-  qr_code?: string | null;
-  // Raw Shopify order payload fields if you post straight from Shopify:
-  id?: number;
-  total_price?: string;
-  note_attributes?: Array<{ name: string; value: string }>;
-  customer?: { id?: number; email?: string };
-};
-
-// HMAC validation utilities
-function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
-  if (a.length !== b.length) return false;
-  let out = 0;
-  for (let i = 0; i < a.length; i++) out |= a[i] ^ b[i];
-  return out === 0;
-}
-
-async function verifyShopifyHmac(req: Request, secret: string): Promise<boolean> {
-  const hmacHeader = req.headers.get("X-Shopify-Hmac-Sha256");
-  if (!hmacHeader) return false;
-  
-  const rawBody = new Uint8Array(await req.arrayBuffer());
-  const key = await crypto.subtle.importKey(
-    "raw",
-    new TextEncoder().encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["verify", "sign"],
-  );
-  
-  const signature = await crypto.subtle.sign("HMAC", key, rawBody);
-  const computed = new Uint8Array(signature);
-  const given = Uint8Array.from(atob(hmacHeader), c => c.charCodeAt(0));
-  
-  return timingSafeEqual(computed, given);
-}
+import { selectAdapter } from "./adapters.ts";
+import { addPoints } from "./core.ts";
 
 serve(async (req: Request) => {
   // CORS headers for web requests
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-shopify-hmac-sha256, x-shopify-topic, x-shopify-shop-domain, x-herbspot-signature',
     'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
   };
 
@@ -63,246 +23,73 @@ serve(async (req: Request) => {
 
   if (req.method !== 'POST') {
     return new Response(
-      JSON.stringify({ error: 'Method Not Allowed' }), 
+      JSON.stringify({ error: 'Method Not Allowed' }),
       { status: 405, headers: corsHeaders }
     );
   }
 
   try {
-    const body = await req.json();
-    console.log('Received points request:', body);
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-    const { 
-      order_id, 
-      user_id, 
-      email, 
-      amount, 
-      qr_code,
-      shopify_order_id,
-      items,
-      source = 'shopify' // 'shopify', 'qr', 'manual'
-    } = body;
-
-    // Validate required fields
-    if (!order_id || (!user_id && !email) || !amount) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Missing required fields: order_id, user_id/email, amount' 
-        }), 
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
     if (!supabaseUrl || !supabaseServiceKey) {
       console.error('Missing Supabase environment variables');
       return new Response(
-        JSON.stringify({ error: 'Server configuration error' }), 
+        JSON.stringify({ error: 'Server configuration error' }),
         { status: 500, headers: corsHeaders }
       );
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Find or create user
-    let userId = user_id;
-    
-    if (!userId && email) {
-      // Try to find user by email
-      const { data: existingUser, error: userError } = await supabase
-        .from('users')
-        .select('id, email')
-        .eq('email', email)
-        .single();
+    // Signatures cover the raw body, so it is read before parsing
+    const adapter = selectAdapter(req);
+    const rawBody = new Uint8Array(await req.arrayBuffer());
 
-      if (existingUser) {
-        userId = existingUser.id;
-        console.log('Found user by email:', userId);
-      } else {
-        // Create new user if not found
-        const { data: newUser, error: createError } = await supabase
-          .from('users')
-          .insert([{ email, created_at: new Date().toISOString() }])
-          .select('id')
-          .single();
-
-        if (createError || !newUser) {
-          console.error('Error creating user:', createError);
-          return new Response(
-            JSON.stringify({ error: 'Failed to create user' }), 
-            { status: 500, headers: corsHeaders }
-          );
-        }
-
-        userId = newUser.id;
-        console.log('Created new user:', userId);
-      }
-    }
-
-    if (!userId) {
+    if (!await adapter.authenticate(req, rawBody)) {
       return new Response(
-        JSON.stringify({ error: 'User not found and email not provided' }), 
-        { status: 404, headers: corsHeaders }
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: corsHeaders }
       );
     }
 
-    // Calculate points based on order amount and tier
-    const basePoints = Math.floor(amount * POINTS_PER_EURO);
-    
-    // Get user's current tier for multiplier
-    const { data: loyaltyData } = await supabase
-      .from('loyalty_points')
-      .select('points, tier')
-      .eq('user_id', userId)
-      .single();
-
-    const currentPoints = loyaltyData?.points || 0;
-    const currentTier = loyaltyData?.tier || 'Bronze';
-    
-    // Apply tier multiplier
-    const tierMultiplier = TIERS[currentTier as keyof typeof TIERS]?.multiplier || 1.0;
-    let finalPoints = Math.floor(basePoints * tierMultiplier);
-
-    // Apply QR bonus
-    if (qr_code && source === 'qr') {
-      finalPoints = Math.floor(finalPoints * BONUS_MULTIPLIER);
-      console.log('Applied QR bonus multiplier');
-    }
-
-    // Minimum order amount check
-    if (amount < MIN_ORDER_AMOUNT) {
-      finalPoints = 0;
-      console.log('Order amount too small for points');
-    }
-
-    // Insert points transaction
-    const pointsTransaction = {
-      user_id: userId,
-      order_id,
-      shopify_order_id: shopify_order_id || order_id,
-      points: finalPoints,
-      source,
-      amount,
-      qr_code: qr_code || null,
-      items: items ? JSON.stringify(items) : null,
-      created_at: new Date().toISOString()
-    };
-
-    const { error: insertError } = await supabase
-      .from('loyalty_transactions')
-      .insert([pointsTransaction]);
-
-    if (insertError) {
-      console.error('Error inserting loyalty transaction:', insertError);
+    let payload: unknown;
+    try {
+      payload = JSON.parse(new TextDecoder().decode(rawBody) || '{}');
+    } catch {
       return new Response(
-        JSON.stringify({ error: 'Failed to add points' }), 
-        { status: 500, headers: corsHeaders }
+        JSON.stringify({ error: 'Invalid JSON' }),
+        { status: 400, headers: corsHeaders }
       );
     }
 
-    // Update or create user's loyalty points summary
-    const newTotalPoints = currentPoints + finalPoints;
-    const newTier = getTierFromPoints(newTotalPoints);
-    const newStreak = (loyaltyData?.streak || 0) + 1;
-
-    const loyaltySummary = {
-      user_id: userId,
-      points: newTotalPoints,
-      tier: newTier,
-      streak: newStreak,
-      total_orders: (loyaltyData?.total_orders || 0) + 1,
-      updated_at: new Date().toISOString()
-    };
-
-    const { error: upsertError } = await supabase
-      .from('loyalty_points')
-      .upsert(loyaltySummary, { onConflict: 'user_id' });
-
-    if (upsertError) {
-      console.error('Error upserting loyalty points:', upsertError);
+    const parsed = adapter.parse(payload);
+    if (!parsed.ok) {
       return new Response(
-        JSON.stringify({ error: 'Failed to update loyalty summary' }), 
-        { status: 500, headers: corsHeaders }
+        JSON.stringify({ error: parsed.error }),
+        { status: 400, headers: corsHeaders }
       );
     }
 
-    // Log QR scan if applicable
-    if (qr_code) {
-      const { error: qrError } = await supabase
-        .from('qr_scans')
-        .insert([{
-          user_id: userId,
-          qr_data: qr_code,
-          points_earned: finalPoints,
-          order_id,
-          scanned_at: new Date().toISOString()
-        }]);
-
-      if (qrError) {
-        console.error('Error logging QR scan:', qrError);
-        // Don't fail the whole request for QR logging errors
-      }
-    }
+    console.log(`Received ${adapter.name} points request for order ${parsed.request.order_id}`);
 
-    console.log(`Successfully added ${finalPoints} points for user ${userId}`);
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { status, body } = await addPoints(supabase, parsed.request);
 
-    // Return success response
     return new Response(
-      JSON.stringify({
-        success: true,
-        user_id: userId,
-        points_added: finalPoints,
-        total_points: newTotalPoints,
-        tier: newTier,
-        tier_progress: {
-          current: newTotalPoints,
-          next_tier: getNextTierThreshold(newTotalPoints),
-          points_to_next: getPointsToNextTier(newTotalPoints)
-        },
-        order_id,
-        timestamp: new Date().toISOString()
-      }),
-      { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      JSON.stringify(body),
+      {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
 
   } catch (error) {
     console.error('Unexpected error in points-add function:', error);
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: 'Internal server error',
-        details: error.message 
-      }), 
+        details: error.message
+      }),
       { status: 500, headers: corsHeaders }
     );
   }
 });
-
-// Helper functions
-function getTierFromPoints(points: number): string {
-  if (points >= TIERS.VIP.min) return 'VIP';
-  if (points >= TIERS.GOLD.min) return 'Gold';
-  if (points >= TIERS.SILVER.min) return 'Silver';
-  return 'Bronze';
-}
-
-function getNextTierThreshold(points: number): number {
-  const currentTier = getTierFromPoints(points);
-  switch (currentTier) {
-    case 'Bronze': return TIERS.SILVER.min;
-    case 'Silver': return TIERS.GOLD.min;
-    case 'Gold': return TIERS.VIP.min;
-    default: return points; // VIP - already at max tier
-  }
-}
-
-function getPointsToNextTier(points: number): number {
-  const nextThreshold = getNextTierThreshold(points);
-  return Math.max(0, nextThreshold - points);
-}
-
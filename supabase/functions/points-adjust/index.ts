@@ -0,0 +1,204 @@
+// supabase/functions/points-adjust/index.ts
+// HerbSpot.fi Manual Points Adjustments (staff only)
+// Staff sign in to the storefront (next-auth) and must be listed in staff_members; the
+// session's Supabase token is sent as the bearer token.
+//   GET   pending adjustments and recent decisions
+//   POST  { action: 'request', email | user_id, points, reason, ticket_ref }
+//         { action: 'approve' | 'reject', adjustment_id, note? }
+// Adjustments above manual_adjustments.approval_threshold (with the requester's recent ones
+// for the same member or ticket) wait for a second approver.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parseLoyaltyRules } from "../_shared/loyalty-rules.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+};
+
+const ADJUSTMENT_COLUMNS = `
+  id, user_id, points, reason, ticket_ref, status, decision_note, created_at, decided_at,
+  member:users(email),
+  requester:staff_members!requested_by(user_id, email, name),
+  approver:staff_members!approved_by(user_id, email, name)
+`;
+
+// SQLSTATEs raised by the adjustment functions
+const ERROR_STATUS: Record<string, number> = {
+  '42501': 403, // not staff, not an approver, or approving own adjustment
+  'P0002': 404, // unknown member or adjustment
+  '22023': 400, // invalid points, missing reason or ticket
+  'P0001': 409, // insufficient balance or already decided
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The acting staff member is whoever owns the session token. It is read with the token
+    // itself: PostgREST checks its signature and RLS only shows the member's own staff row.
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const memberClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false },
+    });
+    const { data: staff, error: staffError, status: staffStatus } = await memberClient
+      .from('staff_members')
+      .select('user_id, email, name, can_approve')
+      .eq('active', true)
+      .maybeSingle();
+
+    if (staffStatus === 401) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    if (staffError) {
+      console.error('Error loading staff member:', staffError);
+      return jsonResponse({ error: 'Failed to verify staff member' }, 500);
+    }
+
+    if (!staff) {
+      return jsonResponse({ error: 'Staff access required' }, 403);
+    }
+
+    // GET: approval queue and history for the staff UI
+    if (req.method === 'GET') {
+      const { data: rulesData } = await supabase.rpc('get_loyalty_rules');
+      const rules = parseLoyaltyRules(rulesData);
+
+      const [pending, recent] = await Promise.all([
+        supabase
+          .from('points_adjustments')
+          .select(ADJUSTMENT_COLUMNS)
+          .eq('status', 'pending_approval')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('points_adjustments')
+          .select(ADJUSTMENT_COLUMNS)
+          .neq('status', 'pending_approval')
+          .order('decided_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (pending.error || recent.error) {
+        console.error('Error loading adjustments:', pending.error ?? recent.error);
+        return jsonResponse({ error: 'Failed to load adjustments' }, 500);
+      }
+
+      return jsonResponse({
+        staff,
+        limits: rules.manual_adjustments,
+        pending: pending.data,
+        recent: recent.data,
+      });
+    }
+
+    const input = await req.json().catch(() => ({}));
+
+    if (input.action === 'approve' || input.action === 'reject') {
+      if (!input.adjustment_id) {
+        return jsonResponse({ error: 'Missing adjustment_id' }, 400);
+      }
+
+      const { data: result, error } = await supabase.rpc('decide_points_adjustment', {
+        p_adjustment_id: input.adjustment_id,
+        p_staff_id: staff.user_id,
+        p_approve: input.action === 'approve',
+        p_note: input.note ?? null,
+      });
+
+      if (error) return rpcErrorResponse('Error deciding adjustment', error);
+
+      console.log(`Adjustment ${input.adjustment_id} ${result.status} by staff ${staff.user_id}`);
+      return jsonResponse({ success: true, ...result });
+    }
+
+    if (input.action !== 'request') {
+      return jsonResponse({ error: "action must be 'request', 'approve' or 'reject'" }, 400);
+    }
+
+    const points = Number(input.points);
+    if (!Number.isInteger(points) || points === 0) {
+      return jsonResponse({ error: 'points must be a non-zero whole number' }, 400);
+    }
+
+    if (!input.reason?.trim() || !input.ticket_ref?.trim()) {
+      return jsonResponse({ error: 'A reason and a ticket reference are required' }, 400);
+    }
+
+    if (!input.user_id && !input.email) {
+      return jsonResponse({ error: 'Missing user identifier (email or user_id)' }, 400);
+    }
+
+    let userId: string | null = input.user_id ?? null;
+    if (!userId) {
+      const { data: user, error: userError } = await supabase
+        .from('users')
+        .select('id')
+        .eq('email', input.email)
+        .maybeSingle();
+
+      if (userError) {
+        console.error('Error finding user by email:', userError);
+        return jsonResponse({ error: 'Failed to look up user' }, 500);
+      }
+      userId = user?.id ?? null;
+    }
+
+    if (!userId) {
+      return jsonResponse({ error: 'User not found' }, 404);
+    }
+
+    const { data: result, error } = await supabase.rpc('request_points_adjustment', {
+      p_staff_id: staff.user_id,
+      p_user_id: userId,
+      p_points: points,
+      p_reason: input.reason,
+      p_ticket_ref: input.ticket_ref,
+    });
+
+    if (error) return rpcErrorResponse('Error requesting adjustment', error);
+
+    console.log(`Adjustment ${result.adjustment_id} of ${points} points for user ${userId}: ${result.status}`);
+    return jsonResponse({ success: true, user_id: userId, ...result });
+  } catch (error) {
+    console.error('Unexpected error in points-adjust function:', error);
+    return jsonResponse({ error: 'Internal server error', details: String(error) }, 500);
+  }
+});
+
+function rpcErrorResponse(context: string, error: { code?: string; message: string }): Response {
+  const status = (error.code && ERROR_STATUS[error.code]) || 500;
+  console.error(`${context}:`, error);
+  return jsonResponse({ error: status === 500 ? 'Failed to process adjustment' : error.message }, status);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
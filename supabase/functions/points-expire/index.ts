@@ -0,0 +1,234 @@
+// supabase/functions/points-expire/index.ts
+// HerbSpot.fi Loyalty Points Expiry
+// Scheduled daily: writes off expired points (FIFO 'expiry' ledger rows),
+// warns members before their points expire and gives back the points of
+// redemption codes that expired unused.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendEmail } from "../_shared/notifications.ts";
+
+const DISCOUNT_USAGE_QUERY = `
+  query discountCodeUsage($id: ID!) {
+    codeDiscountNode(id: $id) {
+      codeDiscount {
+        ... on DiscountCodeBasic { asyncUsageCount }
+      }
+    }
+  }
+`;
+
+// Shopify updates a code's usage count asynchronously, so a code is settled only
+// once it has been expired for this long
+const REDEMPTION_SETTLE_DELAY_MS = 24 * 60 * 60 * 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Only the scheduler (service role) may run expiry
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const body = await req.json().catch(() => ({}));
+    const asOf = body.as_of ? new Date(body.as_of) : new Date();
+    const dryRun = Boolean(body.dry_run);
+
+    // 1. Write off expired points
+    const { data: members, error: membersError } = await supabase
+      .from('loyalty_points')
+      .select('user_id')
+      .gt('points', 0);
+
+    if (membersError) {
+      console.error('Error loading members with points:', membersError);
+      return jsonResponse({ error: 'Failed to load members' }, 500);
+    }
+
+    let expiredPoints = 0;
+    let expiredMembers = 0;
+    const failures: string[] = [];
+
+    for (const { user_id } of members ?? []) {
+      const { data: expired, error } = dryRun
+        ? await supabase.rpc('points_expiring_by', { p_user_id: user_id, p_as_of: asOf.toISOString() })
+        : await supabase.rpc('expire_points', { p_user_id: user_id, p_as_of: asOf.toISOString() });
+
+      if (error) {
+        console.error(`Error expiring points for user ${user_id}:`, error);
+        failures.push(user_id);
+        continue;
+      }
+
+      if (expired > 0) {
+        expiredPoints += expired;
+        expiredMembers++;
+      }
+    }
+
+    // 2. Warn members whose next expiry falls inside the warning window
+    const { data: warnings, error: warningsError } = await supabase.rpc('due_expiry_warnings');
+
+    if (warningsError) {
+      console.error('Error loading expiry warnings:', warningsError);
+    }
+
+    let warned = 0;
+    for (const warning of warnings ?? []) {
+      if (dryRun) {
+        warned++;
+        continue;
+      }
+
+      const expiresOn = new Date(warning.expires_at).toLocaleDateString('fi-FI');
+      const sent = await sendEmail({
+        to: warning.email,
+        subject: `${warning.points} pistettäsi vanhenee ${expiresOn}`,
+        text: [
+          `Hei!`,
+          ``,
+          `HerbSpot-kanta-asiakastililläsi on ${warning.points} pistettä, jotka vanhenevat ${expiresOn}.`,
+          `Käytä pisteet alennukseen ostoskorissa ennen vanhenemista.`,
+          ``,
+          `${warning.points} points expiring on ${expiresOn}.`,
+        ].join('\n'),
+      });
+
+      if (!sent) continue;
+
+      const { error: noticeError } = await supabase
+        .from('loyalty_expiry_notices')
+        .insert([{ user_id: warning.user_id, points: warning.points, expires_at: warning.expires_at }]);
+
+      if (noticeError) {
+        console.error(`Error recording expiry notice for user ${warning.user_id}:`, noticeError);
+      }
+      warned++;
+    }
+
+    // 3. Settle redemption codes that expired: unused ones give their points back
+    const { data: expiredCodes, error: codesError } = await supabase
+      .from('loyalty_redemptions')
+      .select('id, discount_code, shopify_discount_id, points')
+      .eq('status', 'issued')
+      .lt('expires_at', new Date(asOf.getTime() - REDEMPTION_SETTLE_DELAY_MS).toISOString());
+
+    if (codesError) {
+      console.error('Error loading expired redemption codes:', codesError);
+    }
+
+    let codesReturned = 0;
+    let pointsReturned = 0;
+    for (const redemption of expiredCodes ?? []) {
+      try {
+        const used = await isDiscountCodeUsed(redemption.shopify_discount_id);
+
+        if (dryRun) {
+          if (!used) {
+            codesReturned++;
+            pointsReturned += redemption.points;
+          }
+          continue;
+        }
+
+        const { data: settled, error } = await supabase.rpc('settle_expired_redemption', {
+          p_redemption_id: redemption.id,
+          p_used: used,
+        });
+
+        if (error) throw error;
+        if (settled?.points_returned > 0) {
+          codesReturned++;
+          pointsReturned += settled.points_returned;
+        }
+      } catch (error) {
+        // Left 'issued' and checked again on the next run
+        console.error(`Error settling redemption code ${redemption.discount_code}:`, error);
+        failures.push(redemption.id);
+      }
+    }
+
+    console.log(
+      `Expired ${expiredPoints} points from ${expiredMembers} members, warned ${warned} members, ` +
+      `returned ${pointsReturned} points from ${codesReturned} unused codes`,
+    );
+
+    return jsonResponse({
+      success: failures.length === 0 && !warningsError && !codesError,
+      dry_run: dryRun,
+      as_of: asOf.toISOString(),
+      members_checked: members?.length ?? 0,
+      members_expired: expiredMembers,
+      points_expired: expiredPoints,
+      members_warned: warned,
+      codes_returned: codesReturned,
+      points_returned: pointsReturned,
+      failures,
+    });
+  } catch (error) {
+    console.error('Unexpected error in points-expire function:', error);
+    return jsonResponse({ error: 'Internal server error', details: String(error) }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Whether an order used the code, by Shopify's usage count
+async function isDiscountCodeUsed(discountId: string | null): Promise<boolean> {
+  const shopDomain = Deno.env.get('SHOPIFY_STORE_DOMAIN');
+  const adminToken = Deno.env.get('SHOPIFY_ADMIN_ACCESS_TOKEN');
+  const apiVersion = Deno.env.get('SHOPIFY_ADMIN_API_VERSION') ?? '2024-10';
+
+  if (!discountId) {
+    throw new Error('Redemption has no Shopify discount id');
+  }
+  if (!shopDomain || !adminToken) {
+    throw new Error('Missing SHOPIFY_STORE_DOMAIN or SHOPIFY_ADMIN_ACCESS_TOKEN');
+  }
+
+  const response = await fetch(`https://${shopDomain}/admin/api/${apiVersion}/graphql.json`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Shopify-Access-Token': adminToken,
+    },
+    body: JSON.stringify({ query: DISCOUNT_USAGE_QUERY, variables: { id: discountId } }),
+  });
+
+  const result = await response.json();
+  const usageCount = result?.data?.codeDiscountNode?.codeDiscount?.asyncUsageCount;
+
+  // A deleted code cannot tell whether it was used; leave it for staff to check
+  if (!response.ok || result.errors || typeof usageCount !== 'number') {
+    throw new Error(JSON.stringify(result.errors ?? result));
+  }
+
+  return usageCount > 0;
+}
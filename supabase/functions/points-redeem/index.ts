@@ -0,0 +1,224 @@
+// supabase/functions/points-redeem/index.ts
+// HerbSpot.fi Loyalty Points Redemption
+// Exchanges loyalty points for a single-use Shopify discount code
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getRedemptionQuote,
+  getRedemptionValue,
+  parseLoyaltyRules,
+  validateRedemption,
+} from "../_shared/loyalty-rules.ts";
+
+const DISCOUNT_CODE_MUTATION = `
+  mutation discountCodeBasicCreate($basicCodeDiscount: DiscountCodeBasicInput!) {
+    discountCodeBasicCreate(basicCodeDiscount: $basicCodeDiscount) {
+      codeDiscountNode { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Only trusted servers (the Hydrogen storefront) may redeem on behalf of a customer
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const input = req.method === 'GET'
+      ? Object.fromEntries(new URL(req.url).searchParams)
+      : await req.json();
+    const { user_id, email, shopify_customer_id } = input;
+
+    if (!user_id && !email && !shopify_customer_id) {
+      return jsonResponse({ error: 'Missing user identifier (email, shopify_customer_id or user_id)' }, 400);
+    }
+
+    // Resolve the loyalty user: linked Shopify customer first, then email
+    let userId: string | null = user_id ?? null;
+    if (!userId) {
+      const { data: memberId, error: userError } = await supabase.rpc('find_loyalty_member', {
+        p_customer_id: shopify_customer_id ? String(shopify_customer_id) : null,
+        p_email: email ?? null,
+      });
+
+      if (userError) {
+        console.error('Error finding loyalty member:', userError);
+        return jsonResponse({ error: 'Failed to look up user' }, 500);
+      }
+      userId = memberId ?? null;
+    }
+
+    const { data: rulesData, error: rulesError } = await supabase.rpc('get_loyalty_rules');
+    if (rulesError) {
+      console.error('Error loading loyalty rules, using defaults:', rulesError);
+    }
+    const rules = parseLoyaltyRules(rulesData);
+
+    const { data: summary } = userId
+      ? await supabase.from('loyalty_points').select('points').eq('user_id', userId).maybeSingle()
+      : { data: null };
+    const balance = summary?.points ?? 0;
+
+    // GET: balance and what it is worth, used by the cart drawer
+    if (req.method === 'GET') {
+      return jsonResponse({
+        user_id: userId,
+        ...getRedemptionQuote(rules, balance),
+        min_points: rules.redemption.min_points,
+        points_per_euro: rules.redemption.points_per_euro,
+        rules_version: rules.version,
+      });
+    }
+
+    if (!userId) {
+      return jsonResponse({ error: 'User not found' }, 404);
+    }
+
+    const points = Number(input.points);
+    const validationError = validateRedemption(rules, balance, points);
+    if (validationError) {
+      return jsonResponse({ error: validationError }, 400);
+    }
+
+    const value = getRedemptionValue(rules, points);
+    const code = generateDiscountCode();
+    const expiresAt = new Date(Date.now() + rules.redemption.code_valid_days * 24 * 60 * 60 * 1000);
+
+    // Reserve the points first (row-locked in SQL) so the balance cannot be spent twice
+    const { data: reservation, error: reserveError } = await supabase.rpc('reserve_points_redemption', {
+      p_user_id: userId,
+      p_points: points,
+      p_value: value,
+      p_discount_code: code,
+      p_expires_at: expiresAt.toISOString(),
+    });
+
+    if (reserveError) {
+      const insufficient = (reserveError.message || '').includes('Insufficient');
+      console.error('Error reserving points:', reserveError);
+      return jsonResponse(
+        { error: insufficient ? 'Insufficient points balance' : 'Failed to reserve points' },
+        insufficient ? 409 : 500,
+      );
+    }
+
+    try {
+      const discountId = await createShopifyDiscountCode(code, value, expiresAt);
+
+      const { error: issueError } = await supabase.rpc('issue_points_redemption', {
+        p_redemption_id: reservation.redemption_id,
+        p_shopify_discount_id: discountId,
+      });
+      if (issueError) {
+        // The code exists in Shopify and the points are spent; only the status is stale
+        console.error('Error marking redemption issued:', issueError);
+      }
+    } catch (error) {
+      console.error('Error creating Shopify discount code, releasing points:', error);
+      await supabase.rpc('release_points_redemption', { p_redemption_id: reservation.redemption_id });
+      return jsonResponse({ error: 'Failed to create discount code' }, 502);
+    }
+
+    console.log(`Redeemed ${points} points (${value} EUR) for user ${userId} as ${code}`);
+
+    return jsonResponse({
+      success: true,
+      user_id: userId,
+      discount_code: code,
+      points_redeemed: points,
+      value,
+      currency: 'EUR',
+      balance: reservation.balance,
+      expires_at: expiresAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Unexpected error in points-redeem function:', error);
+    return jsonResponse({ error: 'Internal server error', details: String(error) }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// HS-XXXXXXXX without ambiguous characters (0/O, 1/I)
+function generateDiscountCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return 'HS-' + Array.from(bytes, b => alphabet[b % alphabet.length]).join('');
+}
+
+async function createShopifyDiscountCode(code: string, value: number, expiresAt: Date): Promise<string> {
+  const shopDomain = Deno.env.get('SHOPIFY_STORE_DOMAIN');
+  const adminToken = Deno.env.get('SHOPIFY_ADMIN_ACCESS_TOKEN');
+  const apiVersion = Deno.env.get('SHOPIFY_ADMIN_API_VERSION') ?? '2024-10';
+
+  if (!shopDomain || !adminToken) {
+    throw new Error('Missing SHOPIFY_STORE_DOMAIN or SHOPIFY_ADMIN_ACCESS_TOKEN');
+  }
+
+  const response = await fetch(`https://${shopDomain}/admin/api/${apiVersion}/graphql.json`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Shopify-Access-Token': adminToken,
+    },
+    body: JSON.stringify({
+      query: DISCOUNT_CODE_MUTATION,
+      variables: {
+        basicCodeDiscount: {
+          title: `Loyalty redemption ${code}`,
+          code,
+          startsAt: new Date().toISOString(),
+          endsAt: expiresAt.toISOString(),
+          usageLimit: 1,
+          appliesOncePerCustomer: true,
+          customerSelection: { all: true },
+          customerGets: {
+            value: { discountAmount: { amount: value.toFixed(2), appliesOnEachItem: false } },
+            items: { all: true },
+          },
+        },
+      },
+    }),
+  });
+
+  const result = await response.json();
+  const payload = result?.data?.discountCodeBasicCreate;
+
+  if (!response.ok || result.errors || !payload || payload.userErrors?.length) {
+    throw new Error(JSON.stringify(result.errors ?? payload?.userErrors ?? result));
+  }
+
+  return payload.codeDiscountNode.id;
+}
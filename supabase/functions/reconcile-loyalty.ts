@@ -0,0 +1,130 @@
+// Loyalty ledger reconciliation
+// Compares loyalty_points with the sums in loyalty_transactions and prints a diff report.
+//
+// Run with:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env supabase/functions/reconcile-loyalty.ts [options]
+//
+// Options:
+//   --repair        Write a 'manual' adjustment per drifted member and refresh the summary
+//   --keep-balance  With --repair: credit/debit the difference so members keep the balance they saw
+//   --run-by=NAME   Recorded on the run and on every adjustment (default: $USER)
+//   --json          Print the raw report instead of a table
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type SummaryValues = {
+  points: number | null;
+  tier: string | null;
+  total_orders: number | null;
+  total_spent: number | null;
+};
+
+type DriftEntry = {
+  user_id: string;
+  email: string | null;
+  stored: SummaryValues;
+  ledger: SummaryValues;
+  adjustment_points?: number;
+};
+
+type ReconciliationReport = {
+  run_id: string;
+  repaired: boolean;
+  keep_balance: boolean;
+  users_checked: number;
+  users_drifted: number;
+  drift: DriftEntry[];
+};
+
+const FIELDS: Array<keyof SummaryValues> = ['points', 'tier', 'total_orders', 'total_spent'];
+
+function parseArgs(args: string[]) {
+  const flags = new Set(args.filter(arg => !arg.includes('=')));
+  const runBy = args.find(arg => arg.startsWith('--run-by='))?.split('=')[1];
+
+  return {
+    repair: flags.has('--repair'),
+    keepBalance: flags.has('--keep-balance'),
+    json: flags.has('--json'),
+    runBy: runBy || Deno.env.get('USER') || 'reconcile',
+  };
+}
+
+function formatChanges(entry: DriftEntry): string {
+  return FIELDS
+    .filter(field => String(entry.stored[field]) !== String(entry.ledger[field]))
+    .map(field => `${field} ${entry.stored[field] ?? '-'} → ${entry.ledger[field] ?? '-'}`)
+    .join(', ');
+}
+
+function printReport(report: ReconciliationReport) {
+  console.log(`Reconciliation run ${report.run_id}`);
+  console.log(`Checked ${report.users_checked} members, ${report.users_drifted} drifted from the ledger`);
+  console.log('='.repeat(60));
+
+  for (const entry of report.drift) {
+    const adjustment = entry.adjustment_points !== undefined
+      ? ` [adjusted ${entry.adjustment_points >= 0 ? '+' : ''}${entry.adjustment_points} points]`
+      : '';
+    console.log(`${entry.email ?? entry.user_id}: ${formatChanges(entry)}${adjustment}`);
+  }
+
+  if (report.users_drifted === 0) {
+    console.log('✅ All summaries match the ledger');
+  } else if (report.repaired) {
+    console.log(`\n🔧 Repaired ${report.users_drifted} members (keep balance: ${report.keep_balance})`);
+  } else {
+    console.log('\nℹ️  Report only. Run again with --repair to write the adjustments.');
+  }
+}
+
+async function main() {
+  const options = parseArgs(Deno.args);
+
+  if (options.keepBalance && !options.repair) {
+    console.error('--keep-balance only makes sense together with --repair');
+    Deno.exit(2);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    Deno.exit(2);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false },
+  });
+
+  const { data, error } = await supabase.rpc('reconcile_loyalty_summaries', {
+    p_repair: options.repair,
+    p_keep_balance: options.keepBalance,
+    p_run_by: options.runBy,
+  });
+
+  if (error) {
+    console.error('Reconciliation failed:', error);
+    Deno.exit(1);
+  }
+
+  const report = data as ReconciliationReport;
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  // Non-zero exit for a report-only run with drift, so it can gate a scheduled check
+  if (!options.repair && report.users_drifted > 0) {
+    Deno.exit(3);
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.main) {
+  await main();
+}
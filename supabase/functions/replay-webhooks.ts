@@ -0,0 +1,186 @@
+// Shopify webhook replay tool
+// Re-runs stored deliveries through the deployed webhook-replay function, so replays use
+// the same handlers and idempotency checks as live deliveries (a delivery that was
+// processed is reported as duplicate and not handled again).
+//
+// Run with:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env supabase/functions/replay-webhooks.ts [options]
+//
+// Options:
+//   --id=WEBHOOK_ID             Replay one delivery (X-Shopify-Webhook-Id); queued and
+//                               processing ones are left to webhook-worker
+//   --from=ISO --to=ISO         Replay failed deliveries received in the range (either end optional)
+//   --include-dead              With a range, also replay dead-lettered deliveries
+//   --limit=N                   Deliveries per run (default 50, max 500)
+//   --dry-run                   List what would be replayed
+//   --json                      Print the raw result
+// Without --id or a range, the job queue's depth is shown (webhook-worker runs the queue).
+
+type QueueDepth = {
+  queued: number;
+  processing: number;
+  failed: number;
+  due: number;
+  dead: number;
+  oldest_pending_at: string | null;
+  pending_by_topic: Record<string, number>;
+};
+
+type ReplayResult = {
+  mode: 'single' | 'range';
+  dry_run: boolean;
+  deliveries: number;
+  counts: Record<string, number>;
+  results: {
+    webhook_id: string;
+    topic: string;
+    status: string;
+    attempts?: number;
+    response_status?: number;
+    next_attempt_at?: string | null;
+    error?: string;
+  }[];
+};
+
+const STATUS_ICONS: Record<string, string> = {
+  processed: '✅',
+  duplicate: '↩️ ',
+  failed: '❌',
+  dead: '💀',
+  in_progress: '⏳',
+  no_payload: '⚠️ ',
+  error: '❌',
+};
+
+function parseArgs(args: string[]) {
+  const flags = new Set(args.filter(arg => !arg.includes('=')));
+  const value = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  return {
+    id: value('id'),
+    from: value('from'),
+    to: value('to'),
+    limit: value('limit'),
+    includeDead: flags.has('--include-dead'),
+    dryRun: flags.has('--dry-run'),
+    json: flags.has('--json'),
+  };
+}
+
+function printResult(result: ReplayResult) {
+  if (result.deliveries === 0) {
+    console.log('✅ Nothing to replay');
+    return;
+  }
+
+  console.log(`${result.deliveries} deliveries (${result.mode}${result.dry_run ? ', dry run' : ''})`);
+  console.log('='.repeat(60));
+  for (const delivery of result.results) {
+    const details = [
+      delivery.response_status && `HTTP ${delivery.response_status}`,
+      delivery.attempts && `attempt ${delivery.attempts}`,
+      delivery.next_attempt_at && `next ${delivery.next_attempt_at}`,
+      delivery.error,
+    ].filter(Boolean).join(', ');
+
+    console.log(`${STATUS_ICONS[delivery.status] ?? '  '} ${delivery.webhook_id} ${delivery.topic} ${delivery.status}${details ? ` (${details})` : ''}`);
+  }
+
+  console.log(`\n${Object.entries(result.counts).map(([status, count]) => `${status} ${count}`).join(', ')}`);
+  if (result.dry_run) {
+    console.log('\nℹ️  Dry run only. Run again without --dry-run to replay.');
+  }
+}
+
+function printQueue(queue: QueueDepth) {
+  console.log('Webhook job queue');
+  console.log('='.repeat(60));
+  console.log(`queued ${queue.queued}, processing ${queue.processing}, failed ${queue.failed} (due ${queue.due}), dead ${queue.dead}`);
+  if (queue.oldest_pending_at) {
+    console.log(`oldest pending: ${queue.oldest_pending_at}`);
+  }
+  for (const [topic, jobs] of Object.entries(queue.pending_by_topic)) {
+    console.log(`  ${topic}: ${jobs}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(Deno.args);
+
+  if (options.id && (options.from || options.to)) {
+    console.error('Give either --id or a --from/--to range');
+    Deno.exit(2);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    Deno.exit(2);
+  }
+
+  if (!options.id && !options.from && !options.to) {
+    const response = await fetch(`${supabaseUrl}/functions/v1/webhook-worker`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ dry_run: true }),
+    });
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok || !data?.queue) {
+      console.error(`Loading the queue failed (HTTP ${response.status}):`, data?.error ?? data);
+      Deno.exit(1);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(data.queue, null, 2));
+    } else {
+      printQueue(data.queue as QueueDepth);
+    }
+    return;
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/webhook-replay`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      webhook_id: options.id,
+      from: options.from,
+      to: options.to,
+      include_dead: options.includeDead,
+      limit: options.limit ? Number(options.limit) : undefined,
+      dry_run: options.dryRun,
+    }),
+  });
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`Replay failed (HTTP ${response.status}):`, data?.error ?? data);
+    Deno.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    printResult(data as ReplayResult);
+  }
+
+  const counts = (data as ReplayResult).counts;
+  if (counts.failed || counts.dead || counts.error) {
+    Deno.exit(1);
+  }
+}
+
+// Run if this file is executed directly
+if (import.meta.main) {
+  await main();
+}
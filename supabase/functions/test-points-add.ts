@@ -2,7 +2,8 @@
 // Run with: deno run --allow-net supabase/functions/test-points-add.ts
 
 const SUPABASE_URL = 'https://YOUR_PROJECT_REF.supabase.co';
-const SUPABASE_ANON_KEY = 'YOUR_ANON_KEY';
+// Internal requests need the service role key; Shopify and POS payloads are signed instead
+const SUPABASE_SERVICE_ROLE_KEY = 'YOUR_SERVICE_ROLE_KEY';
 
 interface TestCase {
   name: string;
@@ -110,7 +111,7 @@ async function runTest(testCase: TestCase): Promise<boolean> {
     const response = await fetch(`${SUPABASE_URL}/functions/v1/points-add`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(testCase.data)
@@ -175,14 +176,14 @@ async function performanceTest() {
       fetch(`${SUPABASE_URL}/functions/v1/points-add`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           order_id: `PERF-TEST-${i}`,
           email: 'perf@herbspot.fi',
           amount: 25.00,
-          source: 'performance'
+          source: 'shopify'
         })
       })
     );
@@ -0,0 +1,102 @@
+// supabase/functions/tests/credit-loyalty-points.test.ts
+// Concurrency test for credit_loyalty_points(), run against a local stack:
+//   supabase start && supabase db reset
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno test --allow-net --allow-env --allow-read supabase/functions/tests/
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const ignore = !supabaseUrl || !supabaseServiceKey;
+
+const CONCURRENT_CREDITS = 25;
+
+async function withTestUser(fn: (supabase: SupabaseClient, userId: string) => Promise<void>) {
+  const supabase = createClient(supabaseUrl!, supabaseServiceKey!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .insert([{ email: `concurrency-${crypto.randomUUID()}@test.herbspot.fi` }])
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  try {
+    await fn(supabase, user.id);
+  } finally {
+    await supabase.from('users').delete().eq('id', user.id);
+  }
+}
+
+Deno.test({
+  name: 'concurrent credits for one member are all counted',
+  ignore,
+  fn: () => withTestUser(async (supabase, userId) => {
+    const results = await Promise.all(
+      Array.from({ length: CONCURRENT_CREDITS }, (_, i) =>
+        supabase.rpc('credit_loyalty_points', {
+          p_user_id: userId,
+          p_order_id: `CONCURRENCY-${userId}-${i}`,
+          p_source: 'shopify',
+          p_amount: 20 + i,
+        })
+      ),
+    );
+
+    for (const { error } of results) assertEquals(error, null);
+
+    const credited = results.reduce((sum, { data }) => sum + data.points_added, 0);
+
+    const { data: summary } = await supabase
+      .from('loyalty_points')
+      .select('points, total_orders')
+      .eq('user_id', userId)
+      .single();
+
+    const { data: ledger } = await supabase
+      .from('loyalty_transactions')
+      .select('points')
+      .eq('user_id', userId);
+
+    assertEquals(ledger!.length, CONCURRENT_CREDITS);
+    assertEquals(summary!.total_orders, CONCURRENT_CREDITS);
+    assertEquals(summary!.points, credited);
+    assertEquals(summary!.points, ledger!.reduce((sum, row) => sum + row.points, 0));
+
+    // The highest balance any caller saw is the final one
+    assertEquals(Math.max(...results.map(({ data }) => data.balance)), summary!.points);
+  }),
+});
+
+Deno.test({
+  name: 'concurrent retries of the same order credit it once',
+  ignore,
+  fn: () => withTestUser(async (supabase, userId) => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        supabase.rpc('credit_loyalty_points', {
+          p_user_id: userId,
+          p_order_id: `RETRY-${userId}`,
+          p_source: 'shopify',
+          p_amount: 50,
+        })
+      ),
+    );
+
+    for (const { error } of results) assertEquals(error, null);
+    assertEquals(results.filter(({ data }) => !data.duplicate).length, 1);
+
+    const { data: summary } = await supabase
+      .from('loyalty_points')
+      .select('points, total_orders')
+      .eq('user_id', userId)
+      .single();
+
+    assertEquals(summary!.total_orders, 1);
+    assertEquals(summary!.points, results[0].data.points_added);
+  }),
+});
@@ -0,0 +1,269 @@
+// supabase/functions/tests/points-add.test.ts
+// points-add input adapters against recorded payloads (fixtures/), plus the shared core
+// against a local stack when SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set:
+//   deno test --allow-net --allow-env --allow-read supabase/functions/tests/points-add.test.ts
+
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  internalAdapter,
+  parseInternalRequest,
+  parsePosReceipt,
+  parseShopifyOrder,
+  posAdapter,
+  selectAdapter,
+  shopifyAdapter,
+  type ParseResult,
+  type PointsRequest,
+} from "../points-add/adapters.ts";
+import { addPoints } from "../points-add/core.ts";
+import { signStripeWebhook } from "../_shared/webhook-signatures.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const ignore = !supabaseUrl || !supabaseServiceKey;
+
+const fixture = (name: string) => new URL(`./fixtures/${name}`, import.meta.url);
+
+const deliveries = JSON.parse(await Deno.readTextFile(fixture('webhook-deliveries.json')));
+const shopifyBody = await Deno.readFile(fixture('shopify-orders-paid.json'));
+const shopifyOrder = JSON.parse(new TextDecoder().decode(shopifyBody));
+const posReceipt = JSON.parse(await Deno.readTextFile(fixture('pos-receipt.json')));
+
+function parsed(result: ParseResult): PointsRequest {
+  if (!result.ok) throw new Error(`Expected a request, got: ${result.error}`);
+  return result.request;
+}
+
+function withEnv(values: Record<string, string>, fn: () => Promise<void>) {
+  return async () => {
+    for (const [name, value] of Object.entries(values)) Deno.env.set(name, value);
+    try {
+      await fn();
+    } finally {
+      for (const name of Object.keys(values)) Deno.env.delete(name);
+    }
+  };
+}
+
+Deno.test('internal: webhook-shopify request is passed through', () => {
+  const request = parsed(parseInternalRequest({
+    order_id: '5841229398342',
+    email: 'aino.makinen@example.com',
+    shopify_customer_id: 7201993605190,
+    amount: 54.8,
+    shopify_order_id: '5841229398342',
+    items: shopifyOrder.line_items,
+    taxes_included: true,
+    shipping_amount: '4.90',
+    source: 'shopify',
+  }));
+
+  assertEquals(request.order_id, '5841229398342');
+  assertEquals(request.source, 'shopify');
+  assertEquals(request.shopify_customer_id, '7201993605190');
+  assertEquals(request.line_items?.length, 2);
+  assertEquals(request.shipping_amount, '4.90');
+});
+
+Deno.test('internal: source defaults to shopify and a QR code alone earns no bonus', () => {
+  const request = parsed(parseInternalRequest({
+    order_id: 'ORD-1', user_id: 'member', amount: 20, qr_code: 'herbspot://qr/ABC',
+  }));
+  assertEquals(request.source, 'shopify');
+  assertEquals(request.qr_code, 'herbspot://qr/ABC');
+});
+
+Deno.test('internal: missing fields, bad amounts and unknown sources are rejected', () => {
+  assertEquals(parseInternalRequest({ order_id: 'ORD-1', amount: 20 }).ok, false);
+  assertEquals(parseInternalRequest({ order_id: 'ORD-1', email: 'a@b.fi', amount: 'invalid' }), {
+    ok: false, error: 'Invalid amount',
+  });
+  assertEquals(parseInternalRequest({ order_id: 'ORD-1', email: 'a@b.fi', amount: 0 }).ok, false);
+  assertEquals(parseInternalRequest({ order_id: 'ORD-1', email: 'a@b.fi', amount: 20, source: 'bonus' }), {
+    ok: false, error: 'Invalid source',
+  });
+  assertEquals(parseInternalRequest({ order_id: 'ORD-1', email: 'a@b.fi', amount: 20, currency: 'SEK' }), {
+    ok: false, error: 'Unsupported currency',
+  });
+});
+
+Deno.test('shopify: recorded order with a qr_code note attribute is a QR order', () => {
+  const request = parsed(parseShopifyOrder(shopifyOrder));
+
+  assertEquals(request.order_id, '5841229398342');
+  assertEquals(request.shopify_order_id, '5841229398342');
+  assertEquals(request.source, 'qr');
+  assertEquals(request.qr_code, 'HS-QR-7F3A');
+  assertEquals(request.amount, 54.8);
+  assertEquals(request.email, 'aino.makinen@example.com');
+  assertEquals(request.shopify_customer_id, '7201993605190');
+  assertEquals(request.taxes_included, true);
+  assertEquals(request.shipping_amount, '4.90');
+  assertEquals(request.line_items?.length, 2);
+});
+
+Deno.test('shopify: orders without a QR attribute earn as shopify orders', () => {
+  const request = parsed(parseShopifyOrder({ ...shopifyOrder, note_attributes: [] }));
+  assertEquals(request.source, 'shopify');
+  assertEquals(request.qr_code, null);
+});
+
+Deno.test('shopify: guest orders use the order email, other currencies are rejected', () => {
+  const guest = parsed(parseShopifyOrder({ ...shopifyOrder, customer: null }));
+  assertEquals(guest.shopify_customer_id, null);
+  assertEquals(guest.email, 'aino.makinen@example.com');
+
+  assertEquals(parseShopifyOrder({ ...shopifyOrder, currency: 'USD' }), { ok: false, error: 'Unsupported currency' });
+  assertEquals(parseShopifyOrder({ ...shopifyOrder, email: null, customer: null }).ok, false);
+  assertEquals(parseShopifyOrder({ ...shopifyOrder, id: undefined }), { ok: false, error: 'Missing order_id' });
+});
+
+Deno.test('pos: recorded receipt is credited to the scanned member', () => {
+  const request = parsed(parsePosReceipt(posReceipt));
+
+  assertEquals(request.order_id, 'POS-helsinki-kallio-000318');
+  assertEquals(request.source, 'qr');
+  assertEquals(request.user_id, '3f0c9a52-8d1e-4b7a-9c61-2e5d7f4a1b08');
+  assertEquals(request.email, null);
+  assertEquals(request.amount, 37.4);
+  assertEquals(request.qr_code, posReceipt.member_qr);
+  assertEquals(request.taxes_included, true);
+  assertEquals(request.line_items, [
+    { id: 'HS-TEA-CHAM', title: 'Kamomillatee – luomu', quantity: 2, price: 12.45, total_discount: 2.5, product_id: undefined, gift_card: undefined },
+    { id: 'HS-GIFT-20', title: 'Lahjakortti 20 €', quantity: 1, price: 15, total_discount: 0, product_id: undefined, gift_card: true },
+  ]);
+});
+
+Deno.test('pos: email fallback, unknown QR codes and missing members', () => {
+  const { member_qr: _, ...withoutQr } = posReceipt;
+
+  const byEmail = parsed(parsePosReceipt({ ...withoutQr, email: 'aino.makinen@example.com' }));
+  assertEquals(byEmail.user_id, null);
+  assertEquals(byEmail.email, 'aino.makinen@example.com');
+  assertEquals(byEmail.qr_code, null);
+
+  assertEquals(parsePosReceipt({ ...posReceipt, member_qr: 'herbspot://qr/ABC123' }), {
+    ok: false, error: 'Unrecognised member QR code',
+  });
+  assertEquals(parsePosReceipt(withoutQr), { ok: false, error: 'Missing member (member_qr or email)' });
+  assertEquals(parsePosReceipt({ ...posReceipt, store_id: undefined }).ok, false);
+});
+
+Deno.test('selectAdapter routes by path, then by Shopify signature header', () => {
+  const url = 'https://example.supabase.co/functions/v1/points-add';
+  assertEquals(selectAdapter(new Request(url, { method: 'POST' })).name, 'internal');
+  assertEquals(selectAdapter(new Request(`${url}/pos`, { method: 'POST' })).name, 'pos');
+  assertEquals(selectAdapter(new Request(`${url}/shopify`, { method: 'POST' })).name, 'shopify');
+  assertEquals(
+    selectAdapter(new Request(url, { method: 'POST', headers: { 'X-Shopify-Hmac-Sha256': 'abc' } })).name,
+    'shopify',
+  );
+});
+
+Deno.test('shopify adapter accepts the recorded HMAC only', withEnv(
+  { SHOPIFY_WEBHOOK_SECRET: deliveries.shopify_orders_paid.secret },
+  async () => {
+    const headers = deliveries.shopify_orders_paid.headers;
+    const req = new Request('https://example.test/points-add', { method: 'POST', headers });
+    assertEquals(await shopifyAdapter.authenticate(req, shopifyBody), true);
+
+    const forged = new Request('https://example.test/points-add', {
+      method: 'POST',
+      headers: { ...headers, 'x-shopify-hmac-sha256': deliveries.shopify_orders_paid.previous_secret_hmac },
+    });
+    assertEquals(await shopifyAdapter.authenticate(forged, shopifyBody), false);
+  },
+));
+
+Deno.test('pos adapter needs a fresh POS_WEBHOOK_SECRET signature', withEnv(
+  { POS_WEBHOOK_SECRET: 'pos_fixture_secret' },
+  async () => {
+    const body = new TextEncoder().encode(JSON.stringify(posReceipt));
+    const sign = async (timestamp: number) => new Request('https://example.test/points-add/pos', {
+      method: 'POST',
+      headers: { 'X-HerbSpot-Signature': await signStripeWebhook(body, 'pos_fixture_secret', timestamp) },
+    });
+    const now = Math.floor(Date.now() / 1000);
+
+    assertEquals(await posAdapter.authenticate(await sign(now), body), true);
+    assertEquals(await posAdapter.authenticate(await sign(now - 3600), body), false);
+  },
+));
+
+Deno.test('internal adapter needs the service role key', withEnv(
+  { SUPABASE_SERVICE_ROLE_KEY: 'service-role-fixture' },
+  async () => {
+    const request = (key: string) => new Request('https://example.test/points-add', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${key}` },
+    });
+    assertEquals(await internalAdapter.authenticate(request('service-role-fixture'), new Uint8Array()), true);
+    assertEquals(await internalAdapter.authenticate(request('anon-key'), new Uint8Array()), false);
+  },
+));
+
+async function withTestMember(fn: (supabase: SupabaseClient, userId: string) => Promise<void>) {
+  const supabase = createClient(supabaseUrl!, supabaseServiceKey!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .insert([{ email: `points-add-${crypto.randomUUID()}@test.herbspot.fi` }])
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  try {
+    await fn(supabase, user.id);
+  } finally {
+    await supabase.from('users').delete().eq('id', user.id);
+  }
+}
+
+Deno.test({
+  name: 'core: a repeated internal request returns the original credit',
+  ignore,
+  fn: () => withTestMember(async (supabase, userId) => {
+    const request = parsed(parseInternalRequest({
+      order_id: `CORE-${userId}`, user_id: userId, amount: 42.5, source: 'shopify',
+    }));
+
+    const first = await addPoints(supabase, request);
+    const repeat = await addPoints(supabase, request);
+
+    assertEquals(first.status, 200);
+    assertEquals(first.body.duplicate, false);
+    assert(Number(first.body.points_added) > 0);
+    assertEquals(repeat.body.duplicate, true);
+    assertEquals(repeat.body.points_added, first.body.points_added);
+    assertEquals(repeat.body.total_points, first.body.total_points);
+  }),
+});
+
+Deno.test({
+  name: 'core: a POS receipt earns the QR bonus and logs the scan',
+  ignore,
+  fn: () => withTestMember(async (supabase, userId) => {
+    const receipt = { ...posReceipt, receipt_id: userId, member_qr: `herbspot://member/${userId}`, lines: [] };
+    const qrResult = await addPoints(supabase, parsed(parsePosReceipt(receipt)));
+
+    const { member_qr: _, ...plain } = receipt;
+    const { data: member } = await supabase.from('users').select('email').eq('id', userId).single();
+    const plainResult = await addPoints(supabase, parsed(parsePosReceipt({
+      ...plain, receipt_id: `${userId}-2`, email: member!.email,
+    })));
+
+    assertEquals(qrResult.status, 200);
+    assertEquals(qrResult.body.source, 'qr');
+    assertEquals(plainResult.body.user_id, userId);
+    assert(Number(qrResult.body.points_added) > Number(plainResult.body.points_added));
+
+    const { count } = await supabase
+      .from('qr_scans')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    assertEquals(count, 1);
+  }),
+});
@@ -0,0 +1,109 @@
+// supabase/functions/tests/webhook-queue.test.ts
+// Webhook job queue: ordering keys, and per-order ordering of claim_webhook_jobs() against a
+// freshly reset local stack (the claims take any due job in the database):
+//   supabase start && supabase db reset
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno test --allow-net --allow-env --allow-read supabase/functions/tests/webhook-queue.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { enqueueDelivery, getOrderingKey } from "../_shared/shopify-webhooks.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const ignore = !supabaseUrl || !supabaseServiceKey;
+
+const shopifyOrder = JSON.parse(
+  await Deno.readTextFile(new URL('./fixtures/shopify-orders-paid.json', import.meta.url)),
+);
+
+Deno.test('an order and its refunds share an ordering key', () => {
+  assertEquals(getOrderingKey('orders/paid', shopifyOrder, 'herbspot.myshopify.com'), 'order:5841229398342');
+  assertEquals(getOrderingKey('orders/cancelled', { id: 5841229398342 }, null), 'order:5841229398342');
+  assertEquals(getOrderingKey('refunds/create', { id: 99, order_id: 5841229398342 }, null), 'order:5841229398342');
+});
+
+Deno.test('customer and shop events are keyed by customer and shop', () => {
+  assertEquals(getOrderingKey('customers/update', { id: 7201993605190 }, null), 'customer:7201993605190');
+  assertEquals(getOrderingKey('customers/redact', { customer: { id: 7201993605190 } }, null), 'customer:7201993605190');
+  assertEquals(getOrderingKey('shop/redact', {}, 'herbspot.myshopify.com'), 'shop:herbspot.myshopify.com');
+  assertEquals(getOrderingKey('app/uninstalled', {}, 'herbspot.myshopify.com'), null);
+});
+
+async function withOrderJobs(fn: (supabase: SupabaseClient, ids: string[]) => Promise<void>) {
+  const supabase = createClient(supabaseUrl!, supabaseServiceKey!, {
+    auth: { persistSession: false },
+  });
+  const orderId = Date.now();
+  const ids = ['1-paid', '2-fulfilled'].map((event) => `queue-test-${orderId}-${event}`);
+
+  try {
+    // Received one after the other, as Shopify would send them
+    assertEquals(await enqueueDelivery(supabase, {
+      webhook_id: ids[0], topic: 'orders/paid', shop_domain: null, payload: { id: orderId }, headers: null,
+    }), 'queued');
+    assertEquals(await enqueueDelivery(supabase, {
+      webhook_id: ids[1], topic: 'orders/fulfilled', shop_domain: null, payload: { id: orderId }, headers: null,
+    }), 'queued');
+
+    await fn(supabase, ids);
+  } finally {
+    await supabase.from('webhook_deliveries').delete().in('webhook_id', ids);
+  }
+}
+
+async function claimIds(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase.rpc('claim_webhook_jobs', { p_limit: 100 });
+  if (error) throw error;
+  return data.map((job: { webhook_id: string }) => job.webhook_id);
+}
+
+Deno.test({
+  name: 'a resent delivery is not queued twice',
+  ignore,
+  fn: () => withOrderJobs(async (supabase, ids) => {
+    assertEquals(await enqueueDelivery(supabase, {
+      webhook_id: ids[0], topic: 'orders/paid', shop_domain: null, payload: {}, headers: null,
+    }), 'duplicate');
+  }),
+});
+
+Deno.test({
+  name: 'jobs of one order are claimed one at a time, in order',
+  ignore,
+  fn: () => withOrderJobs(async (supabase, [paid, fulfilled]) => {
+    assertEquals(await claimIds(supabase), [paid]);
+    assertEquals(await claimIds(supabase), []);
+
+    await supabase.rpc('complete_webhook_delivery', {
+      p_webhook_id: paid, p_response_status: 200, p_response: { success: true },
+    });
+    assertEquals(await claimIds(supabase), [fulfilled]);
+  }),
+});
+
+Deno.test({
+  name: 'a failed job holds later jobs of its order until it succeeds',
+  ignore,
+  fn: () => withOrderJobs(async (supabase, [paid, fulfilled]) => {
+    assertEquals(await claimIds(supabase), [paid]);
+
+    const { data: failed } = await supabase.rpc('complete_webhook_delivery', {
+      p_webhook_id: paid, p_response_status: 502, p_response: { error: 'Failed to add points' },
+    });
+    assertEquals(failed.status, 'failed');
+    assertEquals(await claimIds(supabase), []);
+
+    const { data: depth } = await supabase.rpc('webhook_queue_depth');
+    assertEquals(depth.failed >= 1 && depth.queued >= 1, true);
+
+    // Make the retry due now
+    await supabase.from('webhook_deliveries').update({ next_attempt_at: new Date().toISOString() }).eq('webhook_id', paid);
+    assertEquals(await claimIds(supabase), [paid]);
+
+    await supabase.rpc('complete_webhook_delivery', {
+      p_webhook_id: paid, p_response_status: 200, p_response: { success: true },
+    });
+    assertEquals(await claimIds(supabase), [fulfilled]);
+  }),
+});
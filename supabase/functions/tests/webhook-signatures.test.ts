@@ -0,0 +1,164 @@
+// supabase/functions/tests/webhook-signatures.test.ts
+// Signature checks against recorded deliveries (fixtures/webhook-deliveries.json), no stack needed:
+//   deno test --allow-read --allow-env supabase/functions/tests/webhook-signatures.test.ts
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  getWebhookSecrets,
+  signShopifyWebhook,
+  signStripeWebhook,
+  timingSafeEqual,
+  verifyShopifyWebhook,
+  verifyStripeWebhook,
+} from "../_shared/webhook-signatures.ts";
+
+const deliveries = JSON.parse(
+  await Deno.readTextFile(new URL('./fixtures/webhook-deliveries.json', import.meta.url)),
+);
+const shopify = deliveries.shopify_orders_paid;
+const stripe = deliveries.stripe_payment_intent_succeeded;
+
+// Raw bytes, exactly as received
+const shopifyBody = await Deno.readFile(new URL(`./fixtures/${shopify.body}`, import.meta.url));
+const stripeBody = await Deno.readFile(new URL(`./fixtures/${stripe.body}`, import.meta.url));
+
+const stripeReceivedAt = stripe.received_at * 1000;
+const shopifyHmac: string = shopify.headers['x-shopify-hmac-sha256'];
+const stripeSignature: string = stripe.headers['stripe-signature'];
+
+function tampered(body: Uint8Array): Uint8Array {
+  const copy = body.slice();
+  copy[copy.length - 2] ^= 1;
+  return copy;
+}
+
+Deno.test('timingSafeEqual compares bytes and lengths', () => {
+  assertEquals(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3])), true);
+  assertEquals(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4])), false);
+  assertEquals(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2])), false);
+});
+
+Deno.test('shopify: recorded orders/paid delivery verifies', async () => {
+  assertEquals(await verifyShopifyWebhook(shopifyBody, shopifyHmac, [shopify.secret]), { valid: true });
+});
+
+Deno.test('shopify: the body as decoded text verifies too', async () => {
+  const text = new TextDecoder().decode(shopifyBody);
+  assertEquals(await verifyShopifyWebhook(text, shopifyHmac, [shopify.secret]), { valid: true });
+});
+
+Deno.test('shopify: signing reproduces the recorded header', async () => {
+  assertEquals(await signShopifyWebhook(shopifyBody, shopify.secret), shopifyHmac);
+  assertEquals(await signShopifyWebhook(shopifyBody, shopify.previous_secret), shopify.previous_secret_hmac);
+});
+
+Deno.test('shopify: both secrets are accepted during a rotation window', async () => {
+  const secrets = [shopify.secret, shopify.previous_secret];
+  assertEquals(await verifyShopifyWebhook(shopifyBody, shopifyHmac, secrets), { valid: true });
+  assertEquals(await verifyShopifyWebhook(shopifyBody, shopify.previous_secret_hmac, secrets), { valid: true });
+});
+
+Deno.test('shopify: a retired secret is rejected', async () => {
+  assertEquals(
+    await verifyShopifyWebhook(shopifyBody, shopify.previous_secret_hmac, [shopify.secret]),
+    { valid: false, reason: 'mismatch' },
+  );
+});
+
+Deno.test('shopify: a modified body is rejected', async () => {
+  assertEquals(
+    await verifyShopifyWebhook(tampered(shopifyBody), shopifyHmac, [shopify.secret]),
+    { valid: false, reason: 'mismatch' },
+  );
+});
+
+Deno.test('shopify: missing, malformed and unconfigured signatures are rejected', async () => {
+  assertEquals(
+    await verifyShopifyWebhook(shopifyBody, null, [shopify.secret]),
+    { valid: false, reason: 'missing_signature' },
+  );
+  assertEquals(
+    await verifyShopifyWebhook(shopifyBody, 'not base64!', [shopify.secret]),
+    { valid: false, reason: 'malformed_signature' },
+  );
+  assertEquals(
+    await verifyShopifyWebhook(shopifyBody, shopifyHmac.slice(0, 20), [shopify.secret]),
+    { valid: false, reason: 'mismatch' },
+  );
+  assertEquals(
+    await verifyShopifyWebhook(shopifyBody, shopifyHmac, []),
+    { valid: false, reason: 'no_secret' },
+  );
+});
+
+Deno.test('stripe: recorded delivery verifies with either secret', async () => {
+  const options = { now: stripeReceivedAt };
+  assertEquals(await verifyStripeWebhook(stripeBody, stripeSignature, [stripe.secret], options), { valid: true });
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, stripeSignature, [stripe.previous_secret], options),
+    { valid: true },
+  );
+});
+
+Deno.test('stripe: signing reproduces the recorded v1 entry', async () => {
+  const header = await signStripeWebhook(stripeBody, stripe.secret, 1789988401);
+  assertEquals(stripeSignature.startsWith(header), true);
+});
+
+Deno.test('stripe: stale and future timestamps are rejected', async () => {
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, stripeSignature, [stripe.secret], { now: stripeReceivedAt + 310_000 }),
+    { valid: false, reason: 'stale_timestamp' },
+  );
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, stripeSignature, [stripe.secret], { now: stripeReceivedAt - 310_000 }),
+    { valid: false, reason: 'stale_timestamp' },
+  );
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, stripeSignature, [stripe.secret], {
+      now: stripeReceivedAt + 3_600_000,
+      toleranceSeconds: 7200,
+    }),
+    { valid: true },
+  );
+});
+
+Deno.test('stripe: a changed timestamp or body is rejected', async () => {
+  const replayed = stripeSignature.replace('t=1789988401', 't=1789988999');
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, replayed, [stripe.secret], { now: stripeReceivedAt }),
+    { valid: false, reason: 'mismatch' },
+  );
+  assertEquals(
+    await verifyStripeWebhook(tampered(stripeBody), stripeSignature, [stripe.secret], { now: stripeReceivedAt }),
+    { valid: false, reason: 'mismatch' },
+  );
+});
+
+Deno.test('stripe: headers without a timestamp or v1 signature are malformed', async () => {
+  const options = { now: stripeReceivedAt };
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, stripeSignature.replace('t=1789988401,', ''), [stripe.secret], options),
+    { valid: false, reason: 'malformed_signature' },
+  );
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, 't=1789988401,v0=abc', [stripe.secret], options),
+    { valid: false, reason: 'malformed_signature' },
+  );
+  assertEquals(
+    await verifyStripeWebhook(stripeBody, null, [stripe.secret], options),
+    { valid: false, reason: 'missing_signature' },
+  );
+});
+
+Deno.test('getWebhookSecrets reads the current and previous secrets', () => {
+  Deno.env.set('TEST_WEBHOOK_SECRET', 'current');
+  Deno.env.set('TEST_WEBHOOK_SECRET_PREVIOUS', ' older , oldest ');
+  try {
+    assertEquals(getWebhookSecrets('TEST_WEBHOOK_SECRET'), ['current', 'older', 'oldest']);
+  } finally {
+    Deno.env.delete('TEST_WEBHOOK_SECRET');
+    Deno.env.delete('TEST_WEBHOOK_SECRET_PREVIOUS');
+  }
+  assertEquals(getWebhookSecrets('TEST_WEBHOOK_SECRET'), []);
+});
@@ -0,0 +1,167 @@
+// supabase/functions/webhook-replay/index.ts
+// HerbSpot.fi Shopify webhook replays
+// Runs stored deliveries (webhook_deliveries) through the same handlers as webhook-worker,
+// on demand: one delivery, or the failed (and dead) deliveries of a time range. Queued
+// jobs and due retries are webhook-worker's.
+//
+// Body:
+//   { "webhook_id": "..." }                               one delivery
+//   { "from": ISO, "to": ISO, "include_dead": true }      failed (and dead) deliveries in range
+//   { "limit": 50, "dry_run": true }                      optional
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { processDelivery, type WebhookDelivery } from "../_shared/shopify-webhooks.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const DELIVERY_COLUMNS = 'webhook_id, topic, shop_domain, payload, headers, status, attempts, received_at';
+
+type StoredDelivery = WebhookDelivery & {
+  status: string;
+  attempts: number;
+  received_at: string;
+};
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Only the replay CLI (service role) may replay deliveries
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const body = await req.json().catch(() => ({}));
+    const limit = Math.min(Number(body.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+    const dryRun = Boolean(body.dry_run);
+
+    if ((body.from && isNaN(Date.parse(body.from))) || (body.to && isNaN(Date.parse(body.to)))) {
+      return jsonResponse({ error: 'from and to must be ISO timestamps' }, 400);
+    }
+
+    if (!body.webhook_id && !body.from && !body.to) {
+      return jsonResponse({ error: 'Give a webhook_id or a from/to range; due retries are run by webhook-worker' }, 400);
+    }
+
+    const mode = body.webhook_id ? 'single' : 'range';
+    const { data: deliveries, error: loadError } = await loadDeliveries(supabase, mode, body, limit);
+
+    if (loadError) {
+      console.error('Error loading webhook deliveries:', loadError);
+      return jsonResponse({ error: 'Failed to load deliveries' }, 500);
+    }
+
+    if (mode === 'single' && !deliveries?.length) {
+      return jsonResponse({ error: `No delivery ${body.webhook_id}` }, 404);
+    }
+
+    // Replaying a job webhook-worker has yet to run (or is running) would process it twice
+    const pending = mode === 'single' && (deliveries as StoredDelivery[]).find((delivery) =>
+      delivery.status === 'queued' || delivery.status === 'processing'
+    );
+    if (pending) {
+      return jsonResponse({
+        error: `Delivery ${pending.webhook_id} is ${pending.status}; let webhook-worker process it`,
+      }, 409);
+    }
+
+    const results = [];
+    for (const delivery of (deliveries ?? []) as StoredDelivery[]) {
+      if (!delivery.payload) {
+        // Received before payloads were stored; only Shopify can resend it
+        results.push({ webhook_id: delivery.webhook_id, topic: delivery.topic, status: 'no_payload' });
+        continue;
+      }
+
+      if (dryRun) {
+        results.push({
+          webhook_id: delivery.webhook_id,
+          topic: delivery.topic,
+          status: delivery.status,
+          attempts: delivery.attempts,
+        });
+        continue;
+      }
+
+      try {
+        const result = await processDelivery(supabase, delivery, corsHeaders);
+        results.push({
+          webhook_id: delivery.webhook_id,
+          topic: delivery.topic,
+          status: result.status,
+          attempts: result.attempts,
+          response_status: result.response.status,
+          next_attempt_at: result.next_attempt_at ?? null,
+        });
+      } catch (error) {
+        console.error(`Error replaying delivery ${delivery.webhook_id}:`, error);
+        results.push({ webhook_id: delivery.webhook_id, topic: delivery.topic, status: 'error', error: error.message });
+      }
+    }
+
+    const counts: Record<string, number> = {};
+    for (const result of results) {
+      counts[result.status] = (counts[result.status] ?? 0) + 1;
+    }
+
+    console.log(`Webhook replay (${mode}${dryRun ? ', dry run' : ''}): ${JSON.stringify(counts)}`);
+
+    return jsonResponse({
+      success: true,
+      mode,
+      dry_run: dryRun,
+      deliveries: results.length,
+      counts,
+      results,
+    });
+
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
+
+function loadDeliveries(supabase: SupabaseClient, mode: string, body: any, limit: number) {
+  const query = supabase.from('webhook_deliveries').select(DELIVERY_COLUMNS);
+
+  if (mode === 'single') {
+    // A processed delivery is loaded too; processDelivery answers it as a duplicate.
+    // Queued and processing ones are refused by the caller.
+    return query.eq('webhook_id', body.webhook_id);
+  }
+
+  let rangeQuery = query.in('status', body.include_dead ? ['failed', 'dead'] : ['failed']);
+  if (body.from) rangeQuery = rangeQuery.gte('received_at', body.from);
+  if (body.to) rangeQuery = rangeQuery.lt('received_at', body.to);
+  return rangeQuery.order('received_at').limit(limit);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
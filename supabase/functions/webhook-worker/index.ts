@@ -0,0 +1,133 @@
+// supabase/functions/webhook-worker/index.ts
+// HerbSpot.fi Shopify webhook worker
+// Scheduled every minute: claims queued and due webhook jobs (claim_webhook_jobs) and runs
+// them with the handlers in _shared/shopify-webhooks.ts. Jobs of one order run in the
+// order received; failures are retried with backoff and dead-lettered after the last try.
+//
+// Body (all optional):
+//   { "batch_size": 25 }     jobs claimed at a time
+//   { "dry_run": true }      only report the queue depth
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runDelivery, type WebhookDelivery } from "../_shared/shopify-webhooks.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_BATCH_SIZE = 100;
+
+// Stop claiming new batches after this, well inside the edge function time limit;
+// whatever is left waits for the next run
+const RUN_BUDGET_MS = 40_000;
+
+// Pending jobs older than this are logged as a backlog
+const BACKLOG_WARNING_MINUTES = 15;
+
+type ClaimedJob = WebhookDelivery & { attempts: number };
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Server configuration error' }, 500);
+    }
+
+    // Only the scheduler (service role) may run the queue
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const body = await req.json().catch(() => ({}));
+    const batchSize = Math.min(Number(body.batch_size) || DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE);
+    const dryRun = Boolean(body.dry_run);
+
+    const startedAt = Date.now();
+    const counts: Record<string, number> = {};
+    const failures = [];
+
+    while (!dryRun && Date.now() - startedAt < RUN_BUDGET_MS) {
+      const { data: jobs, error: claimError } = await supabase.rpc('claim_webhook_jobs', {
+        p_limit: batchSize,
+      });
+
+      if (claimError) {
+        console.error('Error claiming webhook jobs:', claimError);
+        return jsonResponse({ error: 'Failed to claim jobs' }, 500);
+      }
+
+      if (!jobs?.length) break;
+
+      for (const job of jobs as ClaimedJob[]) {
+        try {
+          const result = await runDelivery(supabase, job, job.attempts, corsHeaders);
+          counts[result.status] = (counts[result.status] ?? 0) + 1;
+
+          if (result.status !== 'processed') {
+            failures.push({
+              webhook_id: job.webhook_id,
+              topic: job.topic,
+              status: result.status,
+              attempts: result.attempts,
+              response_status: result.response.status,
+              next_attempt_at: result.next_attempt_at ?? null,
+            });
+          }
+        } catch (error) {
+          // Left in 'processing'; claim_webhook_jobs takes it up again once it has stalled
+          console.error(`Error running webhook job ${job.webhook_id}:`, error);
+          counts.error = (counts.error ?? 0) + 1;
+          failures.push({ webhook_id: job.webhook_id, topic: job.topic, status: 'error', error: error.message });
+        }
+      }
+    }
+
+    const { data: queue, error: depthError } = await supabase.rpc('webhook_queue_depth');
+    if (depthError) {
+      console.error('Error loading webhook queue depth:', depthError);
+    }
+
+    console.log(`Webhook worker${dryRun ? ' (dry run)' : ''}: ${JSON.stringify(counts)}, queue ${JSON.stringify(queue)}`);
+
+    const oldestPending = queue?.oldest_pending_at ? Date.parse(queue.oldest_pending_at) : null;
+    if (oldestPending && Date.now() - oldestPending > BACKLOG_WARNING_MINUTES * 60 * 1000) {
+      console.warn(`Webhook backlog: oldest pending job received ${queue.oldest_pending_at}`);
+    }
+
+    return jsonResponse({
+      success: !counts.error,
+      dry_run: dryRun,
+      processed: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      counts,
+      failures,
+      queue: queue ?? null,
+    });
+
+  } catch (error) {
+    console.error('Webhook worker error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
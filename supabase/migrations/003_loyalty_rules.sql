@@ -0,0 +1,170 @@
+-- Versioned loyalty rules for HerbSpot.fi
+-- Single source of truth for earning rates and tier thresholds.
+-- The Next.js client, the edge functions (supabase/functions/_shared/loyalty-rules.ts)
+-- and the SQL helpers below all evaluate the active row of this table.
+
+CREATE TABLE IF NOT EXISTS loyalty_rules (
+  version INTEGER PRIMARY KEY,
+  rules JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  activated_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT loyalty_rules_shape_check CHECK (
+    jsonb_typeof(rules->'tiers') = 'array'
+    AND (rules->>'points_per_euro') IS NOT NULL
+  )
+);
+
+-- At most one active rule set at any time
+CREATE UNIQUE INDEX IF NOT EXISTS loyalty_rules_single_active_uidx
+ON loyalty_rules (is_active) WHERE is_active;
+
+-- RLS: rules are public (the storefront shows earn rates), only service role may change them
+ALTER TABLE loyalty_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read loyalty rules" ON loyalty_rules
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role full access loyalty_rules" ON loyalty_rules
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Version 1: the rates that were previously hard-coded in lib/, points-add and SQL
+INSERT INTO loyalty_rules (version, rules, is_active, notes, created_by, activated_at)
+VALUES (
+  1,
+  '{
+    "points_per_euro": 2,
+    "min_order_amount": 5,
+    "qr_multiplier": 1.5,
+    "tiers": [
+      { "name": "Bronze", "min_points": 0,    "multiplier": 1.0,  "color": "#CD7F32" },
+      { "name": "Silver", "min_points": 500,  "multiplier": 1.25, "color": "#C0C0C0" },
+      { "name": "Gold",   "min_points": 1500, "multiplier": 1.5,  "color": "#FFD700" },
+      { "name": "VIP",    "min_points": 4000, "multiplier": 2.0,  "color": "#39FF14" }
+    ]
+  }'::jsonb,
+  TRUE,
+  'Initial rules migrated from hard-coded constants',
+  'migration',
+  NOW()
+)
+ON CONFLICT (version) DO NOTHING;
+
+-- Active rules as one JSON document (rules + version)
+CREATE OR REPLACE FUNCTION get_loyalty_rules()
+RETURNS JSONB AS $$
+  SELECT rules || jsonb_build_object('version', version)
+  FROM loyalty_rules
+  WHERE is_active
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Switch the active rule set atomically. New versions are inserted inactive
+-- and published with: SELECT activate_loyalty_rules(2);
+CREATE OR REPLACE FUNCTION activate_loyalty_rules(p_version INTEGER)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM loyalty_rules WHERE version = p_version) THEN
+    RAISE EXCEPTION 'Unknown loyalty rules version %', p_version;
+  END IF;
+
+  UPDATE loyalty_rules SET is_active = FALSE WHERE is_active AND version <> p_version;
+  UPDATE loyalty_rules SET is_active = TRUE, activated_at = NOW() WHERE version = p_version;
+
+  RETURN get_loyalty_rules();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tier for a points balance, evaluated against the active rules
+CREATE OR REPLACE FUNCTION get_user_tier(points INTEGER)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT t->>'name'
+      FROM jsonb_array_elements(get_loyalty_rules()->'tiers') AS t
+      WHERE (t->>'min_points')::INTEGER <= points
+      ORDER BY (t->>'min_points')::INTEGER DESC
+      LIMIT 1
+    ),
+    'Bronze'
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION points_to_next_tier(points INTEGER)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(
+    (
+      SELECT (t->>'min_points')::INTEGER - points
+      FROM jsonb_array_elements(get_loyalty_rules()->'tiers') AS t
+      WHERE (t->>'min_points')::INTEGER > points
+      ORDER BY (t->>'min_points')::INTEGER ASC
+      LIMIT 1
+    ),
+    0 -- top tier, no next tier
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_tier_multiplier(tier TEXT)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(
+    (
+      SELECT (t->>'multiplier')::DECIMAL
+      FROM jsonb_array_elements(get_loyalty_rules()->'tiers') AS t
+      WHERE t->>'name' = tier
+      LIMIT 1
+    ),
+    1.0
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Points earned for an order. Mirrors calculateOrderPoints() in _shared/loyalty-rules.ts
+CREATE OR REPLACE FUNCTION calculate_order_points(amount DECIMAL, tier TEXT, has_qr_bonus BOOLEAN DEFAULT FALSE)
+RETURNS INTEGER AS $$
+DECLARE
+  rules JSONB := get_loyalty_rules();
+  base_points INTEGER;
+BEGIN
+  IF amount IS NULL OR amount < COALESCE((rules->>'min_order_amount')::DECIMAL, 0) THEN
+    RETURN 0;
+  END IF;
+
+  base_points := FLOOR(amount * (rules->>'points_per_euro')::DECIMAL);
+
+  RETURN FLOOR(
+    base_points
+    * get_tier_multiplier(tier)
+    * CASE WHEN has_qr_bonus THEN COALESCE((rules->>'qr_multiplier')::DECIMAL, 1.0) ELSE 1.0 END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Summary trigger now derives the tier from the active rules instead of a hard-coded CASE
+CREATE OR REPLACE FUNCTION update_loyalty_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO loyalty_points (user_id, points, tier, total_orders, last_order_date, total_spent, updated_at)
+  SELECT
+    NEW.user_id,
+    SUM(points) as total_points,
+    get_user_tier(SUM(points)::INTEGER) as tier,
+    COUNT(*) as order_count,
+    MAX(created_at) as last_order,
+    SUM(amount) as total_spent,
+    NOW()
+  FROM loyalty_transactions
+  WHERE user_id = NEW.user_id
+  ON CONFLICT (user_id) DO UPDATE SET
+    points = EXCLUDED.points,
+    tier = EXCLUDED.tier,
+    total_orders = EXCLUDED.total_orders,
+    last_order_date = EXCLUDED.last_order_date,
+    total_spent = EXCLUDED.total_spent,
+    updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION activate_loyalty_rules(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,192 @@
+-- Points redemption for HerbSpot.fi
+-- Points are exchanged for single-use Shopify discount codes.
+-- Each redemption writes a negative 'redemption' row to loyalty_transactions.
+-- A code that expires unused gives its points back (settle_expired_redemption).
+
+-- Allow the new ledger source
+ALTER TABLE loyalty_transactions DROP CONSTRAINT IF EXISTS loyalty_transactions_source_check;
+ALTER TABLE loyalty_transactions ADD CONSTRAINT loyalty_transactions_source_check
+  CHECK (source IN ('shopify', 'qr', 'manual', 'bonus', 'redemption'));
+
+-- One row per generated discount code
+CREATE TABLE IF NOT EXISTS loyalty_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  points INTEGER NOT NULL CHECK (points > 0),
+  value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+  currency TEXT DEFAULT 'EUR' NOT NULL,
+  discount_code TEXT UNIQUE NOT NULL,
+  shopify_discount_id TEXT,
+  status TEXT DEFAULT 'reserved' NOT NULL CHECK (status IN ('reserved', 'issued', 'used', 'released', 'expired')),
+  rules_version INTEGER REFERENCES loyalty_rules(version),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS loyalty_redemptions_user_id_idx
+ON loyalty_redemptions (user_id);
+
+CREATE INDEX IF NOT EXISTS loyalty_redemptions_issued_expiry_idx
+ON loyalty_redemptions (expires_at) WHERE status = 'issued';
+
+ALTER TABLE loyalty_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own redemptions" ON loyalty_redemptions
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role full access loyalty_redemptions" ON loyalty_redemptions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Rules version 2: version 1 plus redemption rates (100 points = 1 €)
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  2,
+  rules || '{
+    "redemption": {
+      "points_per_euro": 100,
+      "min_points": 500,
+      "step_points": 100,
+      "code_valid_days": 30
+    }
+  }'::jsonb,
+  'Add points redemption rates',
+  'migration'
+FROM loyalty_rules
+WHERE version = 1
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(2);
+
+-- Summary trigger: redemptions lower the balance but are not orders,
+-- do not count as spend and do not lower the tier.
+CREATE OR REPLACE FUNCTION update_loyalty_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO loyalty_points (user_id, points, tier, total_orders, last_order_date, total_spent, updated_at)
+  SELECT
+    NEW.user_id,
+    SUM(points) as total_points,
+    get_user_tier(COALESCE(SUM(points) FILTER (WHERE source <> 'redemption'), 0)::INTEGER) as tier,
+    COUNT(*) FILTER (WHERE source <> 'redemption') as order_count,
+    MAX(created_at) FILTER (WHERE source <> 'redemption') as last_order,
+    COALESCE(SUM(amount) FILTER (WHERE source <> 'redemption'), 0) as total_spent,
+    NOW()
+  FROM loyalty_transactions
+  WHERE user_id = NEW.user_id
+  ON CONFLICT (user_id) DO UPDATE SET
+    points = EXCLUDED.points,
+    tier = EXCLUDED.tier,
+    total_orders = EXCLUDED.total_orders,
+    last_order_date = EXCLUDED.last_order_date,
+    total_spent = EXCLUDED.total_spent,
+    updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reserve points for a redemption. Locks the user's summary row so two
+-- concurrent redemptions cannot spend the same balance.
+CREATE OR REPLACE FUNCTION reserve_points_redemption(
+  p_user_id UUID,
+  p_points INTEGER,
+  p_value DECIMAL,
+  p_discount_code TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_balance INTEGER;
+  redemption loyalty_redemptions%ROWTYPE;
+BEGIN
+  SELECT points INTO current_balance
+  FROM loyalty_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF current_balance IS NULL OR current_balance < p_points THEN
+    RAISE EXCEPTION 'Insufficient points balance' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO loyalty_redemptions (user_id, points, value, discount_code, rules_version, expires_at)
+  VALUES (p_user_id, p_points, p_value, p_discount_code, (get_loyalty_rules()->>'version')::INTEGER, p_expires_at)
+  RETURNING * INTO redemption;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount)
+  VALUES (p_user_id, 'REDEEM-' || p_discount_code, -p_points, 'redemption', p_value);
+
+  RETURN jsonb_build_object(
+    'redemption_id', redemption.id,
+    'discount_code', redemption.discount_code,
+    'points', redemption.points,
+    'value', redemption.value,
+    'balance', current_balance - p_points
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark a reservation as issued once the Shopify discount code exists
+CREATE OR REPLACE FUNCTION issue_points_redemption(p_redemption_id UUID, p_shopify_discount_id TEXT)
+RETURNS VOID AS $$
+  UPDATE loyalty_redemptions
+  SET status = 'issued', shopify_discount_id = p_shopify_discount_id, updated_at = NOW()
+  WHERE id = p_redemption_id AND status = 'reserved';
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Give the points back when the discount code could not be created
+CREATE OR REPLACE FUNCTION release_points_redemption(p_redemption_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  redemption loyalty_redemptions%ROWTYPE;
+BEGIN
+  UPDATE loyalty_redemptions
+  SET status = 'released', updated_at = NOW()
+  WHERE id = p_redemption_id AND status = 'reserved'
+  RETURNING * INTO redemption;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Compensating entry; the ledger itself is never edited
+  INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount)
+  VALUES (redemption.user_id, 'REDEEM-' || redemption.discount_code || '-RELEASED', redemption.points, 'redemption', 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Close an issued code after it has expired: 'used' when Shopify counted an order with
+-- it, otherwise 'expired' and the points are given back. Returns NULL when the code is
+-- not issued or not expired yet.
+CREATE OR REPLACE FUNCTION settle_expired_redemption(p_redemption_id UUID, p_used BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  redemption loyalty_redemptions%ROWTYPE;
+BEGIN
+  UPDATE loyalty_redemptions
+  SET status = CASE WHEN p_used THEN 'used' ELSE 'expired' END, updated_at = NOW()
+  WHERE id = p_redemption_id AND status = 'issued' AND expires_at < NOW()
+  RETURNING * INTO redemption;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT p_used THEN
+    INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount)
+    VALUES (redemption.user_id, 'REDEEM-' || redemption.discount_code || '-EXPIRED', redemption.points, 'redemption', 0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'redemption_id', redemption.id,
+    'status', redemption.status,
+    'points_returned', CASE WHEN p_used THEN 0 ELSE redemption.points END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redemption functions are only callable by the edge functions (service role)
+REVOKE EXECUTE ON FUNCTION reserve_points_redemption(UUID, INTEGER, DECIMAL, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_points_redemption(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_points_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_expired_redemption(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,166 @@
+-- Points reversals for cancelled and refunded orders
+-- Reversals are compensating 'reversal' rows in loyalty_transactions; earned rows are never edited.
+
+ALTER TABLE loyalty_transactions DROP CONSTRAINT IF EXISTS loyalty_transactions_source_check;
+ALTER TABLE loyalty_transactions ADD CONSTRAINT loyalty_transactions_source_check
+  CHECK (source IN ('shopify', 'qr', 'manual', 'bonus', 'redemption', 'reversal'));
+
+-- Reversal rows point back at the original order through shopify_order_id
+CREATE INDEX IF NOT EXISTS loyalty_transactions_shopify_order_id_idx
+ON loyalty_transactions (shopify_order_id);
+
+-- Balances that went negative (points already redeemed before a refund) are queued for review
+CREATE TABLE IF NOT EXISTS loyalty_review_flags (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL,
+  balance INTEGER NOT NULL,
+  order_id TEXT,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS loyalty_review_flags_open_idx
+ON loyalty_review_flags (created_at) WHERE resolved_at IS NULL;
+
+ALTER TABLE loyalty_review_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access loyalty_review_flags" ON loyalty_review_flags
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Summary trigger: reversals lower balance, tier and spend; a cancellation also removes the order
+CREATE OR REPLACE FUNCTION update_loyalty_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO loyalty_points (user_id, points, tier, total_orders, last_order_date, total_spent, updated_at)
+  SELECT
+    NEW.user_id,
+    SUM(points) as total_points,
+    get_user_tier(COALESCE(SUM(points) FILTER (WHERE source <> 'redemption'), 0)::INTEGER) as tier,
+    COUNT(*) FILTER (WHERE source NOT IN ('redemption', 'reversal'))
+      - COUNT(*) FILTER (WHERE source = 'reversal' AND items->>'type' = 'cancel') as order_count,
+    MAX(created_at) FILTER (WHERE source NOT IN ('redemption', 'reversal')) as last_order,
+    COALESCE(SUM(amount) FILTER (WHERE source NOT IN ('redemption', 'reversal')), 0)
+      - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0) as total_spent,
+    NOW()
+  FROM loyalty_transactions
+  WHERE user_id = NEW.user_id
+  ON CONFLICT (user_id) DO UPDATE SET
+    points = EXCLUDED.points,
+    tier = EXCLUDED.tier,
+    total_orders = EXCLUDED.total_orders,
+    last_order_date = EXCLUDED.last_order_date,
+    total_spent = EXCLUDED.total_spent,
+    updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reverse the points earned by an order.
+--   p_kind 'cancel' reverses everything not yet reversed.
+--   p_kind 'refund' reverses p_points and p_amount of spend, as worked out from the
+--   original credit by the refunds/create handler, up to what is left unreversed.
+--   p_reference makes the call idempotent, e.g. 'cancel' or 'refund:<refund id>'.
+CREATE OR REPLACE FUNCTION reverse_order_points(
+  p_shopify_order_id TEXT,
+  p_kind TEXT,
+  p_reference TEXT,
+  p_points INTEGER DEFAULT NULL,
+  p_amount DECIMAL DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID;
+  earned_points INTEGER;
+  earned_amount DECIMAL;
+  reversed_points INTEGER;
+  reversed_amount DECIMAL;
+  reverse_points INTEGER;
+  reverse_amount DECIMAL;
+  new_balance INTEGER;
+  new_tier TEXT;
+  inserted_id UUID;
+BEGIN
+  IF p_kind NOT IN ('cancel', 'refund') THEN
+    RAISE EXCEPTION 'Unknown reversal kind %', p_kind;
+  END IF;
+
+  SELECT user_id, SUM(points), SUM(amount)
+  INTO v_user_id, earned_points, earned_amount
+  FROM loyalty_transactions
+  WHERE order_id = p_shopify_order_id AND source IN ('shopify', 'qr')
+  GROUP BY user_id
+  LIMIT 1;
+
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('reversed', false, 'reason', 'no_points_for_order');
+  END IF;
+
+  -- Serialize reversals for this member
+  PERFORM 1 FROM loyalty_points WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT COALESCE(-SUM(points), 0), COALESCE(SUM(amount), 0)
+  INTO reversed_points, reversed_amount
+  FROM loyalty_transactions
+  WHERE shopify_order_id = p_shopify_order_id AND source = 'reversal';
+
+  IF p_kind = 'cancel' THEN
+    reverse_points := earned_points - reversed_points;
+    reverse_amount := earned_amount - reversed_amount;
+  ELSE
+    reverse_points := LEAST(GREATEST(COALESCE(p_points, 0), 0), earned_points - reversed_points);
+    reverse_amount := LEAST(GREATEST(COALESCE(p_amount, 0), 0), earned_amount - reversed_amount);
+  END IF;
+
+  IF reverse_points <= 0 AND p_kind = 'refund' THEN
+    RETURN jsonb_build_object('reversed', false, 'reason', 'nothing_left_to_reverse', 'user_id', v_user_id);
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, shopify_order_id, points, source, amount, items)
+  VALUES (
+    v_user_id,
+    p_shopify_order_id || ':' || p_reference,
+    p_shopify_order_id,
+    -GREATEST(reverse_points, 0),
+    'reversal',
+    GREATEST(reverse_amount, 0),
+    p_details || jsonb_build_object('type', p_kind, 'earned_points', earned_points)
+  )
+  ON CONFLICT (order_id, source) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    RETURN jsonb_build_object('reversed', false, 'reason', 'duplicate', 'user_id', v_user_id);
+  END IF;
+
+  -- update_loyalty_summary() has recomputed balance and tier by now
+  SELECT points, tier INTO new_balance, new_tier FROM loyalty_points WHERE user_id = v_user_id;
+
+  IF new_balance < 0 THEN
+    INSERT INTO loyalty_review_flags (user_id, reason, balance, order_id, details)
+    VALUES (
+      v_user_id,
+      'negative_balance_after_' || p_kind,
+      new_balance,
+      p_shopify_order_id,
+      jsonb_build_object('reversal_id', inserted_id, 'points_reversed', reverse_points)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'reversed', true,
+    'user_id', v_user_id,
+    'points_reversed', GREATEST(reverse_points, 0),
+    'amount_reversed', GREATEST(reverse_amount, 0),
+    'balance', new_balance,
+    'tier', new_tier,
+    'flagged_for_review', new_balance < 0
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION reverse_order_points(TEXT, TEXT, TEXT, INTEGER, DECIMAL, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,138 @@
+-- Atomic points crediting
+-- All summary writes go through refresh_loyalty_summary(), which holds the member's
+-- loyalty_points row lock while it recomputes from the ledger. credit_loyalty_points()
+-- takes the same lock before it reads the tier, so concurrent credits serialize
+-- instead of overwriting each other.
+
+-- The summary derives the tier itself (redemptions excluded); the old BEFORE UPDATE
+-- trigger recomputed it from the raw balance and undid that.
+DROP TRIGGER IF EXISTS trigger_update_tier ON loyalty_points;
+
+-- Recompute a member's summary from the ledger under a row lock
+CREATE OR REPLACE FUNCTION refresh_loyalty_summary(p_user_id UUID)
+RETURNS loyalty_points AS $$
+DECLARE
+  summary loyalty_points%ROWTYPE;
+BEGIN
+  INSERT INTO loyalty_points (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Waits for any other writer; the aggregate below then sees its committed rows
+  PERFORM 1 FROM loyalty_points WHERE user_id = p_user_id FOR UPDATE;
+
+  UPDATE loyalty_points lp SET
+    points = agg.total_points,
+    tier = agg.tier,
+    total_orders = agg.order_count,
+    last_order_date = agg.last_order,
+    total_spent = agg.total_spent,
+    updated_at = NOW()
+  FROM (
+    SELECT
+      COALESCE(SUM(points), 0)::INTEGER as total_points,
+      get_user_tier(COALESCE(SUM(points) FILTER (WHERE source <> 'redemption'), 0)::INTEGER) as tier,
+      COUNT(*) FILTER (WHERE source NOT IN ('redemption', 'reversal'))
+        - COUNT(*) FILTER (WHERE source = 'reversal' AND items->>'type' = 'cancel') as order_count,
+      MAX(created_at) FILTER (WHERE source NOT IN ('redemption', 'reversal')) as last_order,
+      COALESCE(SUM(amount) FILTER (WHERE source NOT IN ('redemption', 'reversal')), 0)
+        - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0) as total_spent
+    FROM loyalty_transactions
+    WHERE user_id = p_user_id
+  ) agg
+  WHERE lp.user_id = p_user_id
+  RETURNING lp.* INTO summary;
+
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Summary trigger: same aggregation as before, now race-free for every ledger writer
+CREATE OR REPLACE FUNCTION update_loyalty_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_loyalty_summary(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Credit points for an order in one transaction.
+--   p_points NULL: earned points are calculated from p_amount with the member's
+--   current tier, read under the lock.
+--   A repeated (order_id, source) is not credited twice; the original row is returned.
+CREATE OR REPLACE FUNCTION credit_loyalty_points(
+  p_user_id UUID,
+  p_order_id TEXT,
+  p_source TEXT,
+  p_amount DECIMAL,
+  p_points INTEGER DEFAULT NULL,
+  p_shopify_order_id TEXT DEFAULT NULL,
+  p_qr_code TEXT DEFAULT NULL,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_tier TEXT;
+  credit_points INTEGER;
+  inserted_id UUID;
+  existing loyalty_transactions%ROWTYPE;
+  summary loyalty_points%ROWTYPE;
+BEGIN
+  INSERT INTO loyalty_points (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT tier INTO current_tier
+  FROM loyalty_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  credit_points := COALESCE(
+    p_points,
+    calculate_order_points(p_amount, current_tier, p_source = 'qr' AND p_qr_code IS NOT NULL)
+  );
+
+  INSERT INTO loyalty_transactions (user_id, order_id, shopify_order_id, points, source, amount, qr_code, items)
+  VALUES (p_user_id, p_order_id, COALESCE(p_shopify_order_id, p_order_id), credit_points, p_source, p_amount, p_qr_code, p_items)
+  ON CONFLICT (order_id, source) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    SELECT * INTO existing
+    FROM loyalty_transactions
+    WHERE order_id = p_order_id AND source = p_source;
+
+    SELECT * INTO summary FROM loyalty_points WHERE user_id = existing.user_id;
+
+    RETURN jsonb_build_object(
+      'duplicate', true,
+      'transaction_id', existing.id,
+      'user_id', existing.user_id,
+      'order_id', existing.order_id,
+      'points_added', existing.points,
+      'balance', summary.points,
+      'tier', summary.tier,
+      'total_orders', summary.total_orders
+    );
+  END IF;
+
+  -- update_loyalty_summary() has refreshed the row inside this transaction
+  IF p_source IN ('shopify', 'qr') THEN
+    UPDATE loyalty_points SET streak = streak + 1 WHERE user_id = p_user_id;
+  END IF;
+
+  SELECT * INTO summary FROM loyalty_points WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'transaction_id', inserted_id,
+    'user_id', p_user_id,
+    'order_id', p_order_id,
+    'points_added', credit_points,
+    'balance', summary.points,
+    'tier', summary.tier,
+    'total_orders', summary.total_orders
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_loyalty_summary(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION credit_loyalty_points(UUID, TEXT, TEXT, DECIMAL, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
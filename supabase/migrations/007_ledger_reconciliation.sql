@@ -0,0 +1,190 @@
+-- Ledger reconciliation for loyalty_points
+-- loyalty_transactions is the source of truth. loyalty_ledger_summary derives every
+-- summary column from it; reconcile_loyalty_summaries() reports where loyalty_points
+-- differs and can repair it with audited 'manual' adjustment rows.
+
+-- Summary as derived from the ledger. Adjustment rows (items.type = 'adjustment')
+-- move points but are not orders.
+CREATE OR REPLACE VIEW loyalty_ledger_summary AS
+SELECT
+  user_id,
+  COALESCE(SUM(points), 0)::INTEGER as points,
+  get_user_tier(COALESCE(SUM(points) FILTER (WHERE source <> 'redemption'), 0)::INTEGER) as tier,
+  (COUNT(*) FILTER (WHERE is_order)
+    - COUNT(*) FILTER (WHERE source = 'reversal' AND items->>'type' = 'cancel'))::INTEGER as total_orders,
+  MAX(created_at) FILTER (WHERE is_order) as last_order_date,
+  (COALESCE(SUM(amount) FILTER (WHERE is_order), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0))::DECIMAL(10,2) as total_spent
+FROM (
+  SELECT
+    *,
+    source NOT IN ('redemption', 'reversal') AND COALESCE(items->>'type', '') <> 'adjustment' as is_order
+  FROM loyalty_transactions
+) ledger
+GROUP BY user_id;
+
+REVOKE ALL ON loyalty_ledger_summary FROM PUBLIC, anon, authenticated;
+
+-- Summary refresh now reads the shared view so reconciliation and the trigger agree
+CREATE OR REPLACE FUNCTION refresh_loyalty_summary(p_user_id UUID)
+RETURNS loyalty_points AS $$
+DECLARE
+  summary loyalty_points%ROWTYPE;
+BEGIN
+  INSERT INTO loyalty_points (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Waits for any other writer; the aggregate below then sees its committed rows
+  PERFORM 1 FROM loyalty_points WHERE user_id = p_user_id FOR UPDATE;
+
+  UPDATE loyalty_points lp SET
+    points = agg.points,
+    tier = agg.tier,
+    total_orders = agg.total_orders,
+    last_order_date = agg.last_order_date,
+    total_spent = agg.total_spent,
+    updated_at = NOW()
+  FROM loyalty_ledger_summary agg
+  WHERE lp.user_id = p_user_id AND agg.user_id = p_user_id
+  RETURNING lp.* INTO summary;
+
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One row per reconciliation run, with the full diff report
+CREATE TABLE IF NOT EXISTS loyalty_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_by TEXT NOT NULL,
+  repaired BOOLEAN DEFAULT FALSE NOT NULL,
+  keep_balance BOOLEAN DEFAULT FALSE NOT NULL,
+  users_checked INTEGER DEFAULT 0 NOT NULL,
+  users_drifted INTEGER DEFAULT 0 NOT NULL,
+  report JSONB,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE loyalty_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access loyalty_reconciliation_runs" ON loyalty_reconciliation_runs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Compare every summary row with the ledger.
+--   p_repair FALSE: report only.
+--   p_repair TRUE: write one 'manual' adjustment per drifted member, which refreshes
+--   the summary from the ledger. The points of the adjustment are 0, unless
+--   p_keep_balance is set: then the difference is credited or debited so the
+--   ledger matches the balance the member was shown.
+CREATE OR REPLACE FUNCTION reconcile_loyalty_summaries(
+  p_repair BOOLEAN DEFAULT FALSE,
+  p_keep_balance BOOLEAN DEFAULT FALSE,
+  p_run_by TEXT DEFAULT 'reconcile'
+)
+RETURNS JSONB AS $$
+DECLARE
+  run_id UUID;
+  checked INTEGER;
+  drift JSONB := '[]'::jsonb;
+  entry JSONB;
+  r RECORD;
+  stored loyalty_points%ROWTYPE;
+  ledger loyalty_ledger_summary%ROWTYPE;
+  delta INTEGER;
+BEGIN
+  INSERT INTO loyalty_reconciliation_runs (run_by, repaired, keep_balance)
+  VALUES (p_run_by, p_repair, p_keep_balance)
+  RETURNING id INTO run_id;
+
+  SELECT COUNT(*) INTO checked
+  FROM loyalty_points lp
+  FULL JOIN loyalty_ledger_summary l ON l.user_id = lp.user_id;
+
+  FOR r IN
+    SELECT COALESCE(lp.user_id, l.user_id) as user_id
+    FROM loyalty_points lp
+    FULL JOIN loyalty_ledger_summary l ON l.user_id = lp.user_id
+    WHERE lp.user_id IS NULL
+      OR lp.points IS DISTINCT FROM COALESCE(l.points, 0)
+      OR lp.tier IS DISTINCT FROM COALESCE(l.tier, get_user_tier(0))
+      OR lp.total_orders IS DISTINCT FROM COALESCE(l.total_orders, 0)
+      OR lp.total_spent IS DISTINCT FROM COALESCE(l.total_spent, 0)
+    ORDER BY 1
+  LOOP
+    -- Re-read under the row lock so a concurrent credit is not reported or repaired as drift
+    IF p_repair THEN
+      INSERT INTO loyalty_points (user_id) VALUES (r.user_id) ON CONFLICT (user_id) DO NOTHING;
+      SELECT * INTO stored FROM loyalty_points WHERE user_id = r.user_id FOR UPDATE;
+    ELSE
+      SELECT * INTO stored FROM loyalty_points WHERE user_id = r.user_id;
+    END IF;
+
+    SELECT * INTO ledger FROM loyalty_ledger_summary WHERE user_id = r.user_id;
+
+    entry := jsonb_build_object(
+      'user_id', r.user_id,
+      'email', (SELECT email FROM users WHERE id = r.user_id),
+      'stored', jsonb_build_object(
+        'points', stored.points,
+        'tier', stored.tier,
+        'total_orders', stored.total_orders,
+        'total_spent', stored.total_spent
+      ),
+      'ledger', jsonb_build_object(
+        'points', COALESCE(ledger.points, 0),
+        'tier', COALESCE(ledger.tier, get_user_tier(0)),
+        'total_orders', COALESCE(ledger.total_orders, 0),
+        'total_spent', COALESCE(ledger.total_spent, 0)
+      )
+    );
+
+    IF entry->'stored' = entry->'ledger' THEN
+      CONTINUE;
+    END IF;
+
+    IF p_repair THEN
+      delta := CASE
+        WHEN p_keep_balance THEN COALESCE(stored.points, 0) - COALESCE(ledger.points, 0)
+        ELSE 0
+      END;
+
+      INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+      VALUES (
+        r.user_id,
+        'RECONCILE-' || run_id || '-' || r.user_id,
+        delta,
+        'manual',
+        0,
+        entry || jsonb_build_object(
+          'type', 'adjustment',
+          'reason', 'reconciliation',
+          'run_id', run_id,
+          'run_by', p_run_by
+        )
+      );
+
+      entry := entry || jsonb_build_object('adjustment_points', delta);
+    END IF;
+
+    drift := drift || entry;
+  END LOOP;
+
+  UPDATE loyalty_reconciliation_runs SET
+    users_checked = checked,
+    users_drifted = jsonb_array_length(drift),
+    report = drift,
+    finished_at = NOW()
+  WHERE id = run_id;
+
+  RETURN jsonb_build_object(
+    'run_id', run_id,
+    'repaired', p_repair,
+    'keep_balance', p_keep_balance,
+    'users_checked', checked,
+    'users_drifted', jsonb_array_length(drift),
+    'drift', drift
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION reconcile_loyalty_summaries(BOOLEAN, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
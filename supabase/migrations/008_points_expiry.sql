@@ -0,0 +1,238 @@
+-- Points expiration for HerbSpot.fi
+-- Expired points are written as negative 'expiry' rows, oldest points first (FIFO).
+-- The policy lives in the loyalty rules:
+--   expiry.earned_months      points expire this many months after they were earned (null = never)
+--   expiry.inactivity_months  the whole balance expires after this many months without
+--                             an order or redemption (null = never)
+--   expiry.warning_days       members are warned this many days before points expire
+
+ALTER TABLE loyalty_transactions DROP CONSTRAINT IF EXISTS loyalty_transactions_source_check;
+ALTER TABLE loyalty_transactions ADD CONSTRAINT loyalty_transactions_source_check
+  CHECK (source IN ('shopify', 'qr', 'manual', 'bonus', 'redemption', 'reversal', 'expiry'));
+
+-- Rules version 3: version 2 plus a 12 month expiry on earned points
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  3,
+  rules || '{
+    "expiry": {
+      "earned_months": 12,
+      "inactivity_months": null,
+      "warning_days": 30
+    }
+  }'::jsonb,
+  'Points expire 12 months after earning',
+  'migration'
+FROM loyalty_rules
+WHERE version = 2
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(3);
+
+-- Expired points lower the balance like redemptions do, but not the tier
+CREATE OR REPLACE VIEW loyalty_ledger_summary AS
+SELECT
+  user_id,
+  COALESCE(SUM(points), 0)::INTEGER as points,
+  get_user_tier(COALESCE(SUM(points) FILTER (WHERE source NOT IN ('redemption', 'expiry')), 0)::INTEGER) as tier,
+  (COUNT(*) FILTER (WHERE is_order)
+    - COUNT(*) FILTER (WHERE source = 'reversal' AND items->>'type' = 'cancel'))::INTEGER as total_orders,
+  MAX(created_at) FILTER (WHERE is_order) as last_order_date,
+  (COALESCE(SUM(amount) FILTER (WHERE is_order), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0))::DECIMAL(10,2) as total_spent
+FROM (
+  SELECT
+    *,
+    source NOT IN ('redemption', 'reversal', 'expiry') AND COALESCE(items->>'type', '') <> 'adjustment' as is_order
+  FROM loyalty_transactions
+) ledger
+GROUP BY user_id;
+
+-- A member's earned lots, oldest first. An order's credits form one lot, less what its
+-- reversals took back, so a refund cancels the points of the refunded order rather than
+-- the oldest ones. Every other positive row (bonuses, adjustments) is a lot of its own;
+-- points given back from a redemption are not, they net out against the redemption.
+CREATE OR REPLACE FUNCTION points_expiry_lots(p_user_id UUID)
+RETURNS TABLE (earned_at TIMESTAMP WITH TIME ZONE, lot_id TEXT, points INTEGER) AS $$
+  SELECT lots.earned_at, lots.lot_id, lots.points::INTEGER
+  FROM (
+    SELECT
+      MIN(created_at) FILTER (WHERE source <> 'reversal') as earned_at,
+      MIN(id::TEXT) FILTER (WHERE source <> 'reversal') as lot_id,
+      SUM(points) as points
+    FROM loyalty_transactions
+    WHERE user_id = p_user_id
+      AND (source = 'reversal' OR (points > 0 AND source NOT IN ('redemption', 'expiry')))
+    GROUP BY CASE
+      WHEN source IN ('shopify', 'qr', 'reversal') THEN 'order:' || COALESCE(shopify_order_id, order_id)
+      ELSE 'row:' || id
+    END
+  ) lots
+  WHERE lots.earned_at IS NOT NULL AND lots.points > 0;
+$$ LANGUAGE sql STABLE;
+
+-- Points that have expired for a member by p_as_of and are not yet written off
+CREATE OR REPLACE FUNCTION points_expiring_by(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER AS $$
+DECLARE
+  expiry JSONB := get_loyalty_rules()->'expiry';
+  earned_months INTEGER := (expiry->>'earned_months')::INTEGER;
+  inactivity_months INTEGER := (expiry->>'inactivity_months')::INTEGER;
+  balance INTEGER;
+  consumed INTEGER;
+  earned_before INTEGER;
+  last_activity TIMESTAMP WITH TIME ZONE;
+  expiring INTEGER := 0;
+BEGIN
+  SELECT
+    COALESCE(SUM(points), 0),
+    GREATEST(COALESCE(-SUM(points) FILTER (WHERE source IN ('redemption', 'expiry')), 0), 0),
+    MAX(created_at) FILTER (WHERE source IN ('shopify', 'qr', 'redemption'))
+  INTO balance, consumed, last_activity
+  FROM loyalty_transactions
+  WHERE user_id = p_user_id;
+
+  IF balance <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(lots.points) FILTER (WHERE lots.earned_at + make_interval(months => earned_months) <= p_as_of), 0)
+  INTO earned_before
+  FROM points_expiry_lots(p_user_id) lots;
+
+  -- FIFO: everything redeemed or expired so far used up the oldest lots first
+  IF earned_months IS NOT NULL THEN
+    expiring := GREATEST(earned_before - consumed, 0);
+  END IF;
+
+  IF inactivity_months IS NOT NULL
+     AND last_activity IS NOT NULL
+     AND last_activity + make_interval(months => inactivity_months) <= p_as_of THEN
+    expiring := balance;
+  END IF;
+
+  RETURN LEAST(expiring, balance);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Next upcoming expiry for a member: { points, expires_at, warning_days }, points 0 if none.
+-- Members may read their own; the edge functions use the service role.
+CREATE OR REPLACE FUNCTION get_points_expiry(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  expiry JSONB := get_loyalty_rules()->'expiry';
+  earned_months INTEGER := (expiry->>'earned_months')::INTEGER;
+  inactivity_months INTEGER := (expiry->>'inactivity_months')::INTEGER;
+  consumed INTEGER;
+  lot_expires_at TIMESTAMP WITH TIME ZONE;
+  inactive_at TIMESTAMP WITH TIME ZONE;
+  expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to read points expiry for this user' USING ERRCODE = '42501';
+  END IF;
+
+  IF earned_months IS NOT NULL THEN
+    SELECT GREATEST(COALESCE(-SUM(points) FILTER (WHERE source IN ('redemption', 'expiry')), 0), 0)
+    INTO consumed
+    FROM loyalty_transactions
+    WHERE user_id = p_user_id;
+
+    -- Oldest lot that has not been used up yet
+    SELECT lots.earned_at + make_interval(months => earned_months)
+    INTO lot_expires_at
+    FROM (
+      SELECT earned_at, SUM(points) OVER (ORDER BY earned_at, lot_id) as cumulative
+      FROM points_expiry_lots(p_user_id)
+    ) lots
+    WHERE lots.cumulative > consumed
+    ORDER BY lots.earned_at
+    LIMIT 1;
+  END IF;
+
+  IF inactivity_months IS NOT NULL THEN
+    SELECT MAX(created_at) + make_interval(months => inactivity_months)
+    INTO inactive_at
+    FROM loyalty_transactions
+    WHERE user_id = p_user_id AND source IN ('shopify', 'qr', 'redemption');
+  END IF;
+
+  expires_at := LEAST(lot_expires_at, inactive_at);
+
+  RETURN jsonb_build_object(
+    'points', CASE WHEN expires_at IS NULL THEN 0 ELSE points_expiring_by(p_user_id, expires_at) END,
+    'expires_at', expires_at,
+    'warning_days', COALESCE((expiry->>'warning_days')::INTEGER, 30)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Write off a member's expired points under the summary row lock
+CREATE OR REPLACE FUNCTION expire_points(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS INTEGER AS $$
+DECLARE
+  expiring INTEGER;
+BEGIN
+  PERFORM 1 FROM loyalty_points WHERE user_id = p_user_id FOR UPDATE;
+
+  expiring := points_expiring_by(p_user_id, p_as_of);
+  IF expiring <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+  VALUES (
+    p_user_id,
+    'EXPIRY-' || p_user_id || '-' || to_char(p_as_of AT TIME ZONE 'UTC', 'YYYYMMDD'),
+    -expiring,
+    'expiry',
+    0,
+    jsonb_build_object(
+      'type', 'adjustment',
+      'reason', 'expiry',
+      'as_of', p_as_of,
+      'rules_version', (get_loyalty_rules()->>'version')::INTEGER
+    )
+  )
+  ON CONFLICT (order_id, source) DO NOTHING;
+
+  RETURN CASE WHEN FOUND THEN expiring ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Warnings already sent, one per member and expiry date
+CREATE TABLE IF NOT EXISTS loyalty_expiry_notices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  points INTEGER NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, expires_at)
+);
+
+ALTER TABLE loyalty_expiry_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access loyalty_expiry_notices" ON loyalty_expiry_notices
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Members whose next expiry is within the warning window and who have not been warned for it
+CREATE OR REPLACE FUNCTION due_expiry_warnings()
+RETURNS TABLE (user_id UUID, email TEXT, points INTEGER, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT lp.user_id, u.email, (e.expiry->>'points')::INTEGER, (e.expiry->>'expires_at')::TIMESTAMP WITH TIME ZONE
+  FROM loyalty_points lp
+  JOIN users u ON u.id = lp.user_id
+  CROSS JOIN LATERAL (SELECT get_points_expiry(lp.user_id) as expiry) e
+  WHERE lp.points > 0
+    AND (e.expiry->>'points')::INTEGER > 0
+    AND (e.expiry->>'expires_at')::TIMESTAMP WITH TIME ZONE
+      <= NOW() + make_interval(days => (e.expiry->>'warning_days')::INTEGER)
+    AND (e.expiry->>'expires_at')::TIMESTAMP WITH TIME ZONE > NOW()
+    AND NOT EXISTS (
+      SELECT 1 FROM loyalty_expiry_notices n
+      WHERE n.user_id = lp.user_id
+        AND n.expires_at = (e.expiry->>'expires_at')::TIMESTAMP WITH TIME ZONE
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION expire_points(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION due_expiry_warnings() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,263 @@
+-- Time-based purchase streaks for HerbSpot.fi
+-- loyalty_points.streak counts consecutive windows (calendar months by default)
+-- with at least one paid order. Missing a window resets it. Reaching a milestone
+-- writes a 'bonus' transaction.
+
+-- Rules version 4: version 3 plus streak windows and milestone bonuses
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  4,
+  rules || '{
+    "streak": {
+      "window": "month",
+      "timezone": "Europe/Helsinki",
+      "milestones": [
+        { "streak": 3,  "bonus_points": 50 },
+        { "streak": 6,  "bonus_points": 150 },
+        { "streak": 12, "bonus_points": 400 }
+      ]
+    }
+  }'::jsonb,
+  'Monthly purchase streaks with milestone bonuses',
+  'migration'
+FROM loyalty_rules
+WHERE version = 3
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(4);
+
+-- Bonuses are earned points but not orders
+CREATE OR REPLACE VIEW loyalty_ledger_summary AS
+SELECT
+  user_id,
+  COALESCE(SUM(points), 0)::INTEGER as points,
+  get_user_tier(COALESCE(SUM(points) FILTER (WHERE source NOT IN ('redemption', 'expiry')), 0)::INTEGER) as tier,
+  (COUNT(*) FILTER (WHERE is_order)
+    - COUNT(*) FILTER (WHERE source = 'reversal' AND items->>'type' = 'cancel'))::INTEGER as total_orders,
+  MAX(created_at) FILTER (WHERE is_order) as last_order_date,
+  (COALESCE(SUM(amount) FILTER (WHERE is_order), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0))::DECIMAL(10,2) as total_spent
+FROM (
+  SELECT
+    *,
+    source NOT IN ('redemption', 'reversal', 'expiry', 'bonus') AND COALESCE(items->>'type', '') <> 'adjustment' as is_order
+  FROM loyalty_transactions
+) ledger
+GROUP BY user_id;
+
+-- Sequential number of the streak window containing p_at, so consecutive windows differ by 1
+CREATE OR REPLACE FUNCTION streak_window_index(p_at TIMESTAMP WITH TIME ZONE, p_window TEXT, p_timezone TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE p_window
+    WHEN 'week' THEN
+      FLOOR(EXTRACT(EPOCH FROM date_trunc('week', p_at AT TIME ZONE p_timezone)) / 604800)::INTEGER
+    WHEN 'quarter' THEN
+      (EXTRACT(YEAR FROM p_at AT TIME ZONE p_timezone) * 4 + EXTRACT(QUARTER FROM p_at AT TIME ZONE p_timezone) - 1)::INTEGER
+    ELSE
+      (EXTRACT(YEAR FROM p_at AT TIME ZONE p_timezone) * 12 + EXTRACT(MONTH FROM p_at AT TIME ZONE p_timezone) - 1)::INTEGER
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Advance a member's streak for an order at p_at and grant any milestone bonus.
+-- p_previous_order is last_order_date before this order was written.
+-- Caller must hold the loyalty_points row lock.
+CREATE OR REPLACE FUNCTION apply_order_streak(
+  p_user_id UUID,
+  p_previous_order TIMESTAMP WITH TIME ZONE,
+  p_previous_streak INTEGER,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  streak_rules JSONB := COALESCE(get_loyalty_rules()->'streak', '{}'::jsonb);
+  window_name TEXT := COALESCE(streak_rules->>'window', 'month');
+  tz_name TEXT := COALESCE(streak_rules->>'timezone', 'UTC');
+  current_window INTEGER := streak_window_index(p_at, window_name, tz_name);
+  gap INTEGER;
+  new_streak INTEGER;
+  bonus INTEGER := 0;
+BEGIN
+  gap := current_window - streak_window_index(p_previous_order, window_name, tz_name);
+
+  new_streak := CASE
+    WHEN p_previous_order IS NULL OR p_previous_streak <= 0 THEN 1
+    WHEN gap = 0 THEN p_previous_streak        -- another order in the same window
+    WHEN gap = 1 THEN p_previous_streak + 1    -- next window
+    WHEN gap < 0 THEN p_previous_streak        -- backdated order, leave as is
+    ELSE 1                                     -- a window was missed
+  END;
+
+  UPDATE loyalty_points SET streak = new_streak WHERE user_id = p_user_id;
+
+  -- Milestones are checked once per window, when the order opens a new one
+  IF p_previous_order IS NULL OR gap >= 1 THEN
+    SELECT COALESCE((m->>'bonus_points')::INTEGER, 0)
+    INTO bonus
+    FROM jsonb_array_elements(COALESCE(streak_rules->'milestones', '[]'::jsonb)) AS m
+    WHERE (m->>'streak')::INTEGER = new_streak
+    LIMIT 1;
+
+    IF COALESCE(bonus, 0) > 0 THEN
+      -- Keyed by window so the same milestone can be earned again after a reset, but only once per run
+      INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+      VALUES (
+        p_user_id,
+        'STREAK-' || p_user_id || '-' || window_name || '-' || current_window,
+        bonus,
+        'bonus',
+        0,
+        jsonb_build_object('type', 'streak_bonus', 'streak', new_streak, 'window', window_name)
+      )
+      ON CONFLICT (order_id, source) DO NOTHING;
+
+      IF NOT FOUND THEN
+        bonus := 0;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('streak', new_streak, 'bonus_points', COALESCE(bonus, 0));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Crediting now advances the streak by calendar window instead of counting orders
+CREATE OR REPLACE FUNCTION credit_loyalty_points(
+  p_user_id UUID,
+  p_order_id TEXT,
+  p_source TEXT,
+  p_amount DECIMAL,
+  p_points INTEGER DEFAULT NULL,
+  p_shopify_order_id TEXT DEFAULT NULL,
+  p_qr_code TEXT DEFAULT NULL,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_summary loyalty_points%ROWTYPE;
+  credit_points INTEGER;
+  inserted_id UUID;
+  existing loyalty_transactions%ROWTYPE;
+  summary loyalty_points%ROWTYPE;
+  streak_result JSONB := jsonb_build_object('streak', NULL, 'bonus_points', 0);
+BEGIN
+  INSERT INTO loyalty_points (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO current_summary
+  FROM loyalty_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  credit_points := COALESCE(
+    p_points,
+    calculate_order_points(p_amount, current_summary.tier, p_source = 'qr' AND p_qr_code IS NOT NULL)
+  );
+
+  INSERT INTO loyalty_transactions (user_id, order_id, shopify_order_id, points, source, amount, qr_code, items)
+  VALUES (p_user_id, p_order_id, COALESCE(p_shopify_order_id, p_order_id), credit_points, p_source, p_amount, p_qr_code, p_items)
+  ON CONFLICT (order_id, source) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    SELECT * INTO existing
+    FROM loyalty_transactions
+    WHERE order_id = p_order_id AND source = p_source;
+
+    SELECT * INTO summary FROM loyalty_points WHERE user_id = existing.user_id;
+
+    RETURN jsonb_build_object(
+      'duplicate', true,
+      'transaction_id', existing.id,
+      'user_id', existing.user_id,
+      'order_id', existing.order_id,
+      'points_added', existing.points,
+      'balance', summary.points,
+      'tier', summary.tier,
+      'total_orders', summary.total_orders,
+      'streak', summary.streak,
+      'streak_bonus', 0
+    );
+  END IF;
+
+  -- Only paid orders advance the streak
+  IF p_source IN ('shopify', 'qr') THEN
+    streak_result := apply_order_streak(p_user_id, current_summary.last_order_date, current_summary.streak);
+  END IF;
+
+  SELECT * INTO summary FROM loyalty_points WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'transaction_id', inserted_id,
+    'user_id', p_user_id,
+    'order_id', p_order_id,
+    'points_added', credit_points,
+    'balance', summary.points,
+    'tier', summary.tier,
+    'total_orders', summary.total_orders,
+    'streak', summary.streak,
+    'streak_bonus', (streak_result->>'bonus_points')::INTEGER
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Zero the streak of members who missed the previous window entirely.
+-- Run daily, e.g. SELECT cron.schedule('reset-lapsed-streaks', '5 0 * * *', 'SELECT reset_lapsed_streaks()');
+CREATE OR REPLACE FUNCTION reset_lapsed_streaks()
+RETURNS INTEGER AS $$
+DECLARE
+  streak_rules JSONB := COALESCE(get_loyalty_rules()->'streak', '{}'::jsonb);
+  window_name TEXT := COALESCE(streak_rules->>'window', 'month');
+  tz_name TEXT := COALESCE(streak_rules->>'timezone', 'UTC');
+  reset_count INTEGER;
+BEGIN
+  UPDATE loyalty_points SET streak = 0, updated_at = NOW()
+  WHERE streak > 0
+    AND (
+      last_order_date IS NULL
+      OR streak_window_index(NOW(), window_name, tz_name)
+         - streak_window_index(last_order_date, window_name, tz_name) > 1
+    );
+
+  GET DIAGNOSTICS reset_count = ROW_COUNT;
+  RETURN reset_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing streaks were order counters; rebuild them from each member's order history
+WITH orders_by_window AS (
+  SELECT DISTINCT
+    user_id,
+    streak_window_index(created_at, 'month', 'Europe/Helsinki') as window_index
+  FROM loyalty_transactions
+  WHERE source IN ('shopify', 'qr')
+),
+runs AS (
+  SELECT
+    user_id,
+    window_index,
+    window_index - ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY window_index) as run_id
+  FROM orders_by_window
+),
+latest_run AS (
+  SELECT DISTINCT ON (user_id)
+    user_id,
+    MAX(window_index) as last_window,
+    COUNT(*) as run_length
+  FROM runs
+  GROUP BY user_id, run_id
+  ORDER BY user_id, MAX(window_index) DESC
+)
+UPDATE loyalty_points lp SET
+  streak = CASE
+    WHEN streak_window_index(NOW(), 'month', 'Europe/Helsinki') - lr.last_window > 1 THEN 0
+    ELSE lr.run_length
+  END
+FROM latest_run lr
+WHERE lp.user_id = lr.user_id;
+
+UPDATE loyalty_points SET streak = 0
+WHERE user_id NOT IN (SELECT user_id FROM loyalty_transactions WHERE source IN ('shopify', 'qr'));
+
+REVOKE EXECUTE ON FUNCTION apply_order_streak(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reset_lapsed_streaks() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,419 @@
+-- Rolling-window tier qualification for HerbSpot.fi
+-- Tiers are earned with the points (or spend) of the last N months instead of the
+-- lifetime balance. Upgrades apply immediately; a member who no longer qualifies keeps
+-- the tier for a grace period before being downgraded. Every change goes to tier_history.
+--
+--   qualification.basis          'points' (tiers[].min_points) or 'spend' (tiers[].min_spend, EUR)
+--   qualification.window_months  length of the rolling window
+--   qualification.grace_days     days a member keeps a tier after falling below it
+
+ALTER TABLE loyalty_points ADD COLUMN IF NOT EXISTS tier_grace_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE loyalty_points ADD COLUMN IF NOT EXISTS tier_qualifying_value DECIMAL(10,2) DEFAULT 0 NOT NULL;
+ALTER TABLE loyalty_points ADD COLUMN IF NOT EXISTS tier_evaluated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS tier_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  from_tier TEXT,
+  to_tier TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('upgrade', 'downgrade')),
+  basis TEXT NOT NULL,
+  qualifying_value DECIMAL(10,2) NOT NULL,
+  rules_version INTEGER REFERENCES loyalty_rules(version),
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS tier_history_user_id_idx
+ON tier_history (user_id, changed_at);
+
+ALTER TABLE tier_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tier history" ON tier_history
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role full access tier_history" ON tier_history
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Rules version 5: version 4 plus 12 month qualification, 90 day grace and spend thresholds
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  5,
+  jsonb_set(
+    rules,
+    '{tiers}',
+    '[
+      { "name": "Bronze", "min_points": 0,    "min_spend": 0,    "multiplier": 1.0,  "color": "#CD7F32" },
+      { "name": "Silver", "min_points": 500,  "min_spend": 250,  "multiplier": 1.25, "color": "#C0C0C0" },
+      { "name": "Gold",   "min_points": 1500, "min_spend": 750,  "multiplier": 1.5,  "color": "#FFD700" },
+      { "name": "VIP",    "min_points": 4000, "min_spend": 2000, "multiplier": 2.0,  "color": "#39FF14" }
+    ]'::jsonb
+  ) || '{
+    "qualification": {
+      "basis": "points",
+      "window_months": 12,
+      "grace_days": 90
+    }
+  }'::jsonb,
+  'Tiers qualified on a rolling 12 month window with 90 day grace',
+  'migration'
+FROM loyalty_rules
+WHERE version = 4
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(5);
+
+-- Position of a tier in the active rules (0 = lowest)
+CREATE OR REPLACE FUNCTION tier_rank(p_tier TEXT)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(
+    (
+      SELECT (ordinality - 1)::INTEGER
+      FROM jsonb_array_elements(get_loyalty_rules()->'tiers') WITH ORDINALITY AS t(tier, ordinality)
+      WHERE tier->>'name' = p_tier
+    ),
+    0
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Tier for a qualifying value, using min_points or min_spend depending on the basis
+CREATE OR REPLACE FUNCTION get_tier_for_value(p_value DECIMAL)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT t->>'name'
+      FROM jsonb_array_elements(get_loyalty_rules()->'tiers') AS t
+      WHERE COALESCE(
+        (t->>CASE WHEN get_loyalty_rules()->'qualification'->>'basis' = 'spend' THEN 'min_spend' ELSE 'min_points' END)::DECIMAL,
+        (t->>'min_points')::DECIMAL
+      ) <= p_value
+      ORDER BY (t->>'min_points')::INTEGER DESC
+      LIMIT 1
+    ),
+    'Bronze'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Points (or spend) that count towards the tier in the window ending at p_as_of.
+-- Redemptions and expiry do not reduce it; reversals do.
+CREATE OR REPLACE FUNCTION tier_qualifying_value(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS DECIMAL AS $$
+DECLARE
+  qualification JSONB := COALESCE(get_loyalty_rules()->'qualification', '{}'::jsonb);
+  window_start TIMESTAMP WITH TIME ZONE :=
+    p_as_of - make_interval(months => COALESCE((qualification->>'window_months')::INTEGER, 12));
+  qualifying DECIMAL;
+BEGIN
+  IF qualification->>'basis' = 'spend' THEN
+    SELECT
+      COALESCE(SUM(amount) FILTER (
+        WHERE source NOT IN ('redemption', 'reversal', 'expiry', 'bonus')
+          AND COALESCE(items->>'type', '') <> 'adjustment'
+      ), 0)
+      - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0)
+    INTO qualifying
+    FROM loyalty_transactions
+    WHERE user_id = p_user_id AND created_at > window_start AND created_at <= p_as_of;
+  ELSE
+    SELECT COALESCE(SUM(points), 0)
+    INTO qualifying
+    FROM loyalty_transactions
+    WHERE user_id = p_user_id
+      AND created_at > window_start AND created_at <= p_as_of
+      AND source NOT IN ('redemption', 'expiry')
+      AND COALESCE(items->>'type', '') <> 'adjustment';
+  END IF;
+
+  RETURN GREATEST(qualifying, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- What a member's tier should be at p_as_of, given the stored tier and grace period.
+-- Read-only; evaluate_member_tier() applies the result.
+CREATE OR REPLACE FUNCTION get_qualified_tier(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS JSONB AS $$
+DECLARE
+  qualification JSONB := COALESCE(get_loyalty_rules()->'qualification', '{}'::jsonb);
+  grace_days INTEGER := COALESCE((qualification->>'grace_days')::INTEGER, 0);
+  qualifying DECIMAL := tier_qualifying_value(p_user_id, p_as_of);
+  earned_tier TEXT := get_tier_for_value(qualifying);
+  current_tier TEXT;
+  grace_until TIMESTAMP WITH TIME ZONE;
+  qualified_tier TEXT;
+BEGIN
+  SELECT tier, tier_grace_until INTO current_tier, grace_until
+  FROM loyalty_points
+  WHERE user_id = p_user_id;
+
+  IF current_tier IS NULL OR tier_rank(earned_tier) >= tier_rank(current_tier) THEN
+    -- Qualifies for the current tier or better
+    qualified_tier := earned_tier;
+    grace_until := NULL;
+  ELSE
+    -- Below the current tier: start (or continue) the grace period
+    grace_until := COALESCE(grace_until, p_as_of + make_interval(days => grace_days));
+    IF p_as_of >= grace_until THEN
+      qualified_tier := earned_tier;
+      grace_until := NULL;
+    ELSE
+      qualified_tier := current_tier;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'tier', qualified_tier,
+    'previous_tier', current_tier,
+    'earned_tier', earned_tier,
+    'qualifying_value', qualifying,
+    'basis', COALESCE(qualification->>'basis', 'points'),
+    'window_months', COALESCE((qualification->>'window_months')::INTEGER, 12),
+    'grace_until', grace_until
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Apply the qualified tier and record changes. Caller must hold the loyalty_points row lock.
+CREATE OR REPLACE FUNCTION evaluate_member_tier(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS JSONB AS $$
+DECLARE
+  result JSONB := get_qualified_tier(p_user_id, p_as_of);
+BEGIN
+  UPDATE loyalty_points SET
+    tier = result->>'tier',
+    tier_grace_until = (result->>'grace_until')::TIMESTAMP WITH TIME ZONE,
+    tier_qualifying_value = (result->>'qualifying_value')::DECIMAL,
+    tier_evaluated_at = p_as_of
+  WHERE user_id = p_user_id;
+
+  IF result->>'previous_tier' IS DISTINCT FROM result->>'tier' THEN
+    INSERT INTO tier_history (user_id, from_tier, to_tier, reason, basis, qualifying_value, rules_version, changed_at)
+    VALUES (
+      p_user_id,
+      result->>'previous_tier',
+      result->>'tier',
+      CASE
+        WHEN result->>'previous_tier' IS NULL
+          OR tier_rank(result->>'tier') > tier_rank(result->>'previous_tier') THEN 'upgrade'
+        ELSE 'downgrade'
+      END,
+      result->>'basis',
+      (result->>'qualifying_value')::DECIMAL,
+      (get_loyalty_rules()->>'version')::INTEGER,
+      p_as_of
+    );
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The ledger view no longer carries a tier; tiers depend on time and grace state
+DROP VIEW IF EXISTS loyalty_ledger_summary;
+
+CREATE VIEW loyalty_ledger_summary AS
+SELECT
+  user_id,
+  COALESCE(SUM(points), 0)::INTEGER as points,
+  (COUNT(*) FILTER (WHERE is_order)
+    - COUNT(*) FILTER (WHERE source = 'reversal' AND items->>'type' = 'cancel'))::INTEGER as total_orders,
+  MAX(created_at) FILTER (WHERE is_order) as last_order_date,
+  (COALESCE(SUM(amount) FILTER (WHERE is_order), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE source = 'reversal'), 0))::DECIMAL(10,2) as total_spent
+FROM (
+  SELECT
+    *,
+    source NOT IN ('redemption', 'reversal', 'expiry', 'bonus') AND COALESCE(items->>'type', '') <> 'adjustment' as is_order
+  FROM loyalty_transactions
+) ledger
+GROUP BY user_id;
+
+REVOKE ALL ON loyalty_ledger_summary FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_loyalty_summary(p_user_id UUID)
+RETURNS loyalty_points AS $$
+DECLARE
+  summary loyalty_points%ROWTYPE;
+BEGIN
+  INSERT INTO loyalty_points (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Waits for any other writer; the aggregate below then sees its committed rows
+  PERFORM 1 FROM loyalty_points WHERE user_id = p_user_id FOR UPDATE;
+
+  UPDATE loyalty_points lp SET
+    points = agg.points,
+    total_orders = agg.total_orders,
+    last_order_date = agg.last_order_date,
+    total_spent = agg.total_spent,
+    updated_at = NOW()
+  FROM loyalty_ledger_summary agg
+  WHERE lp.user_id = p_user_id AND agg.user_id = p_user_id;
+
+  PERFORM evaluate_member_tier(p_user_id);
+
+  SELECT * INTO summary FROM loyalty_points WHERE user_id = p_user_id;
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-evaluate everyone; the window moves even when nobody orders. Run daily, e.g.
+-- SELECT cron.schedule('evaluate-member-tiers', '10 0 * * *', 'SELECT evaluate_all_member_tiers()');
+CREATE OR REPLACE FUNCTION evaluate_all_member_tiers(p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS INTEGER AS $$
+DECLARE
+  member RECORD;
+  result JSONB;
+  changed INTEGER := 0;
+BEGIN
+  FOR member IN SELECT user_id FROM loyalty_points ORDER BY user_id LOOP
+    PERFORM 1 FROM loyalty_points WHERE user_id = member.user_id FOR UPDATE;
+    result := evaluate_member_tier(member.user_id, p_as_of);
+    IF result->>'previous_tier' IS DISTINCT FROM result->>'tier' THEN
+      changed := changed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN changed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tier status for the account pages: { tier, qualifying_value, basis, window_months, grace_until }.
+-- Members may read their own; the edge functions use the service role.
+CREATE OR REPLACE FUNCTION get_tier_status(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  qualification JSONB := COALESCE(get_loyalty_rules()->'qualification', '{}'::jsonb);
+  summary loyalty_points%ROWTYPE;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to read tier status for this user' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO summary FROM loyalty_points WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'tier', COALESCE(summary.tier, get_tier_for_value(0)),
+    'qualifying_value', COALESCE(summary.tier_qualifying_value, 0),
+    'basis', COALESCE(qualification->>'basis', 'points'),
+    'window_months', COALESCE((qualification->>'window_months')::INTEGER, 12),
+    'grace_until', summary.tier_grace_until
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Reconciliation compares the stored tier with the qualified tier
+CREATE OR REPLACE FUNCTION reconcile_loyalty_summaries(
+  p_repair BOOLEAN DEFAULT FALSE,
+  p_keep_balance BOOLEAN DEFAULT FALSE,
+  p_run_by TEXT DEFAULT 'reconcile'
+)
+RETURNS JSONB AS $$
+DECLARE
+  run_id UUID;
+  checked INTEGER;
+  drift JSONB := '[]'::jsonb;
+  entry JSONB;
+  r RECORD;
+  stored loyalty_points%ROWTYPE;
+  ledger loyalty_ledger_summary%ROWTYPE;
+  delta INTEGER;
+BEGIN
+  INSERT INTO loyalty_reconciliation_runs (run_by, repaired, keep_balance)
+  VALUES (p_run_by, p_repair, p_keep_balance)
+  RETURNING id INTO run_id;
+
+  SELECT COUNT(*) INTO checked
+  FROM loyalty_points lp
+  FULL JOIN loyalty_ledger_summary l ON l.user_id = lp.user_id;
+
+  FOR r IN
+    SELECT COALESCE(lp.user_id, l.user_id) as user_id
+    FROM loyalty_points lp
+    FULL JOIN loyalty_ledger_summary l ON l.user_id = lp.user_id
+    WHERE lp.user_id IS NULL
+      OR lp.points IS DISTINCT FROM COALESCE(l.points, 0)
+      OR lp.tier IS DISTINCT FROM get_qualified_tier(lp.user_id)->>'tier'
+      OR lp.total_orders IS DISTINCT FROM COALESCE(l.total_orders, 0)
+      OR lp.total_spent IS DISTINCT FROM COALESCE(l.total_spent, 0)
+    ORDER BY 1
+  LOOP
+    -- Re-read under the row lock so a concurrent credit is not reported or repaired as drift
+    IF p_repair THEN
+      INSERT INTO loyalty_points (user_id) VALUES (r.user_id) ON CONFLICT (user_id) DO NOTHING;
+      SELECT * INTO stored FROM loyalty_points WHERE user_id = r.user_id FOR UPDATE;
+    ELSE
+      SELECT * INTO stored FROM loyalty_points WHERE user_id = r.user_id;
+    END IF;
+
+    SELECT * INTO ledger FROM loyalty_ledger_summary WHERE user_id = r.user_id;
+
+    entry := jsonb_build_object(
+      'user_id', r.user_id,
+      'email', (SELECT email FROM users WHERE id = r.user_id),
+      'stored', jsonb_build_object(
+        'points', stored.points,
+        'tier', stored.tier,
+        'total_orders', stored.total_orders,
+        'total_spent', stored.total_spent
+      ),
+      'ledger', jsonb_build_object(
+        'points', COALESCE(ledger.points, 0),
+        'tier', COALESCE(get_qualified_tier(r.user_id)->>'tier', get_tier_for_value(0)),
+        'total_orders', COALESCE(ledger.total_orders, 0),
+        'total_spent', COALESCE(ledger.total_spent, 0)
+      )
+    );
+
+    IF entry->'stored' = entry->'ledger' THEN
+      CONTINUE;
+    END IF;
+
+    IF p_repair THEN
+      delta := CASE
+        WHEN p_keep_balance THEN COALESCE(stored.points, 0) - COALESCE(ledger.points, 0)
+        ELSE 0
+      END;
+
+      INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+      VALUES (
+        r.user_id,
+        'RECONCILE-' || run_id || '-' || r.user_id,
+        delta,
+        'manual',
+        0,
+        entry || jsonb_build_object(
+          'type', 'adjustment',
+          'reason', 'reconciliation',
+          'run_id', run_id,
+          'run_by', p_run_by
+        )
+      );
+
+      entry := entry || jsonb_build_object('adjustment_points', delta);
+    END IF;
+
+    drift := drift || entry;
+  END LOOP;
+
+  UPDATE loyalty_reconciliation_runs SET
+    users_checked = checked,
+    users_drifted = jsonb_array_length(drift),
+    report = drift,
+    finished_at = NOW()
+  WHERE id = run_id;
+
+  RETURN jsonb_build_object(
+    'run_id', run_id,
+    'repaired', p_repair,
+    'keep_balance', p_keep_balance,
+    'users_checked', checked,
+    'users_drifted', jsonb_array_length(drift),
+    'drift', drift
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Qualify everyone once under the new rules; members above their earned tier start their grace period
+SELECT evaluate_all_member_tiers();
+
+REVOKE EXECUTE ON FUNCTION evaluate_member_tier(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_all_member_tiers(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
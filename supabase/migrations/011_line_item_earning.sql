@@ -0,0 +1,230 @@
+-- Line-item earning rules for HerbSpot.fi
+-- Orders with line items earn per line instead of on the order total. Lines are matched
+-- against loyalty_rules.earning.rules by Shopify product tag, product type, collection
+-- handle, product id or gift card flag:
+--   { "id": "...", "name": "...", "match": { "tags": [...], "collections": [...] }, "multiplier": 2 }
+-- A rule matches when any of its conditions does. A matching rule with multiplier 0
+-- excludes the line; otherwise the highest matching multiplier applies.
+-- earning.exclude_shipping / exclude_taxes leave shipping and the tax included in line
+-- prices out of the eligible amount. The per-line breakdown is stored in items.
+
+-- Rules version 6: version 5 plus line-item earning rules
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  6,
+  rules || '{
+    "earning": {
+      "exclude_shipping": true,
+      "exclude_taxes": true,
+      "rules": [
+        {
+          "id": "no-gift-cards",
+          "name": "Ei pisteitä lahjakorteista",
+          "match": { "gift_card": true },
+          "multiplier": 0
+        },
+        {
+          "id": "aromatherapy-double",
+          "name": "Tuplapisteet aromaterapialaitteista",
+          "match": { "tags": ["aromatherapy"], "product_types": ["Aromatherapy Device"] },
+          "multiplier": 2
+        }
+      ]
+    }
+  }'::jsonb,
+  'Per line item earning: double points on aromatherapy devices, none on gift cards, shipping and taxes excluded',
+  'migration'
+FROM loyalty_rules
+WHERE version = 5
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(6);
+
+-- Whether an order line matches an earning rule's conditions (case-insensitive)
+CREATE OR REPLACE FUNCTION earning_rule_matches(p_match JSONB, p_line JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT
+    (p_match ? 'gift_card'
+      AND COALESCE((p_line->>'gift_card')::BOOLEAN, FALSE) = (p_match->>'gift_card')::BOOLEAN)
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(COALESCE(p_match->'tags', '[]'::jsonb)) wanted
+      JOIN jsonb_array_elements_text(COALESCE(p_line->'tags', '[]'::jsonb)) tag ON lower(tag) = lower(wanted)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(COALESCE(p_match->'product_types', '[]'::jsonb)) wanted
+      WHERE lower(wanted) = lower(p_line->>'product_type')
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(COALESCE(p_match->'collections', '[]'::jsonb)) wanted
+      JOIN jsonb_array_elements_text(COALESCE(p_line->'collections', '[]'::jsonb)) handle ON lower(handle) = lower(wanted)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(COALESCE(p_match->'product_ids', '[]'::jsonb)) wanted
+      WHERE wanted = p_line->>'product_id'
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Points for a list of order lines. Mirrors calculateLineItemPoints() in _shared/loyalty-rules.ts
+-- Returns { points, eligible_amount, rules_version, lines: [line + eligible_amount, multiplier, rules, points] }
+CREATE OR REPLACE FUNCTION calculate_line_item_points(p_lines JSONB, p_tier TEXT, p_has_qr_bonus BOOLEAN DEFAULT FALSE)
+RETURNS JSONB AS $$
+DECLARE
+  rules JSONB := get_loyalty_rules();
+  earning JSONB := COALESCE(rules->'earning', '{}'::jsonb);
+  exclude_shipping BOOLEAN := COALESCE((earning->>'exclude_shipping')::BOOLEAN, TRUE);
+  exclude_taxes BOOLEAN := COALESCE((earning->>'exclude_taxes')::BOOLEAN, TRUE);
+  rate DECIMAL :=
+    (rules->>'points_per_euro')::DECIMAL
+    * get_tier_multiplier(p_tier)
+    * CASE WHEN p_has_qr_bonus THEN COALESCE((rules->>'qr_multiplier')::DECIMAL, 1.0) ELSE 1.0 END;
+  line JSONB;
+  eligible DECIMAL;
+  matched_rules JSONB;
+  excluded BOOLEAN;
+  best_multiplier DECIMAL;
+  line_multiplier DECIMAL;
+  line_points INTEGER;
+  result_lines JSONB := '[]'::jsonb;
+  total_points INTEGER := 0;
+  total_eligible DECIMAL := 0;
+BEGIN
+  FOR line IN SELECT value FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) LOOP
+    eligible := COALESCE((line->>'amount')::DECIMAL, 0)
+      - CASE WHEN exclude_taxes THEN COALESCE((line->>'tax')::DECIMAL, 0) ELSE 0 END;
+
+    IF line->>'kind' = 'shipping' AND exclude_shipping THEN
+      eligible := 0;
+    END IF;
+
+    SELECT
+      COALESCE(jsonb_agg(r->>'id'), '[]'::jsonb),
+      COALESCE(bool_or((r->>'multiplier')::DECIMAL = 0), FALSE),
+      MAX((r->>'multiplier')::DECIMAL)
+    INTO matched_rules, excluded, best_multiplier
+    FROM jsonb_array_elements(COALESCE(earning->'rules', '[]'::jsonb)) AS r
+    WHERE earning_rule_matches(COALESCE(r->'match', '{}'::jsonb), line);
+
+    line_multiplier := CASE
+      WHEN excluded THEN 0
+      ELSE COALESCE(best_multiplier, 1.0)
+    END;
+
+    eligible := ROUND(GREATEST(eligible, 0), 2);
+    line_points := FLOOR(eligible * rate * line_multiplier);
+
+    total_points := total_points + line_points;
+    total_eligible := total_eligible + CASE WHEN line_multiplier > 0 THEN eligible ELSE 0 END;
+
+    result_lines := result_lines || jsonb_build_array(line || jsonb_build_object(
+      'eligible_amount', eligible,
+      'multiplier', line_multiplier,
+      'rules', matched_rules,
+      'points', line_points
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'points', total_points,
+    'eligible_amount', total_eligible,
+    'rules_version', (rules->>'version')::INTEGER,
+    'lines', result_lines
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Crediting evaluates items.lines when the caller sends them; other orders still earn on the total
+CREATE OR REPLACE FUNCTION credit_loyalty_points(
+  p_user_id UUID,
+  p_order_id TEXT,
+  p_source TEXT,
+  p_amount DECIMAL,
+  p_points INTEGER DEFAULT NULL,
+  p_shopify_order_id TEXT DEFAULT NULL,
+  p_qr_code TEXT DEFAULT NULL,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_summary loyalty_points%ROWTYPE;
+  credit_points INTEGER;
+  credit_items JSONB := p_items;
+  breakdown JSONB;
+  has_qr_bonus BOOLEAN := p_source = 'qr' AND p_qr_code IS NOT NULL;
+  inserted_id UUID;
+  existing loyalty_transactions%ROWTYPE;
+  summary loyalty_points%ROWTYPE;
+  streak_result JSONB := jsonb_build_object('streak', NULL, 'bonus_points', 0);
+BEGIN
+  INSERT INTO loyalty_points (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO current_summary
+  FROM loyalty_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_points IS NULL AND jsonb_typeof(p_items->'lines') = 'array' THEN
+    breakdown := calculate_line_item_points(p_items->'lines', current_summary.tier, has_qr_bonus);
+    credit_items := p_items || breakdown;
+    -- The minimum order amount still applies to the order as a whole
+    credit_points := CASE
+      WHEN p_amount < COALESCE((get_loyalty_rules()->>'min_order_amount')::DECIMAL, 0) THEN 0
+      ELSE (breakdown->>'points')::INTEGER
+    END;
+  ELSE
+    credit_points := COALESCE(p_points, calculate_order_points(p_amount, current_summary.tier, has_qr_bonus));
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, shopify_order_id, points, source, amount, qr_code, items)
+  VALUES (p_user_id, p_order_id, COALESCE(p_shopify_order_id, p_order_id), credit_points, p_source, p_amount, p_qr_code, credit_items)
+  ON CONFLICT (order_id, source) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    SELECT * INTO existing
+    FROM loyalty_transactions
+    WHERE order_id = p_order_id AND source = p_source;
+
+    SELECT * INTO summary FROM loyalty_points WHERE user_id = existing.user_id;
+
+    RETURN jsonb_build_object(
+      'duplicate', true,
+      'transaction_id', existing.id,
+      'user_id', existing.user_id,
+      'order_id', existing.order_id,
+      'points_added', existing.points,
+      'eligible_amount', existing.items->'eligible_amount',
+      'balance', summary.points,
+      'tier', summary.tier,
+      'total_orders', summary.total_orders,
+      'streak', summary.streak,
+      'streak_bonus', 0
+    );
+  END IF;
+
+  -- Only paid orders advance the streak
+  IF p_source IN ('shopify', 'qr') THEN
+    streak_result := apply_order_streak(p_user_id, current_summary.last_order_date, current_summary.streak);
+  END IF;
+
+  SELECT * INTO summary FROM loyalty_points WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'transaction_id', inserted_id,
+    'user_id', p_user_id,
+    'order_id', p_order_id,
+    'points_added', credit_points,
+    'eligible_amount', breakdown->'eligible_amount',
+    'balance', summary.points,
+    'tier', summary.tier,
+    'total_orders', summary.total_orders,
+    'streak', summary.streak,
+    'streak_bonus', (streak_result->>'bonus_points')::INTEGER
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,253 @@
+-- Referral program for HerbSpot.fi
+-- Every member gets a referral code (link /ref/CODE on the storefront, which stores the code
+-- as the cart attribute referral_code). The referred customer's first paid order awards
+-- 'bonus' transactions to both parties. An email can be referred only once, members cannot
+-- refer themselves and customers who already have orders do not qualify.
+--   referral.referrer_bonus    points for the member who shared the code
+--   referral.referee_bonus     points for the new customer
+--   referral.min_order_amount  smallest first order that qualifies
+
+-- Rules version 7: version 6 plus referral bonuses
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  7,
+  rules || '{
+    "referral": {
+      "referrer_bonus": 250,
+      "referee_bonus": 150,
+      "min_order_amount": 20
+    }
+  }'::jsonb,
+  'Referral bonuses on the first paid order',
+  'migration'
+FROM loyalty_rules
+WHERE version = 6
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(7);
+
+CREATE TABLE IF NOT EXISTS referral_codes (
+  code TEXT PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS referrals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  referrer_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  code TEXT NOT NULL,
+  referred_email TEXT NOT NULL,
+  referred_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'rejected')),
+  reject_reason TEXT,
+  order_id TEXT,
+  referrer_bonus INTEGER NOT NULL DEFAULT 0,
+  referee_bonus INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Duplicate-email protection: the first referral of an address is the only one
+CREATE UNIQUE INDEX IF NOT EXISTS referrals_referred_email_uidx
+ON referrals (lower(referred_email));
+
+CREATE INDEX IF NOT EXISTS referrals_referrer_id_idx
+ON referrals (referrer_id, created_at);
+
+ALTER TABLE referral_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own referral code" ON referral_codes
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role full access referral_codes" ON referral_codes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Referred emails belong to other people; members see them masked through get_referral_summary()
+CREATE POLICY "Service role full access referrals" ON referrals
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- A member's referral code, created on first use
+CREATE OR REPLACE FUNCTION get_referral_code(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  referral_code TEXT;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to read the referral code of this user' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT code INTO referral_code FROM referral_codes WHERE user_id = p_user_id;
+
+  WHILE referral_code IS NULL LOOP
+    INSERT INTO referral_codes (code, user_id)
+    VALUES (upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8)), p_user_id)
+    ON CONFLICT DO NOTHING
+    RETURNING code INTO referral_code;
+
+    -- Lost a race with a concurrent call for the same member
+    IF referral_code IS NULL THEN
+      SELECT code INTO referral_code FROM referral_codes WHERE user_id = p_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN referral_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Code, counts and masked referred emails for the account page
+CREATE OR REPLACE FUNCTION get_referral_summary(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  referral_rules JSONB := COALESCE(get_loyalty_rules()->'referral', '{}'::jsonb);
+  referral_code TEXT := get_referral_code(p_user_id);
+  summary JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'code', referral_code,
+    'referrer_bonus', COALESCE((referral_rules->>'referrer_bonus')::INTEGER, 0),
+    'referee_bonus', COALESCE((referral_rules->>'referee_bonus')::INTEGER, 0),
+    'pending', COUNT(*) FILTER (WHERE status = 'pending'),
+    'completed', COUNT(*) FILTER (WHERE status = 'completed'),
+    'points_earned', COALESCE(SUM(referrer_bonus) FILTER (WHERE status = 'completed'), 0),
+    'referrals', COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'email', left(referred_email, 1) || '***@' || split_part(referred_email, '@', 2),
+          'status', status,
+          'created_at', created_at,
+          'completed_at', completed_at
+        )
+        ORDER BY created_at DESC
+      ) FILTER (WHERE id IS NOT NULL),
+      '[]'::jsonb
+    )
+  )
+  INTO summary
+  FROM referrals
+  WHERE referrer_id = p_user_id;
+
+  RETURN summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Settle the referral for a paid order. Called by the Shopify webhook after the order was
+-- credited; p_code is the referral_code cart attribute, if any. Idempotent per referral.
+CREATE OR REPLACE FUNCTION apply_referral(
+  p_email TEXT,
+  p_order_id TEXT,
+  p_amount DECIMAL,
+  p_code TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  referral_rules JSONB := COALESCE(get_loyalty_rules()->'referral', '{}'::jsonb);
+  referrer_points INTEGER := COALESCE((referral_rules->>'referrer_bonus')::INTEGER, 0);
+  referee_points INTEGER := COALESCE((referral_rules->>'referee_bonus')::INTEGER, 0);
+  referee_email TEXT := lower(trim(p_email));
+  referral referrals%ROWTYPE;
+  code_owner UUID;
+  referee_id UUID;
+  reason TEXT;
+BEGIN
+  IF referee_email IS NULL OR referee_email = '' THEN
+    RETURN jsonb_build_object('status', 'ignored', 'reason', 'missing_email');
+  END IF;
+
+  SELECT * INTO referral FROM referrals WHERE lower(referrals.referred_email) = referee_email FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF p_code IS NULL OR trim(p_code) = '' THEN
+      RETURN jsonb_build_object('status', 'ignored', 'reason', 'not_referred');
+    END IF;
+
+    SELECT user_id INTO code_owner FROM referral_codes WHERE code = upper(trim(p_code));
+    IF code_owner IS NULL THEN
+      RETURN jsonb_build_object('status', 'ignored', 'reason', 'unknown_code');
+    END IF;
+
+    INSERT INTO referrals (referrer_id, code, referred_email)
+    VALUES (code_owner, upper(trim(p_code)), referee_email)
+    ON CONFLICT DO NOTHING;
+
+    SELECT * INTO referral FROM referrals WHERE lower(referrals.referred_email) = referee_email FOR UPDATE;
+  END IF;
+
+  IF referral.status <> 'pending' THEN
+    RETURN jsonb_build_object(
+      'status', referral.status,
+      'referral_id', referral.id,
+      'reason', COALESCE(referral.reject_reason, 'already_completed')
+    );
+  END IF;
+
+  -- points-add creates the customer before the webhook settles the referral
+  SELECT id INTO referee_id FROM users WHERE lower(email) = referee_email;
+  IF referee_id IS NULL THEN
+    RETURN jsonb_build_object('status', 'pending', 'referral_id', referral.id, 'reason', 'customer_not_found');
+  END IF;
+
+  reason := CASE
+    WHEN referee_id = referral.referrer_id
+      OR (SELECT lower(email) FROM users WHERE id = referral.referrer_id) = referee_email THEN 'self_referral'
+    WHEN EXISTS (
+      SELECT 1 FROM loyalty_transactions
+      WHERE user_id = referee_id AND source IN ('shopify', 'qr') AND order_id <> p_order_id
+    ) THEN 'existing_customer'
+    WHEN p_amount < COALESCE((referral_rules->>'min_order_amount')::DECIMAL, 0) THEN 'order_below_minimum'
+    ELSE NULL
+  END;
+
+  IF reason IS NOT NULL THEN
+    UPDATE referrals SET
+      status = 'rejected',
+      reject_reason = reason,
+      referred_user_id = referee_id,
+      order_id = p_order_id,
+      completed_at = NOW()
+    WHERE id = referral.id;
+
+    RETURN jsonb_build_object('status', 'rejected', 'referral_id', referral.id, 'reason', reason);
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+  VALUES
+    (
+      referral.referrer_id,
+      'REFERRAL-' || referral.id || '-referrer',
+      referrer_points,
+      'bonus',
+      0,
+      jsonb_build_object('type', 'referral_bonus', 'role', 'referrer', 'referral_id', referral.id, 'order_id', p_order_id)
+    ),
+    (
+      referee_id,
+      'REFERRAL-' || referral.id || '-referee',
+      referee_points,
+      'bonus',
+      0,
+      jsonb_build_object('type', 'referral_bonus', 'role', 'referee', 'referral_id', referral.id, 'order_id', p_order_id)
+    )
+  ON CONFLICT (order_id, source) DO NOTHING;
+
+  UPDATE referrals SET
+    status = 'completed',
+    referred_user_id = referee_id,
+    order_id = p_order_id,
+    referrer_bonus = referrer_points,
+    referee_bonus = referee_points,
+    completed_at = NOW()
+  WHERE id = referral.id;
+
+  RETURN jsonb_build_object(
+    'status', 'completed',
+    'referral_id', referral.id,
+    'referrer_id', referral.referrer_id,
+    'referee_id', referee_id,
+    'referrer_bonus', referrer_points,
+    'referee_bonus', referee_points
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_referral(TEXT, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,150 @@
+-- Birthday and membership anniversary bonuses for HerbSpot.fi
+-- Members can store a birth date (account edit form). The daily celebration-bonuses function
+-- grants each occasion once per year as an idempotent 'bonus' transaction:
+--   BIRTHDAY-<user>-<year>, ANNIVERSARY-<user>-<year>
+--   celebration_bonuses.birthday       points on the member's birthday
+--   celebration_bonuses.anniversary    points on each yearly anniversary of signing up
+--   celebration_bonuses.catch_up_days  occasions this many days back are still granted
+--                                      (covers missed runs)
+--   celebration_bonuses.timezone       calendar the dates are read in
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS birth_date DATE;
+
+-- Rules version 8: version 7 plus birthday and anniversary bonuses
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  8,
+  rules || '{
+    "celebration_bonuses": {
+      "birthday": 200,
+      "anniversary": 100,
+      "catch_up_days": 3,
+      "timezone": "Europe/Helsinki"
+    }
+  }'::jsonb,
+  'Birthday and membership anniversary bonuses',
+  'migration'
+FROM loyalty_rules
+WHERE version = 7
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(8);
+
+-- The yearly occurrence of a date; 29 February falls on the 28th in other years
+CREATE OR REPLACE FUNCTION celebration_date(p_date DATE, p_year INTEGER)
+RETURNS DATE AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_date) = 2 AND EXTRACT(DAY FROM p_date) = 29
+      AND NOT (p_year % 4 = 0 AND (p_year % 100 <> 0 OR p_year % 400 = 0))
+    THEN make_date(p_year, 2, 28)
+    ELSE make_date(p_year, EXTRACT(MONTH FROM p_date)::INTEGER, EXTRACT(DAY FROM p_date)::INTEGER)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Store (or clear) a member's birth date. Called server-side by the storefront for the
+-- signed in customer, resolved to their member (resolve_loyalty_member) first.
+CREATE OR REPLACE FUNCTION set_member_birth_date(p_user_id UUID, p_birth_date DATE)
+RETURNS DATE AS $$
+BEGIN
+  IF p_birth_date IS NOT NULL AND (p_birth_date > CURRENT_DATE OR p_birth_date < DATE '1900-01-01') THEN
+    RAISE EXCEPTION 'Invalid birth date' USING ERRCODE = '22008';
+  END IF;
+
+  UPDATE users SET birth_date = p_birth_date, updated_at = NOW() WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN p_birth_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant the occasions due on p_as_of (default: today in the rules' timezone).
+-- Returns only bonuses written by this call, so each one is notified once.
+-- With p_dry_run nothing is written and the bonuses that would be granted are returned.
+CREATE OR REPLACE FUNCTION grant_celebration_bonuses(p_as_of DATE DEFAULT NULL, p_dry_run BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (
+  member_id UUID,
+  member_email TEXT,
+  member_name TEXT,
+  bonus_kind TEXT,
+  bonus_points INTEGER,
+  occasion_on DATE,
+  years INTEGER
+) AS $$
+DECLARE
+  bonuses JSONB := COALESCE(get_loyalty_rules()->'celebration_bonuses', '{}'::jsonb);
+  tz_name TEXT := COALESCE(bonuses->>'timezone', 'Europe/Helsinki');
+  as_of DATE := COALESCE(p_as_of, (NOW() AT TIME ZONE tz_name)::DATE);
+  catch_up INTEGER := COALESCE((bonuses->>'catch_up_days')::INTEGER, 0);
+  occasion RECORD;
+  bonus_order_id TEXT;
+BEGIN
+  FOR occasion IN
+    SELECT
+      u.id,
+      u.email,
+      u.name,
+      k.kind,
+      k.points,
+      d.on_date,
+      (EXTRACT(YEAR FROM d.on_date) - EXTRACT(YEAR FROM k.base_date))::INTEGER as years
+    FROM users u
+    CROSS JOIN LATERAL (
+      VALUES
+        ('birthday', COALESCE((bonuses->>'birthday')::INTEGER, 0), u.birth_date),
+        ('anniversary', COALESCE((bonuses->>'anniversary')::INTEGER, 0), (u.created_at AT TIME ZONE tz_name)::DATE)
+    ) AS k(kind, points, base_date)
+    CROSS JOIN LATERAL (
+      -- This year's and, around New Year, last year's occurrence
+      SELECT celebration_date(k.base_date, y) as on_date
+      FROM generate_series(EXTRACT(YEAR FROM as_of)::INTEGER - 1, EXTRACT(YEAR FROM as_of)::INTEGER) y
+    ) d
+    WHERE k.points > 0
+      AND k.base_date IS NOT NULL
+      AND d.on_date > k.base_date
+      AND d.on_date BETWEEN as_of - catch_up AND as_of
+    ORDER BY u.id, k.kind
+  LOOP
+    bonus_order_id := upper(occasion.kind) || '-' || occasion.id || '-' || EXTRACT(YEAR FROM occasion.on_date);
+
+    IF p_dry_run THEN
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM loyalty_transactions t
+        WHERE t.order_id = bonus_order_id AND t.source = 'bonus'
+      );
+    ELSE
+      INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+      VALUES (
+        occasion.id,
+        bonus_order_id,
+        occasion.points,
+        'bonus',
+        0,
+        jsonb_build_object(
+          'type', occasion.kind || '_bonus',
+          'occasion_date', occasion.on_date,
+          'years', occasion.years,
+          'rules_version', (get_loyalty_rules()->>'version')::INTEGER
+        )
+      )
+      ON CONFLICT (order_id, source) DO NOTHING;
+
+      CONTINUE WHEN NOT FOUND;
+    END IF;
+
+    member_id := occasion.id;
+    member_email := occasion.email;
+    member_name := occasion.name;
+    bonus_kind := occasion.kind;
+    bonus_points := occasion.points;
+    occasion_on := occasion.on_date;
+    years := occasion.years;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION set_member_birth_date(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION grant_celebration_bonuses(DATE, BOOLEAN) FROM PUBLIC, anon, authenticated;
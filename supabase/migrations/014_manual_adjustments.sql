@@ -0,0 +1,299 @@
+-- Staff manual points adjustments for HerbSpot.fi
+-- Staff (members listed in staff_members, signed in to the storefront) credit or debit
+-- points through the points-adjust function. Every adjustment needs a reason and a ticket reference; large
+-- ones wait for a second staff member with can_approve. Applied adjustments are 'manual'
+-- ledger rows (items.type = 'adjustment', so they are not orders). Each step is written to
+-- points_adjustment_audit, which cannot be updated or deleted.
+--   manual_adjustments.approval_threshold     adjustments of more points than this need approval
+--   manual_adjustments.approval_window_hours  a requester's applied adjustments for the same member
+--                                             or ticket within this window count towards the threshold
+--   manual_adjustments.max_points             largest single adjustment
+
+-- Rules version 9: version 8 plus manual adjustment limits
+INSERT INTO loyalty_rules (version, rules, notes, created_by)
+SELECT
+  9,
+  rules || '{
+    "manual_adjustments": {
+      "approval_threshold": 1000,
+      "approval_window_hours": 24,
+      "max_points": 50000
+    }
+  }'::jsonb,
+  'Manual adjustment approval threshold',
+  'migration'
+FROM loyalty_rules
+WHERE version = 8
+ON CONFLICT (version) DO NOTHING;
+
+SELECT activate_loyalty_rules(9);
+
+CREATE TABLE IF NOT EXISTS staff_members (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT,
+  can_approve BOOLEAN DEFAULT FALSE NOT NULL,
+  active BOOLEAN DEFAULT TRUE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS points_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) NOT NULL,
+  points INTEGER NOT NULL CHECK (points <> 0),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  ticket_ref TEXT NOT NULL CHECK (length(trim(ticket_ref)) > 0),
+  requested_by UUID REFERENCES staff_members(user_id) NOT NULL,
+  status TEXT DEFAULT 'pending_approval' NOT NULL CHECK (status IN ('pending_approval', 'applied', 'rejected')),
+  approved_by UUID REFERENCES staff_members(user_id),
+  decision_note TEXT,
+  rules_version INTEGER REFERENCES loyalty_rules(version),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  decided_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT points_adjustments_second_approver CHECK (approved_by IS NULL OR approved_by <> requested_by)
+);
+
+CREATE INDEX IF NOT EXISTS points_adjustments_status_idx
+ON points_adjustments (status, created_at);
+
+CREATE INDEX IF NOT EXISTS points_adjustments_user_id_idx
+ON points_adjustments (user_id);
+
+-- Append-only trail of every request and decision; kept apart from the member-visible ledger
+CREATE TABLE IF NOT EXISTS points_adjustment_audit (
+  id BIGSERIAL PRIMARY KEY,
+  adjustment_id UUID REFERENCES points_adjustments(id) NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('requested', 'approved', 'rejected', 'applied')),
+  staff_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  points INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  ticket_ref TEXT NOT NULL,
+  note TEXT,
+  balance_after INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS points_adjustment_audit_adjustment_id_idx
+ON points_adjustment_audit (adjustment_id);
+
+CREATE OR REPLACE FUNCTION prevent_audit_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS points_adjustment_audit_immutable ON points_adjustment_audit;
+CREATE TRIGGER points_adjustment_audit_immutable
+  BEFORE UPDATE OR DELETE ON points_adjustment_audit
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_changes();
+
+DROP TRIGGER IF EXISTS points_adjustment_audit_no_truncate ON points_adjustment_audit;
+CREATE TRIGGER points_adjustment_audit_no_truncate
+  BEFORE TRUNCATE ON points_adjustment_audit
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_changes();
+
+ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE points_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE points_adjustment_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view own staff record" ON staff_members
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role full access staff_members" ON staff_members
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access points_adjustments" ON points_adjustments
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role read points_adjustment_audit" ON points_adjustment_audit
+  FOR SELECT USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role append points_adjustment_audit" ON points_adjustment_audit
+  FOR INSERT WITH CHECK (auth.role() = 'service_role');
+
+-- Write the ledger row for an adjustment and mark it applied. Debits cannot take the
+-- balance below zero.
+CREATE OR REPLACE FUNCTION apply_points_adjustment(p_adjustment_id UUID, p_staff_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  adjustment points_adjustments%ROWTYPE;
+  current_balance INTEGER;
+  summary loyalty_points%ROWTYPE;
+BEGIN
+  SELECT * INTO adjustment FROM points_adjustments WHERE id = p_adjustment_id;
+
+  INSERT INTO loyalty_points (user_id) VALUES (adjustment.user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT points INTO current_balance
+  FROM loyalty_points
+  WHERE user_id = adjustment.user_id
+  FOR UPDATE;
+
+  IF current_balance + adjustment.points < 0 THEN
+    RAISE EXCEPTION 'Insufficient points balance' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO loyalty_transactions (user_id, order_id, points, source, amount, items)
+  VALUES (
+    adjustment.user_id,
+    'ADJUSTMENT-' || adjustment.id,
+    adjustment.points,
+    'manual',
+    0,
+    jsonb_build_object(
+      'type', 'adjustment',
+      'reason', 'staff_adjustment',
+      'adjustment_id', adjustment.id
+    )
+  );
+
+  SELECT * INTO summary FROM loyalty_points WHERE user_id = adjustment.user_id;
+
+  UPDATE points_adjustments SET
+    status = 'applied',
+    decided_at = COALESCE(decided_at, NOW())
+  WHERE id = adjustment.id;
+
+  INSERT INTO points_adjustment_audit (adjustment_id, action, staff_id, user_id, points, reason, ticket_ref, balance_after)
+  VALUES (adjustment.id, 'applied', p_staff_id, adjustment.user_id, adjustment.points, adjustment.reason, adjustment.ticket_ref, summary.points);
+
+  RETURN jsonb_build_object(
+    'adjustment_id', adjustment.id,
+    'status', 'applied',
+    'points', adjustment.points,
+    'balance', summary.points
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record an adjustment requested by a staff member. Small adjustments are applied at
+-- once; above manual_adjustments.approval_threshold they wait for decide_points_adjustment().
+-- The threshold covers what the requester applied without approval for the same member or
+-- ticket within approval_window_hours too, so splitting a large adjustment does not avoid it.
+CREATE OR REPLACE FUNCTION request_points_adjustment(
+  p_staff_id UUID,
+  p_user_id UUID,
+  p_points INTEGER,
+  p_reason TEXT,
+  p_ticket_ref TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  limits JSONB := COALESCE(get_loyalty_rules()->'manual_adjustments', '{}'::jsonb);
+  approval_threshold INTEGER := COALESCE((limits->>'approval_threshold')::INTEGER, 0);
+  approval_window INTERVAL := make_interval(hours => COALESCE((limits->>'approval_window_hours')::INTEGER, 24));
+  max_points INTEGER := COALESCE((limits->>'max_points')::INTEGER, 2147483647);
+  adjustment points_adjustments%ROWTYPE;
+  recent_points INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM staff_members WHERE user_id = p_staff_id AND active) THEN
+    RAISE EXCEPTION 'Not an active staff member' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_points IS NULL OR p_points = 0 OR abs(p_points) > max_points THEN
+    RAISE EXCEPTION 'Points must be between -% and % and not 0', max_points, max_points USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' OR COALESCE(trim(p_ticket_ref), '') = '' THEN
+    RAISE EXCEPTION 'A reason and a ticket reference are required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- One request per staff member at a time, so concurrent small requests are all counted
+  PERFORM pg_advisory_xact_lock(hashtext('points_adjustment:' || p_staff_id));
+
+  SELECT COALESCE(SUM(abs(points)), 0) INTO recent_points
+  FROM points_adjustments
+  WHERE requested_by = p_staff_id
+    AND status = 'applied'
+    AND approved_by IS NULL
+    AND created_at > NOW() - approval_window
+    AND (user_id = p_user_id OR ticket_ref = trim(p_ticket_ref));
+
+  INSERT INTO points_adjustments (user_id, points, reason, ticket_ref, requested_by, rules_version)
+  VALUES (p_user_id, p_points, trim(p_reason), trim(p_ticket_ref), p_staff_id, (get_loyalty_rules()->>'version')::INTEGER)
+  RETURNING * INTO adjustment;
+
+  INSERT INTO points_adjustment_audit (adjustment_id, action, staff_id, user_id, points, reason, ticket_ref)
+  VALUES (adjustment.id, 'requested', p_staff_id, p_user_id, p_points, adjustment.reason, adjustment.ticket_ref);
+
+  IF recent_points + abs(p_points) > approval_threshold THEN
+    RETURN jsonb_build_object(
+      'adjustment_id', adjustment.id,
+      'status', 'pending_approval',
+      'points', adjustment.points,
+      'recent_points', recent_points,
+      'approval_threshold', approval_threshold
+    );
+  END IF;
+
+  RETURN apply_points_adjustment(adjustment.id, p_staff_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Second approver's decision on a pending adjustment. The approver must be another staff
+-- member with can_approve.
+CREATE OR REPLACE FUNCTION decide_points_adjustment(
+  p_adjustment_id UUID,
+  p_staff_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  adjustment points_adjustments%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM staff_members WHERE user_id = p_staff_id AND active AND can_approve) THEN
+    RAISE EXCEPTION 'Not allowed to approve adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO adjustment FROM points_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF adjustment.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'Adjustment is already %', adjustment.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF adjustment.requested_by = p_staff_id THEN
+    RAISE EXCEPTION 'Adjustments need a second approver' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE points_adjustments SET
+      status = 'rejected',
+      approved_by = p_staff_id,
+      decision_note = p_note,
+      decided_at = NOW()
+    WHERE id = adjustment.id;
+
+    INSERT INTO points_adjustment_audit (adjustment_id, action, staff_id, user_id, points, reason, ticket_ref, note)
+    VALUES (adjustment.id, 'rejected', p_staff_id, adjustment.user_id, adjustment.points, adjustment.reason, adjustment.ticket_ref, p_note);
+
+    RETURN jsonb_build_object('adjustment_id', adjustment.id, 'status', 'rejected', 'points', adjustment.points);
+  END IF;
+
+  UPDATE points_adjustments SET
+    approved_by = p_staff_id,
+    decision_note = p_note,
+    decided_at = NOW()
+  WHERE id = adjustment.id;
+
+  INSERT INTO points_adjustment_audit (adjustment_id, action, staff_id, user_id, points, reason, ticket_ref, note)
+  VALUES (adjustment.id, 'approved', p_staff_id, adjustment.user_id, adjustment.points, adjustment.reason, adjustment.ticket_ref, p_note);
+
+  RETURN apply_points_adjustment(adjustment.id, p_staff_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_points_adjustment(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_points_adjustment(UUID, UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decide_points_adjustment(UUID, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,45 @@
+-- Storefront sign-in (next-auth) for HerbSpot.fi
+-- Every identity (email magic link, Shopify Customer Account) maps to one users row.
+-- The Next.js session carries a Supabase access token whose sub is users.id, so the
+-- existing RLS policies (auth.uid() = user_id) apply to the signed in member.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Sign-in providers linked to a member (provider account id = Shopify customer sub, ...)
+CREATE TABLE IF NOT EXISTS auth_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  provider_account_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (provider, provider_account_id)
+);
+
+CREATE INDEX IF NOT EXISTS auth_accounts_user_id_idx
+ON auth_accounts (user_id);
+
+-- Pending magic links; token is already hashed by next-auth
+CREATE TABLE IF NOT EXISTS auth_verification_tokens (
+  identifier TEXT NOT NULL,
+  token TEXT NOT NULL,
+  expires TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (identifier, token)
+);
+
+-- Emails arrive in any case from Shopify and from the sign-in form
+CREATE INDEX IF NOT EXISTS users_email_lower_idx
+ON users (lower(email));
+
+ALTER TABLE auth_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_verification_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own auth accounts" ON auth_accounts
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role full access auth_accounts" ON auth_accounts
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access auth_verification_tokens" ON auth_verification_tokens
+  FOR ALL USING (auth.role() = 'service_role');
+
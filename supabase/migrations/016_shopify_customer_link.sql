@@ -0,0 +1,284 @@
+-- Shopify customer link for HerbSpot.fi loyalty members
+-- users.shopify_customer_id is filled from order/customer webhooks and from Customer
+-- Account sign-in. Members are matched by customer id first and by email only when the
+-- customer is not linked yet, so an email change no longer creates a second member.
+-- Duplicates created before this migration are merged with merge_loyalty_members()
+-- (supabase/functions/merge-loyalty-members.ts).
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS shopify_customer_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_shopify_customer_id_uidx
+ON users (shopify_customer_id) WHERE shopify_customer_id IS NOT NULL;
+
+-- Kept on the order too, so duplicates can be found from order history
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shopify_customer_id TEXT;
+
+CREATE INDEX IF NOT EXISTS orders_shopify_customer_id_idx
+ON orders (shopify_customer_id) WHERE shopify_customer_id IS NOT NULL;
+
+-- One row per merge; the source member is deleted, so its email is kept here
+CREATE TABLE IF NOT EXISTS loyalty_member_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source_user_id UUID NOT NULL,
+  source_email TEXT NOT NULL,
+  target_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  target_email TEXT NOT NULL,
+  moved JSONB NOT NULL,
+  balance_after INTEGER,
+  merged_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE loyalty_member_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access loyalty_member_merges" ON loyalty_member_merges
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Existing member for a Shopify customer, or null. Does not create or link anything.
+CREATE OR REPLACE FUNCTION find_loyalty_member(p_customer_id TEXT, p_email TEXT)
+RETURNS UUID AS $$
+  SELECT id FROM (
+    SELECT id, 1 AS preference FROM users
+    WHERE p_customer_id IS NOT NULL AND shopify_customer_id = p_customer_id
+    UNION ALL
+    SELECT id, 2 FROM users
+    WHERE p_email IS NOT NULL AND lower(email) = lower(trim(p_email))
+  ) candidates
+  ORDER BY preference
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Member for a Shopify customer, linking or creating it as needed:
+--   1. the member already linked to the customer id (its email follows Shopify's when free)
+--   2. an unlinked member with the same email, which gets linked
+--   3. a new member
+-- Without a customer id (POS, QR, guest checkout) this is a plain email match.
+CREATE OR REPLACE FUNCTION resolve_loyalty_member(p_customer_id TEXT, p_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  clean_email TEXT := NULLIF(lower(trim(p_email)), '');
+  clean_customer_id TEXT := NULLIF(trim(p_customer_id), '');
+  member users%ROWTYPE;
+BEGIN
+  IF clean_customer_id IS NOT NULL THEN
+    SELECT * INTO member FROM users WHERE shopify_customer_id = clean_customer_id FOR UPDATE;
+
+    IF FOUND THEN
+      IF clean_email IS NOT NULL AND lower(member.email) <> clean_email
+        AND NOT EXISTS (SELECT 1 FROM users WHERE lower(email) = clean_email) THEN
+        UPDATE users SET email = clean_email, updated_at = NOW() WHERE id = member.id;
+      END IF;
+      RETURN member.id;
+    END IF;
+  END IF;
+
+  IF clean_email IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO member FROM users WHERE lower(email) = clean_email ORDER BY created_at LIMIT 1 FOR UPDATE;
+
+  IF FOUND THEN
+    -- A member linked to another customer keeps that link; it shows up as a duplicate
+    IF clean_customer_id IS NOT NULL AND member.shopify_customer_id IS NULL THEN
+      UPDATE users SET shopify_customer_id = clean_customer_id, updated_at = NOW() WHERE id = member.id;
+    END IF;
+    RETURN member.id;
+  END IF;
+
+  INSERT INTO users (email, shopify_customer_id)
+  VALUES (clean_email, clean_customer_id)
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO member.id;
+
+  -- Lost a race with a concurrent webhook for the same customer
+  RETURN COALESCE(member.id, find_loyalty_member(clean_customer_id, clean_email));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- customers/create and customers/update: follow the customer's email and name.
+-- Returns status updated | linked | unchanged | conflict | not_found.
+CREATE OR REPLACE FUNCTION sync_shopify_customer(p_customer_id TEXT, p_email TEXT, p_name TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  clean_email TEXT := NULLIF(lower(trim(p_email)), '');
+  member users%ROWTYPE;
+  other_id UUID;
+BEGIN
+  SELECT * INTO member FROM users WHERE shopify_customer_id = p_customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Not linked yet: link an unlinked member with the email; otherwise the first order creates one
+    UPDATE users SET shopify_customer_id = p_customer_id, name = COALESCE(name, p_name), updated_at = NOW()
+    WHERE id = (
+      SELECT id FROM users
+      WHERE lower(email) = clean_email AND shopify_customer_id IS NULL
+      ORDER BY created_at
+      LIMIT 1
+    )
+    RETURNING * INTO member;
+
+    RETURN jsonb_build_object(
+      'status', CASE WHEN member.id IS NULL THEN 'not_found' ELSE 'linked' END,
+      'user_id', member.id
+    );
+  END IF;
+
+  IF clean_email IS NULL OR lower(member.email) = clean_email THEN
+    UPDATE users SET name = COALESCE(p_name, name), updated_at = NOW() WHERE id = member.id;
+    RETURN jsonb_build_object('status', 'unchanged', 'user_id', member.id);
+  END IF;
+
+  SELECT id INTO other_id FROM users WHERE lower(email) = clean_email AND id <> member.id LIMIT 1;
+
+  -- The new address already has its own member: leave both for merge_loyalty_members()
+  IF other_id IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'conflict', 'user_id', member.id, 'duplicate_user_id', other_id);
+  END IF;
+
+  UPDATE users SET email = clean_email, name = COALESCE(p_name, name), updated_at = NOW()
+  WHERE id = member.id;
+
+  RETURN jsonb_build_object('status', 'updated', 'user_id', member.id, 'previous_email', member.email);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Members that are probably the same customer: same email in a different case, or
+-- orders of a linked customer that were credited to another member.
+CREATE OR REPLACE VIEW loyalty_duplicate_candidates AS
+SELECT a.id AS user_id, a.email, b.id AS duplicate_user_id, b.email AS duplicate_email, 'same_email' AS reason
+FROM users a
+JOIN users b ON lower(a.email) = lower(b.email) AND a.id < b.id
+UNION
+SELECT u.id, u.email, d.id, d.email, 'same_shopify_customer'
+FROM users u
+JOIN orders o ON o.shopify_customer_id = u.shopify_customer_id AND o.user_id <> u.id
+JOIN users d ON d.id = o.user_id;
+
+REVOKE ALL ON loyalty_duplicate_candidates FROM PUBLIC, anon, authenticated;
+
+-- Move everything of p_source_id to p_target_id and delete the source member. Ledger rows
+-- keep their order ids and amounts, so the merged balance is the sum of both; the summary
+-- and tier are rebuilt from the ledger. With p_dry_run nothing is changed.
+CREATE OR REPLACE FUNCTION merge_loyalty_members(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_merged_by TEXT,
+  p_dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  source_user users%ROWTYPE;
+  target_user users%ROWTYPE;
+  source_summary loyalty_points%ROWTYPE;
+  summary loyalty_points%ROWTYPE;
+  moved JSONB;
+  deleted_count INTEGER;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a member into itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_merged_by IS NULL OR length(trim(p_merged_by)) = 0 THEN
+    RAISE EXCEPTION 'merged_by is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock both members in a fixed order so two merges cannot deadlock
+  PERFORM 1 FROM users WHERE id IN (p_source_id, p_target_id) ORDER BY id FOR UPDATE;
+  PERFORM 1 FROM loyalty_points WHERE user_id IN (p_source_id, p_target_id) ORDER BY user_id FOR UPDATE;
+
+  SELECT * INTO source_user FROM users WHERE id = p_source_id;
+  SELECT * INTO target_user FROM users WHERE id = p_target_id;
+
+  IF source_user.id IS NULL OR target_user.id IS NULL THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF source_user.shopify_customer_id IS NOT NULL AND target_user.shopify_customer_id IS NOT NULL
+    AND source_user.shopify_customer_id <> target_user.shopify_customer_id THEN
+    RAISE EXCEPTION 'Members are linked to different Shopify customers' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO source_summary FROM loyalty_points WHERE user_id = p_source_id;
+
+  moved := jsonb_build_object(
+    'transactions', (SELECT COUNT(*) FROM loyalty_transactions WHERE user_id = p_source_id),
+    'points', COALESCE((SELECT SUM(points) FROM loyalty_transactions WHERE user_id = p_source_id), 0),
+    'orders', (SELECT COUNT(*) FROM orders WHERE user_id = p_source_id),
+    'redemptions', (SELECT COUNT(*) FROM loyalty_redemptions WHERE user_id = p_source_id),
+    'adjustments', (SELECT COUNT(*) FROM points_adjustments WHERE user_id = p_source_id),
+    'referrals', (SELECT COUNT(*) FROM referrals WHERE referrer_id = p_source_id OR referred_user_id = p_source_id)
+  );
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'source', jsonb_build_object('id', source_user.id, 'email', source_user.email, 'points', COALESCE(source_summary.points, 0)),
+      'target', jsonb_build_object('id', target_user.id, 'email', target_user.email),
+      'moved', moved
+    );
+  END IF;
+
+  UPDATE loyalty_transactions SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE orders SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE qr_scans SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE loyalty_redemptions SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE loyalty_review_flags SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE tier_history SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE points_adjustments SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE auth_accounts SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE referrals SET referrer_id = p_target_id WHERE referrer_id = p_source_id;
+  UPDATE referrals SET referred_user_id = p_target_id WHERE referred_user_id = p_source_id;
+
+  -- One referral code and one notice per expiry date per member; the target's win
+  UPDATE referral_codes SET user_id = p_target_id
+  WHERE user_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM referral_codes WHERE user_id = p_target_id);
+
+  UPDATE loyalty_expiry_notices n SET user_id = p_target_id
+  WHERE n.user_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM loyalty_expiry_notices t WHERE t.user_id = p_target_id AND t.expires_at = n.expires_at
+    );
+
+  -- Free the unique customer id before the target takes it
+  UPDATE users SET shopify_customer_id = NULL WHERE id = p_source_id;
+
+  UPDATE users SET
+    shopify_customer_id = COALESCE(target_user.shopify_customer_id, source_user.shopify_customer_id),
+    name = COALESCE(target_user.name, source_user.name),
+    phone = COALESCE(target_user.phone, source_user.phone),
+    birth_date = COALESCE(target_user.birth_date, source_user.birth_date),
+    email_verified_at = COALESCE(target_user.email_verified_at, source_user.email_verified_at),
+    -- Membership anniversaries count from the older account
+    created_at = LEAST(target_user.created_at, source_user.created_at),
+    updated_at = NOW()
+  WHERE id = p_target_id;
+
+  DELETE FROM users WHERE id = p_source_id;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  summary := refresh_loyalty_summary(p_target_id);
+
+  IF source_summary.streak > summary.streak THEN
+    UPDATE loyalty_points SET streak = source_summary.streak WHERE user_id = p_target_id;
+  END IF;
+
+  INSERT INTO loyalty_member_merges (source_user_id, source_email, target_user_id, target_email, moved, balance_after, merged_by)
+  VALUES (source_user.id, source_user.email, target_user.id, target_user.email, moved, summary.points, p_merged_by);
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'source', jsonb_build_object('id', source_user.id, 'email', source_user.email, 'deleted', deleted_count = 1),
+    'target', jsonb_build_object('id', target_user.id, 'email', target_user.email),
+    'moved', moved,
+    'balance', summary.points,
+    'tier', summary.tier
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION find_loyalty_member(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_loyalty_member(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_shopify_customer(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION merge_loyalty_members(UUID, UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
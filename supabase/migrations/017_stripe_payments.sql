@@ -0,0 +1,11 @@
+-- Stripe payments for storefront orders (components/flows/OrderFlow.tsx)
+-- /api/payments/intent creates a PaymentIntent for a pending order and stores its id
+-- here; the Stripe webhook (/api/webhooks/stripe) marks the order paid and credits the
+-- points. These orders earn the base rate: the QR bonus needs a scan the server has
+-- recorded, and the order flow only has what the browser sends.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS stripe_payment_intent_id TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_stripe_payment_intent_id_uidx
+ON orders (stripe_payment_intent_id) WHERE stripe_payment_intent_id IS NOT NULL;
@@ -0,0 +1,96 @@
+-- Shopify webhook deliveries for HerbSpot.fi
+-- Shopify retries a delivery (same X-Shopify-Webhook-Id) until it gets a 2xx, and may
+-- deliver the same event more than once. webhook-shopify claims each delivery id here
+-- before handling it: a delivery that was already processed is acknowledged with its
+-- stored response instead of being handled again.
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  webhook_id TEXT PRIMARY KEY,
+  topic TEXT NOT NULL,
+  shop_domain TEXT,
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  response_status INTEGER,
+  response JSONB,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  claimed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_status_idx
+ON webhook_deliveries (status, received_at);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access webhook_deliveries" ON webhook_deliveries
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Claim a delivery for processing. Returns
+--   new          first time this id is seen
+--   retry        an earlier attempt failed or stalled; handle it again
+--   duplicate    already processed; response holds what was answered then
+--   in_progress  another attempt is handling it right now
+CREATE OR REPLACE FUNCTION claim_webhook_delivery(
+  p_webhook_id TEXT,
+  p_topic TEXT,
+  p_shop_domain TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  delivery webhook_deliveries%ROWTYPE;
+BEGIN
+  INSERT INTO webhook_deliveries (webhook_id, topic, shop_domain)
+  VALUES (p_webhook_id, p_topic, p_shop_domain)
+  ON CONFLICT (webhook_id) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'new', 'attempts', 1);
+  END IF;
+
+  SELECT * INTO delivery
+  FROM webhook_deliveries
+  WHERE webhook_id = p_webhook_id
+  FOR UPDATE;
+
+  IF delivery.status = 'processed' THEN
+    RETURN jsonb_build_object(
+      'status', 'duplicate',
+      'attempts', delivery.attempts,
+      'response_status', delivery.response_status,
+      'response', delivery.response
+    );
+  END IF;
+
+  -- An attempt that has not finished within five minutes is assumed to have crashed
+  IF delivery.status = 'processing' AND delivery.claimed_at > NOW() - INTERVAL '5 minutes' THEN
+    RETURN jsonb_build_object('status', 'in_progress', 'attempts', delivery.attempts);
+  END IF;
+
+  UPDATE webhook_deliveries
+  SET status = 'processing',
+      attempts = attempts + 1,
+      claimed_at = NOW()
+  WHERE webhook_id = p_webhook_id
+  RETURNING * INTO delivery;
+
+  RETURN jsonb_build_object('status', 'retry', 'attempts', delivery.attempts);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION complete_webhook_delivery(
+  p_webhook_id TEXT,
+  p_response_status INTEGER,
+  p_response JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+  UPDATE webhook_deliveries
+  SET status = CASE WHEN p_response_status BETWEEN 200 AND 299 THEN 'processed' ELSE 'failed' END,
+      response_status = p_response_status,
+      response = p_response,
+      processed_at = NOW()
+  WHERE webhook_id = p_webhook_id;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_delivery(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_webhook_delivery(TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
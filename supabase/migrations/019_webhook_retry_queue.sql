@@ -0,0 +1,125 @@
+-- Webhook retry queue and dead letters for HerbSpot.fi
+-- Each Shopify delivery keeps its payload and headers, so a failed delivery can be run
+-- again without Shopify: webhook-replay retries failed deliveries with exponential
+-- backoff and, after MAX attempts, leaves them as 'dead' for a manual replay.
+-- Replays go through claim_webhook_delivery() like live deliveries, so a delivery that
+-- was processed is never handled twice.
+
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS payload JSONB,
+  ADD COLUMN IF NOT EXISTS headers JSONB,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('processing', 'processed', 'failed', 'dead'));
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_retry_idx
+ON webhook_deliveries (next_attempt_at) WHERE status = 'failed';
+
+-- Claim now also stores the delivery's payload and headers the first time it is seen
+DROP FUNCTION IF EXISTS claim_webhook_delivery(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION claim_webhook_delivery(
+  p_webhook_id TEXT,
+  p_topic TEXT,
+  p_shop_domain TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL,
+  p_headers JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  delivery webhook_deliveries%ROWTYPE;
+BEGIN
+  INSERT INTO webhook_deliveries (webhook_id, topic, shop_domain, payload, headers)
+  VALUES (p_webhook_id, p_topic, p_shop_domain, p_payload, p_headers)
+  ON CONFLICT (webhook_id) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'new', 'attempts', 1);
+  END IF;
+
+  SELECT * INTO delivery
+  FROM webhook_deliveries
+  WHERE webhook_id = p_webhook_id
+  FOR UPDATE;
+
+  IF delivery.status = 'processed' THEN
+    RETURN jsonb_build_object(
+      'status', 'duplicate',
+      'attempts', delivery.attempts,
+      'response_status', delivery.response_status,
+      'response', delivery.response
+    );
+  END IF;
+
+  -- An attempt that has not finished within five minutes is assumed to have crashed
+  IF delivery.status = 'processing' AND delivery.claimed_at > NOW() - INTERVAL '5 minutes' THEN
+    RETURN jsonb_build_object('status', 'in_progress', 'attempts', delivery.attempts);
+  END IF;
+
+  -- Failed and dead deliveries are taken up again, by Shopify's retry or a replay
+  UPDATE webhook_deliveries
+  SET status = 'processing',
+      attempts = attempts + 1,
+      claimed_at = NOW(),
+      next_attempt_at = NULL,
+      payload = COALESCE(payload, p_payload),
+      headers = COALESCE(headers, p_headers)
+  WHERE webhook_id = p_webhook_id
+  RETURNING * INTO delivery;
+
+  RETURN jsonb_build_object('status', 'retry', 'attempts', delivery.attempts);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A failed attempt schedules the next one 5, 10, 20, ... minutes later; after
+-- p_max_attempts the delivery is dead-lettered and only a manual replay runs it again.
+DROP FUNCTION IF EXISTS complete_webhook_delivery(TEXT, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION complete_webhook_delivery(
+  p_webhook_id TEXT,
+  p_response_status INTEGER,
+  p_response JSONB DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 8
+)
+RETURNS JSONB AS $$
+DECLARE
+  delivery webhook_deliveries%ROWTYPE;
+  succeeded BOOLEAN := p_response_status BETWEEN 200 AND 299;
+BEGIN
+  UPDATE webhook_deliveries
+  SET status = CASE
+        WHEN succeeded THEN 'processed'
+        WHEN attempts >= p_max_attempts THEN 'dead'
+        ELSE 'failed'
+      END,
+      response_status = p_response_status,
+      response = p_response,
+      processed_at = NOW(),
+      last_error = CASE
+        WHEN succeeded THEN NULL
+        ELSE COALESCE(p_response->>'error', 'HTTP ' || p_response_status)
+      END,
+      next_attempt_at = CASE
+        WHEN succeeded OR attempts >= p_max_attempts THEN NULL
+        ELSE NOW() + INTERVAL '5 minutes' * POWER(2, attempts - 1)
+      END
+  WHERE webhook_id = p_webhook_id
+  RETURNING * INTO delivery;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'unknown');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', delivery.status,
+    'attempts', delivery.attempts,
+    'next_attempt_at', delivery.next_attempt_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_delivery(TEXT, TEXT, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_webhook_delivery(TEXT, INTEGER, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,413 @@
+-- GDPR requests for HerbSpot.fi
+-- Shopify's mandatory privacy webhooks (customers/data_request, customers/redact,
+-- shop/redact) export or erase what we hold about a customer. Erasure anonymises instead
+-- of deleting: the member row, ledger, scans and orders stay with their points and
+-- amounts so balances, tiers and the financial totals are unchanged, while names,
+-- emails, phones, addresses, sign-in links and stored webhook payloads are removed.
+-- Every request is recorded in gdpr_requests with its export or erasure report.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS redacted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS gdpr_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind TEXT NOT NULL CHECK (kind IN ('data_request', 'customer_redact', 'shop_redact')),
+  shop_domain TEXT,
+  shopify_customer_id TEXT,
+  shopify_request_id TEXT,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'not_found')),
+  export JSONB,
+  report JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS gdpr_requests_created_at_idx
+ON gdpr_requests (created_at);
+
+ALTER TABLE gdpr_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access gdpr_requests" ON gdpr_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Orders that belong to a customer: the member's, the Shopify customer's and any listed
+-- by Shopify (orders_requested / orders_to_redact, which include guest orders)
+CREATE OR REPLACE FUNCTION gdpr_customer_orders(
+  p_user_id UUID,
+  p_customer_id TEXT,
+  p_shopify_order_ids TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF orders AS $$
+  SELECT * FROM orders
+  WHERE (p_user_id IS NOT NULL AND user_id = p_user_id)
+     OR (p_customer_id IS NOT NULL AND shopify_customer_id = p_customer_id)
+     OR shopify_order_id = ANY(COALESCE(p_shopify_order_ids, '{}'));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Webhook logs about those orders or about the Shopify customer itself
+CREATE OR REPLACE FUNCTION gdpr_customer_webhook_logs(p_customer_id TEXT, p_shopify_order_ids TEXT[])
+RETURNS SETOF webhook_logs AS $$
+  SELECT * FROM webhook_logs
+  WHERE shopify_order_id = ANY(COALESCE(p_shopify_order_ids, '{}'))
+     OR (p_customer_id IS NOT NULL AND (
+          request_data->>'customer_id' = p_customer_id
+       OR request_data#>>'{payload,customer,id}' = p_customer_id
+       OR (webhook_type LIKE 'customers/%' AND request_data#>>'{payload,id}' = p_customer_id)
+     ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Stored Shopify deliveries (payload and headers) about those orders or the customer
+CREATE OR REPLACE FUNCTION gdpr_customer_webhook_deliveries(p_customer_id TEXT, p_shopify_order_ids TEXT[])
+RETURNS SETOF webhook_deliveries AS $$
+  SELECT * FROM webhook_deliveries
+  WHERE payload IS NOT NULL AND (
+       (topic LIKE 'orders/%' AND payload->>'id' = ANY(COALESCE(p_shopify_order_ids, '{}')))
+    OR (topic LIKE 'refunds/%' AND payload->>'order_id' = ANY(COALESCE(p_shopify_order_ids, '{}')))
+    OR (p_customer_id IS NOT NULL AND (
+          payload#>>'{customer,id}' = p_customer_id
+       OR (topic LIKE 'customers/%' AND payload->>'id' = p_customer_id)
+    ))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Everything we hold about a customer, as one JSON document
+CREATE OR REPLACE FUNCTION export_customer_data(
+  p_user_id UUID,
+  p_customer_id TEXT DEFAULT NULL,
+  p_shopify_order_ids TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  member users%ROWTYPE;
+  customer_id TEXT;
+  order_ids TEXT[];
+BEGIN
+  SELECT * INTO member FROM users WHERE id = p_user_id;
+  customer_id := COALESCE(p_customer_id, member.shopify_customer_id);
+
+  SELECT COALESCE(array_agg(shopify_order_id) FILTER (WHERE shopify_order_id IS NOT NULL), '{}')
+  INTO order_ids
+  FROM gdpr_customer_orders(p_user_id, customer_id, p_shopify_order_ids);
+
+  RETURN jsonb_build_object(
+    'generated_at', NOW(),
+    'user_id', p_user_id,
+    'shopify_customer_id', customer_id,
+    'users', CASE WHEN member.id IS NULL THEN NULL ELSE to_jsonb(member) END,
+    'loyalty_points', (SELECT to_jsonb(lp) FROM loyalty_points lp WHERE lp.user_id = p_user_id),
+    'loyalty_transactions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at) FROM loyalty_transactions t WHERE t.user_id = p_user_id
+    ), '[]'::jsonb),
+    'qr_scans', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) ORDER BY s.scanned_at) FROM qr_scans s WHERE s.user_id = p_user_id
+    ), '[]'::jsonb),
+    'orders', COALESCE((
+      SELECT jsonb_agg(to_jsonb(o) ORDER BY o.created_at)
+      FROM gdpr_customer_orders(p_user_id, customer_id, p_shopify_order_ids) o
+    ), '[]'::jsonb),
+    'loyalty_redemptions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at) FROM loyalty_redemptions r WHERE r.user_id = p_user_id
+    ), '[]'::jsonb),
+    'referrals', COALESCE((
+      SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at) FROM referrals r
+      WHERE r.referrer_id = p_user_id OR r.referred_user_id = p_user_id
+    ), '[]'::jsonb),
+    'webhook_logs', COALESCE((
+      SELECT jsonb_agg(to_jsonb(l) ORDER BY l.processed_at)
+      FROM gdpr_customer_webhook_logs(customer_id, order_ids) l
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Anonymise the customer's orders and remove stored webhook data about them. Totals,
+-- items and statuses stay. Returns the number of rows changed per table.
+CREATE OR REPLACE FUNCTION redact_customer_orders(
+  p_user_id UUID,
+  p_customer_id TEXT,
+  p_shopify_order_ids TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  order_ids TEXT[];
+  orders_count INTEGER;
+  logs_count INTEGER;
+  deliveries_count INTEGER;
+BEGIN
+  SELECT COALESCE(array_agg(shopify_order_id) FILTER (WHERE shopify_order_id IS NOT NULL), '{}')
+  INTO order_ids
+  FROM gdpr_customer_orders(p_user_id, p_customer_id, p_shopify_order_ids);
+
+  UPDATE webhook_logs SET request_data = NULL
+  WHERE request_data IS NOT NULL
+    AND id IN (SELECT id FROM gdpr_customer_webhook_logs(p_customer_id, order_ids));
+  GET DIAGNOSTICS logs_count = ROW_COUNT;
+
+  -- A pending job cannot run without its payload, so it is dead-lettered with it
+  UPDATE webhook_deliveries SET payload = NULL, headers = NULL,
+    status = CASE WHEN status IN ('queued', 'failed') THEN 'dead' ELSE status END
+  WHERE webhook_id IN (SELECT webhook_id FROM gdpr_customer_webhook_deliveries(p_customer_id, order_ids));
+  GET DIAGNOSTICS deliveries_count = ROW_COUNT;
+
+  UPDATE orders SET
+    email = NULL,
+    shipping_address = NULL,
+    billing_address = NULL,
+    shopify_customer_id = NULL,
+    updated_at = NOW()
+  WHERE id IN (SELECT id FROM gdpr_customer_orders(p_user_id, p_customer_id, p_shopify_order_ids));
+  GET DIAGNOSTICS orders_count = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'orders', orders_count,
+    'webhook_logs', logs_count,
+    'webhook_deliveries', deliveries_count,
+    'shopify_order_ids', to_jsonb(order_ids)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The erasure rule for one member. The member row is kept with a placeholder email so the
+-- ledger, scans and orders stay attached; the ledger and balance are compared before and
+-- after, and the function fails (rolling everything back) if anything personal is left.
+CREATE OR REPLACE FUNCTION redact_loyalty_member(p_user_id UUID, p_reason TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  member users%ROWTYPE;
+  ledger_before JSONB;
+  ledger_after JSONB;
+  orders_report JSONB;
+  auth_count INTEGER;
+  token_count INTEGER;
+  referral_count INTEGER;
+  merge_count INTEGER;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO member FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF member.redacted_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_redacted', 'user_id', p_user_id, 'redacted_at', member.redacted_at);
+  END IF;
+
+  ledger_before := jsonb_build_object(
+    'transactions', (SELECT COUNT(*) FROM loyalty_transactions WHERE user_id = p_user_id),
+    'points', COALESCE((SELECT SUM(points) FROM loyalty_transactions WHERE user_id = p_user_id), 0),
+    'amount', COALESCE((SELECT SUM(amount) FROM loyalty_transactions WHERE user_id = p_user_id), 0),
+    'balance', (SELECT points FROM loyalty_points WHERE user_id = p_user_id),
+    'orders_total', COALESCE((SELECT SUM(total_amount) FROM orders WHERE user_id = p_user_id), 0)
+  );
+
+  orders_report := redact_customer_orders(p_user_id, member.shopify_customer_id);
+
+  DELETE FROM auth_accounts WHERE user_id = p_user_id;
+  GET DIAGNOSTICS auth_count = ROW_COUNT;
+
+  DELETE FROM auth_verification_tokens WHERE lower(identifier) = lower(member.email);
+  GET DIAGNOSTICS token_count = ROW_COUNT;
+
+  UPDATE referrals SET referred_email = 'redacted+' || id || '@redacted.invalid'
+  WHERE referred_user_id = p_user_id OR lower(referred_email) = lower(member.email);
+  GET DIAGNOSTICS referral_count = ROW_COUNT;
+
+  UPDATE loyalty_member_merges SET
+    source_email = CASE WHEN lower(source_email) = lower(member.email) THEN 'redacted' ELSE source_email END,
+    target_email = CASE WHEN lower(target_email) = lower(member.email) THEN 'redacted' ELSE target_email END
+  WHERE lower(source_email) = lower(member.email) OR lower(target_email) = lower(member.email);
+  GET DIAGNOSTICS merge_count = ROW_COUNT;
+
+  UPDATE users SET
+    email = 'redacted+' || id || '@redacted.invalid',
+    name = NULL,
+    phone = NULL,
+    birth_date = NULL,
+    email_verified_at = NULL,
+    shopify_customer_id = NULL,
+    redacted_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_user_id
+  RETURNING * INTO member;
+
+  ledger_after := jsonb_build_object(
+    'transactions', (SELECT COUNT(*) FROM loyalty_transactions WHERE user_id = p_user_id),
+    'points', COALESCE((SELECT SUM(points) FROM loyalty_transactions WHERE user_id = p_user_id), 0),
+    'amount', COALESCE((SELECT SUM(amount) FROM loyalty_transactions WHERE user_id = p_user_id), 0),
+    'balance', (SELECT points FROM loyalty_points WHERE user_id = p_user_id),
+    'orders_total', COALESCE((SELECT SUM(total_amount) FROM orders WHERE user_id = p_user_id), 0)
+  );
+
+  IF ledger_after <> ledger_before THEN
+    RAISE EXCEPTION 'Ledger totals changed during redaction of %', p_user_id;
+  END IF;
+
+  SELECT COUNT(*) INTO remaining FROM orders
+  WHERE user_id = p_user_id
+    AND (email IS NOT NULL OR shipping_address IS NOT NULL OR billing_address IS NOT NULL);
+
+  IF remaining > 0 OR EXISTS (SELECT 1 FROM auth_accounts WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Personal data left after redaction of %', p_user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'redacted',
+    'user_id', p_user_id,
+    'reason', p_reason,
+    'redacted_at', member.redacted_at,
+    'anonymised', orders_report || jsonb_build_object(
+      'users', 1,
+      'auth_accounts', auth_count,
+      'auth_verification_tokens', token_count,
+      'referrals', referral_count,
+      'loyalty_member_merges', merge_count
+    ),
+    'ledger', ledger_after,
+    'verified', true
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- customers/data_request: record the export for the shop to hand over
+CREATE OR REPLACE FUNCTION record_customer_data_request(
+  p_shop_domain TEXT,
+  p_customer_id TEXT,
+  p_email TEXT,
+  p_shopify_order_ids TEXT[] DEFAULT '{}',
+  p_request_id TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  member_id UUID := find_loyalty_member(p_customer_id, p_email);
+  request_id UUID;
+  customer_export JSONB;
+BEGIN
+  customer_export := export_customer_data(member_id, p_customer_id, p_shopify_order_ids);
+
+  INSERT INTO gdpr_requests (kind, shop_domain, shopify_customer_id, shopify_request_id, user_id, status, export)
+  VALUES (
+    'data_request', p_shop_domain, p_customer_id, p_request_id, member_id,
+    CASE WHEN member_id IS NULL AND jsonb_array_length(customer_export->'orders') = 0 THEN 'not_found' ELSE 'completed' END,
+    customer_export
+  )
+  RETURNING id INTO request_id;
+
+  RETURN jsonb_build_object(
+    'request_id', request_id,
+    'user_id', member_id,
+    'orders', jsonb_array_length(customer_export->'orders'),
+    'transactions', jsonb_array_length(customer_export->'loyalty_transactions')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- customers/redact: erase the member (if any) and the listed orders, guest orders included
+CREATE OR REPLACE FUNCTION redact_shopify_customer(
+  p_shop_domain TEXT,
+  p_customer_id TEXT,
+  p_email TEXT,
+  p_shopify_order_ids TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  member_id UUID := find_loyalty_member(p_customer_id, p_email);
+  member_report JSONB;
+  orders_report JSONB;
+  remaining INTEGER;
+  report JSONB;
+  request_id UUID;
+BEGIN
+  IF member_id IS NOT NULL THEN
+    member_report := redact_loyalty_member(member_id, 'customers/redact');
+  END IF;
+
+  -- Orders not linked to the member (guest checkout) and any the member step did not reach
+  orders_report := redact_customer_orders(NULL, p_customer_id, p_shopify_order_ids);
+
+  SELECT COUNT(*) INTO remaining
+  FROM gdpr_customer_orders(NULL, p_customer_id, p_shopify_order_ids)
+  WHERE email IS NOT NULL OR shipping_address IS NOT NULL OR billing_address IS NOT NULL;
+
+  IF remaining > 0 THEN
+    RAISE EXCEPTION 'Personal data left after redaction of customer %', p_customer_id;
+  END IF;
+
+  report := jsonb_build_object(
+    'member', member_report,
+    'orders', orders_report,
+    'verified', true
+  );
+
+  INSERT INTO gdpr_requests (kind, shop_domain, shopify_customer_id, user_id, status, report)
+  VALUES (
+    'customer_redact', p_shop_domain, p_customer_id, member_id,
+    CASE WHEN member_id IS NULL AND (orders_report->>'orders')::INTEGER = 0 THEN 'not_found' ELSE 'completed' END,
+    report
+  )
+  RETURNING id INTO request_id;
+
+  RETURN report || jsonb_build_object('request_id', request_id, 'user_id', member_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- shop/redact: the app was uninstalled from the shop. Loyalty members are HerbSpot's own
+-- accounts and stay; everything that came from the shop's webhooks is removed and the
+-- Shopify customer links are dropped. Orders and links are not kept per shop, so this
+-- clears all of them: the webhook handler only calls it for SHOPIFY_STORE_DOMAIN.
+CREATE OR REPLACE FUNCTION redact_shop(p_shop_domain TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  deliveries_count INTEGER;
+  logs_count INTEGER;
+  orders_count INTEGER;
+  links_count INTEGER;
+  report JSONB;
+  request_id UUID;
+BEGIN
+  UPDATE webhook_deliveries SET payload = NULL, headers = NULL,
+    status = CASE WHEN status IN ('queued', 'failed') THEN 'dead' ELSE status END
+  WHERE shop_domain = p_shop_domain AND (payload IS NOT NULL OR headers IS NOT NULL);
+  GET DIAGNOSTICS deliveries_count = ROW_COUNT;
+
+  UPDATE webhook_logs SET request_data = NULL
+  WHERE request_data->>'shop_domain' = p_shop_domain;
+  GET DIAGNOSTICS logs_count = ROW_COUNT;
+
+  UPDATE orders SET
+    email = NULL,
+    shipping_address = NULL,
+    billing_address = NULL,
+    shopify_customer_id = NULL,
+    updated_at = NOW()
+  WHERE shopify_order_id IS NOT NULL
+    AND (email IS NOT NULL OR shipping_address IS NOT NULL OR billing_address IS NOT NULL OR shopify_customer_id IS NOT NULL);
+  GET DIAGNOSTICS orders_count = ROW_COUNT;
+
+  UPDATE users SET shopify_customer_id = NULL, updated_at = NOW()
+  WHERE shopify_customer_id IS NOT NULL;
+  GET DIAGNOSTICS links_count = ROW_COUNT;
+
+  report := jsonb_build_object(
+    'webhook_deliveries', deliveries_count,
+    'webhook_logs', logs_count,
+    'orders', orders_count,
+    'customer_links', links_count
+  );
+
+  INSERT INTO gdpr_requests (kind, shop_domain, status, report)
+  VALUES ('shop_redact', p_shop_domain, 'completed', report)
+  RETURNING id INTO request_id;
+
+  RETURN report || jsonb_build_object('request_id', request_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION gdpr_customer_orders(UUID, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gdpr_customer_webhook_logs(TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gdpr_customer_webhook_deliveries(TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION export_customer_data(UUID, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redact_customer_orders(UUID, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redact_loyalty_member(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_customer_data_request(TEXT, TEXT, TEXT, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redact_shopify_customer(TEXT, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redact_shop(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,159 @@
+-- Self-service account deletion for HerbSpot.fi
+-- A member asks for deletion on the account page and confirms it from an emailed link.
+-- The deletion then waits out a cooling-off period, during which the member can cancel,
+-- before the daily account-purge job erases them with redact_loyalty_member(): the same
+-- anonymisation as Shopify's customers/redact, so orders keep their totals and the
+-- ledger stays intact.
+
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  -- SHA-256 of the emailed confirmation token
+  token_hash TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending_confirmation'
+    CHECK (status IN ('pending_confirmation', 'scheduled', 'cancelled', 'purged')),
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  confirm_before TIMESTAMP WITH TIME ZONE NOT NULL,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  purge_after TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  purged_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one open request per member
+CREATE UNIQUE INDEX IF NOT EXISTS account_deletion_requests_open_uidx
+ON account_deletion_requests (user_id) WHERE status IN ('pending_confirmation', 'scheduled');
+
+CREATE INDEX IF NOT EXISTS account_deletion_requests_due_idx
+ON account_deletion_requests (purge_after) WHERE status = 'scheduled';
+
+ALTER TABLE account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own deletion requests" ON account_deletion_requests
+  FOR SELECT USING (auth.uid()::text = user_id::text);
+
+CREATE POLICY "Service role full access account_deletion_requests" ON account_deletion_requests
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Purges are recorded with the Shopify GDPR requests
+ALTER TABLE gdpr_requests DROP CONSTRAINT IF EXISTS gdpr_requests_kind_check;
+ALTER TABLE gdpr_requests ADD CONSTRAINT gdpr_requests_kind_check
+  CHECK (kind IN ('data_request', 'customer_redact', 'shop_redact', 'member_deletion'));
+
+-- Start (or restart) a deletion request. An unconfirmed request is replaced, so a new
+-- email link invalidates the old one; a scheduled deletion is left as it is.
+CREATE OR REPLACE FUNCTION request_account_deletion(
+  p_user_id UUID,
+  p_token_hash TEXT,
+  p_confirm_within INTERVAL DEFAULT INTERVAL '24 hours'
+)
+RETURNS JSONB AS $$
+DECLARE
+  request account_deletion_requests%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM users WHERE id = p_user_id AND redacted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO request FROM account_deletion_requests
+  WHERE user_id = p_user_id AND status = 'scheduled';
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'already_scheduled', 'purge_after', request.purge_after);
+  END IF;
+
+  UPDATE account_deletion_requests SET status = 'cancelled', cancelled_at = NOW()
+  WHERE user_id = p_user_id AND status = 'pending_confirmation';
+
+  INSERT INTO account_deletion_requests (user_id, token_hash, confirm_before)
+  VALUES (p_user_id, p_token_hash, NOW() + p_confirm_within)
+  RETURNING * INTO request;
+
+  RETURN jsonb_build_object('status', 'pending_confirmation', 'confirm_before', request.confirm_before);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The emailed link: schedules the purge after the cooling-off period
+CREATE OR REPLACE FUNCTION confirm_account_deletion(
+  p_token_hash TEXT,
+  p_cooling_off INTERVAL DEFAULT INTERVAL '14 days'
+)
+RETURNS JSONB AS $$
+DECLARE
+  request account_deletion_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request FROM account_deletion_requests WHERE token_hash = p_token_hash FOR UPDATE;
+
+  IF NOT FOUND OR request.status IN ('cancelled', 'purged') THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  -- Opening the link twice is fine
+  IF request.status = 'scheduled' THEN
+    RETURN jsonb_build_object('status', 'scheduled', 'user_id', request.user_id, 'purge_after', request.purge_after);
+  END IF;
+
+  IF request.confirm_before < NOW() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  UPDATE account_deletion_requests
+  SET status = 'scheduled', confirmed_at = NOW(), purge_after = NOW() + p_cooling_off
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  RETURN jsonb_build_object('status', 'scheduled', 'user_id', request.user_id, 'purge_after', request.purge_after);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cancel_account_deletion(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE account_deletion_requests SET status = 'cancelled', cancelled_at = NOW()
+  WHERE user_id = p_user_id AND status IN ('pending_confirmation', 'scheduled');
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deletions whose cooling-off period is over, with the address for the final email
+CREATE OR REPLACE FUNCTION due_account_deletions(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (request_id UUID, user_id UUID, email TEXT, purge_after TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT r.id, r.user_id, u.email, r.purge_after
+  FROM account_deletion_requests r
+  JOIN users u ON u.id = r.user_id
+  WHERE r.status = 'scheduled' AND r.purge_after <= NOW()
+  ORDER BY r.purge_after
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Erase the member of a due request (redact_loyalty_member) and record it
+CREATE OR REPLACE FUNCTION purge_account_deletion(p_request_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  request account_deletion_requests%ROWTYPE;
+  report JSONB;
+BEGIN
+  SELECT * INTO request FROM account_deletion_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND OR request.status <> 'scheduled' OR request.purge_after > NOW() THEN
+    RETURN jsonb_build_object('status', 'not_due', 'request_id', p_request_id);
+  END IF;
+
+  report := redact_loyalty_member(request.user_id, 'member_deletion');
+
+  UPDATE account_deletion_requests SET status = 'purged', purged_at = NOW()
+  WHERE id = p_request_id;
+
+  INSERT INTO gdpr_requests (kind, user_id, status, report)
+  VALUES ('member_deletion', request.user_id, 'completed', report || jsonb_build_object('deletion_request_id', p_request_id));
+
+  RETURN report;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION request_account_deletion(UUID, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION confirm_account_deletion(TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_account_deletion(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION due_account_deletions(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_account_deletion(UUID) FROM PUBLIC, anon, authenticated;
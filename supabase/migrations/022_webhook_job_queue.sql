@@ -0,0 +1,132 @@
+-- Asynchronous Shopify webhook processing for HerbSpot.fi
+-- webhook-shopify now only verifies a delivery, stores it here as a 'queued' job and
+-- acknowledges it, so slow handlers cannot run past Shopify's timeout and set off its
+-- retries. The webhook-worker function claims due jobs (claim_webhook_jobs) and runs
+-- them with the same handlers; failures keep the backoff and dead letters of
+-- complete_webhook_delivery().
+--
+-- Jobs for the same order (ordering_key) run one at a time in the order they were
+-- received: a job waits while an earlier one for that order is queued, running or
+-- waiting for a retry. A dead-lettered job no longer holds the order up, and neither does
+-- one whose payload a GDPR redaction removed (it can never run again).
+
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS ordering_key TEXT;
+
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('queued', 'processing', 'processed', 'failed', 'dead'));
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_pending_idx
+ON webhook_deliveries (received_at) WHERE status IN ('queued', 'processing', 'failed');
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_ordering_idx
+ON webhook_deliveries (ordering_key, received_at) WHERE status IN ('queued', 'processing', 'failed');
+
+-- Store a verified delivery as a job. Returns
+--   queued      first time this id is seen
+--   duplicate   already stored (Shopify resent it); delivery_status is where it stands
+CREATE OR REPLACE FUNCTION enqueue_webhook_delivery(
+  p_webhook_id TEXT,
+  p_topic TEXT,
+  p_shop_domain TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL,
+  p_headers JSONB DEFAULT NULL,
+  p_ordering_key TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  delivery webhook_deliveries%ROWTYPE;
+BEGIN
+  INSERT INTO webhook_deliveries (
+    webhook_id, topic, shop_domain, payload, headers, ordering_key,
+    status, attempts, claimed_at, next_attempt_at
+  )
+  VALUES (
+    p_webhook_id, p_topic, p_shop_domain, p_payload, p_headers, p_ordering_key,
+    'queued', 0, NULL, NOW()
+  )
+  ON CONFLICT (webhook_id) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'queued');
+  END IF;
+
+  SELECT * INTO delivery FROM webhook_deliveries WHERE webhook_id = p_webhook_id;
+
+  RETURN jsonb_build_object('status', 'duplicate', 'delivery_status', delivery.status);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim up to p_limit jobs for a worker: queued jobs, failed jobs whose retry is due and
+-- attempts that stalled (as in claim_webhook_delivery), oldest first. A job is skipped
+-- while an earlier job for the same order is unfinished, so one order's jobs never run
+-- side by side or out of order. Redacted jobs (payload NULL) are never claimed and do
+-- not count as unfinished.
+CREATE OR REPLACE FUNCTION claim_webhook_jobs(
+  p_limit INTEGER DEFAULT 25,
+  p_stalled_after INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  -- One claim at a time, so two workers cannot both take jobs of the same order
+  PERFORM pg_advisory_xact_lock(hashtext('claim_webhook_jobs'));
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.webhook_id
+    FROM webhook_deliveries d
+    WHERE d.payload IS NOT NULL
+      AND (
+        d.status = 'queued'
+        OR (d.status = 'failed' AND d.next_attempt_at <= NOW())
+        OR (d.status = 'processing' AND d.claimed_at < NOW() - p_stalled_after)
+      )
+      AND (d.ordering_key IS NULL OR NOT EXISTS (
+        SELECT 1 FROM webhook_deliveries earlier
+        WHERE earlier.ordering_key = d.ordering_key
+          AND earlier.status IN ('queued', 'processing', 'failed')
+          AND earlier.payload IS NOT NULL
+          AND (earlier.received_at, earlier.webhook_id) < (d.received_at, d.webhook_id)
+      ))
+    ORDER BY d.received_at, d.webhook_id
+    LIMIT p_limit
+  )
+  UPDATE webhook_deliveries d
+  SET status = 'processing',
+      attempts = d.attempts + 1,
+      claimed_at = NOW(),
+      next_attempt_at = NULL
+  FROM due
+  WHERE d.webhook_id = due.webhook_id
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queue depth for the worker's logs and monitoring
+CREATE OR REPLACE FUNCTION webhook_queue_depth()
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'queued', COUNT(*) FILTER (WHERE status = 'queued'),
+    'processing', COUNT(*) FILTER (WHERE status = 'processing'),
+    'failed', COUNT(*) FILTER (WHERE status = 'failed'),
+    'due', COUNT(*) FILTER (WHERE status = 'queued' OR (status = 'failed' AND next_attempt_at <= NOW())),
+    'dead', COUNT(*) FILTER (WHERE status = 'dead'),
+    'oldest_pending_at', MIN(received_at) FILTER (WHERE status IN ('queued', 'processing', 'failed')),
+    'pending_by_topic', COALESCE((
+      SELECT jsonb_object_agg(topic, jobs)
+      FROM (
+        SELECT topic, COUNT(*) AS jobs
+        FROM webhook_deliveries
+        WHERE status IN ('queued', 'processing', 'failed')
+        GROUP BY topic
+      ) pending
+    ), '{}'::jsonb)
+  )
+  FROM webhook_deliveries
+  WHERE status <> 'processed';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_delivery(TEXT, TEXT, TEXT, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION webhook_queue_depth() FROM PUBLIC, anon, authenticated;
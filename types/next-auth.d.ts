@@ -0,0 +1,9 @@
+import type { DefaultSession } from 'next-auth'
+
+declare module 'next-auth' {
+  interface Session {
+    user: { id: string } & DefaultSession['user']
+    // Signed for Supabase so RLS applies to the member; see lib/auth.ts
+    supabaseAccessToken?: string
+  }
+}